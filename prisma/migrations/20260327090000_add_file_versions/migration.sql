@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "uploadedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "FileVersion" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "thumbnailPath" TEXT,
+    "duration" INTEGER,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "archivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FileVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "File_userId_folderId_name_idx" ON "File"("userId", "folderId", "name");
+
+-- CreateIndex
+CREATE INDEX "FileVersion_fileId_createdAt_idx" ON "FileVersion"("fileId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FileVersion" ADD CONSTRAINT "FileVersion_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ShareLinkMode" AS ENUM ('VIEW', 'DOWNLOAD');
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "isPublic" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ShareLink" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "mode" "ShareLinkMode" NOT NULL DEFAULT 'DOWNLOAD',
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "maxDownloads" INTEGER,
+    "downloadCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAccessedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShareLink_token_key" ON "ShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "ShareLink_fileId_idx" ON "ShareLink"("fileId");
+
+-- AddForeignKey
+ALTER TABLE "ShareLink" ADD CONSTRAINT "ShareLink_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "File_userId_createdAt_idx" ON "File"("userId", "createdAt");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "contentText" TEXT;
+
+-- AlterTable
+ALTER TABLE "FileVersion" ADD COLUMN     "contentText" TEXT;
+
+-- Search document: file name (weight A, separators split into words) + extracted content (weight B).
+-- Keep the text search configuration in sync with SEARCH.TEXT_SEARCH_CONFIG.
+ALTER TABLE "File" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', regexp_replace(coalesce("name", ''), '[._-]+', ' ', 'g')), 'A') ||
+    setweight(to_tsvector('english', coalesce("contentText", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "File_searchVector_idx" ON "File" USING GIN ("searchVector");
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "UserTokenType" ADD VALUE 'EMAIL_CHANGE';
+ALTER TYPE "UserTokenType" ADD VALUE 'ACCOUNT_RESTORE';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "pendingEmail" TEXT;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "planId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Plan" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "storageQuota" BIGINT NOT NULL,
+    "maxFileSize" BIGINT NOT NULL,
+    "maxVersions" INTEGER NOT NULL,
+    "allowedFileTypes" TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Plan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Plan_name_key" ON "Plan"("name");
+
+-- CreateIndex
+CREATE INDEX "User_planId_idx" ON "User"("planId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_planId_fkey" FOREIGN KEY ("planId") REFERENCES "Plan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Only one plan can be the default (partial index, not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "Plan_isDefault_key" ON "Plan"("isDefault") WHERE "isDefault";
+
+-- Default plan matching the previous hard-coded limits: 10GB, 500MB per file, 10 versions
+INSERT INTO "Plan" ("id", "name", "storageQuota", "maxFileSize", "maxVersions", "allowedFileTypes", "isDefault", "updatedAt")
+VALUES (gen_random_uuid()::text, 'Free', 10737418240, 524288000, 10, ARRAY['image', 'video', 'document', 'archive'], true, CURRENT_TIMESTAMP);
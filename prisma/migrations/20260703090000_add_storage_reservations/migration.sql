@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "StorageReservation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "uploaderId" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "bytes" BIGINT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StorageReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StorageReservation_userId_idx" ON "StorageReservation"("userId");
+
+-- CreateIndex
+CREATE INDEX "StorageReservation_expiresAt_idx" ON "StorageReservation"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StorageReservation_uploaderId_uploadId_key" ON "StorageReservation"("uploaderId", "uploadId");
+
+-- AddForeignKey
+ALTER TABLE "StorageReservation" ADD CONSTRAINT "StorageReservation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
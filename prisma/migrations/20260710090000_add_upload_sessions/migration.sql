@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "UploadSessionStatus" AS ENUM ('ACTIVE', 'COMPLETING', 'COMPLETED', 'CANCELLED', 'EXPIRED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "UploadSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "folderId" TEXT,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "totalSize" BIGINT NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "totalChunks" INTEGER NOT NULL,
+    "receivedChunks" BYTEA NOT NULL,
+    "status" "UploadSessionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "fileId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UploadSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadSession_userId_idx" ON "UploadSession"("userId");
+
+-- CreateIndex
+CREATE INDEX "UploadSession_status_expiresAt_idx" ON "UploadSession"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
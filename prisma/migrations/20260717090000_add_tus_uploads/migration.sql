@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "TusUpload" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "folderId" TEXT,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "length" BIGINT NOT NULL,
+    "offset" BIGINT NOT NULL DEFAULT 0,
+    "metadata" TEXT,
+    "status" "UploadSessionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "fileId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TusUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TusUpload_userId_idx" ON "TusUpload"("userId");
+
+-- CreateIndex
+CREATE INDEX "TusUpload_status_expiresAt_idx" ON "TusUpload"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "TusUpload" ADD CONSTRAINT "TusUpload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "UploadSession" ADD COLUMN     "multipartId" TEXT,
+ADD COLUMN     "storageKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "UploadSessionPart" (
+    "sessionId" TEXT NOT NULL,
+    "partNumber" INTEGER NOT NULL,
+    "etag" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadSessionPart_pkey" PRIMARY KEY ("sessionId","partNumber")
+);
+
+-- AddForeignKey
+ALTER TABLE "UploadSessionPart" ADD CONSTRAINT "UploadSessionPart_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "UploadSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
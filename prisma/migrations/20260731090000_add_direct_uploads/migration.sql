@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "DirectUpload" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "folderId" TEXT,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "multipartId" TEXT,
+    "partSize" INTEGER,
+    "totalParts" INTEGER,
+    "status" "UploadSessionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "fileId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DirectUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DirectUpload_userId_idx" ON "DirectUpload"("userId");
+
+-- CreateIndex
+CREATE INDEX "DirectUpload_status_expiresAt_idx" ON "DirectUpload"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "DirectUpload" ADD CONSTRAINT "DirectUpload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
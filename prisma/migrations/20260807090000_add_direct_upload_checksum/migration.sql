@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DirectUpload" ADD COLUMN     "sha256" TEXT;
@@ -36,6 +36,8 @@ async function exportSwagger() {
       .addTag('Authentication', 'User authentication endpoints')
       .addTag('Users', 'User management endpoints')
       .addTag('Files', 'File upload and management')
+    .addTag('Folders', 'Folder hierarchy management')
+    .addTag('Share Links', 'Public file sharing via links')
       .addTag('Health', 'Health check and monitoring')
       .build();
 
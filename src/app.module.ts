@@ -1,12 +1,19 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from './prisma/prisma.module';
 import { LoggerModule } from './common/logger/logger.module';
 import { StorageModule } from './common/storage/storage.module';
+import { MailerModule } from './common/mailer/mailer.module';
+import { CounterStoreModule } from './common/counter-store/counter-store.module';
 import { HealthModule } from './modules/health/health.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { UserModule } from './modules/user/user.module';
 import { FilesModule } from './modules/files/files.module';
+import { FoldersModule } from './modules/folders/folders.module';
+import { ShareLinksModule } from './modules/share-links/share-links.module';
+import { PermissionsModule } from './modules/permissions/permissions.module';
+import { AdminModule } from './modules/admin/admin.module';
 import { configuration } from './modules/shared/configs/configuration';
 
 @Module({
@@ -16,13 +23,20 @@ import { configuration } from './modules/shared/configs/configuration';
       envFilePath: '.env',
       load: [configuration],
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
     LoggerModule,
     StorageModule,
+    MailerModule,
+    CounterStoreModule,
     HealthModule,
     AuthModule,
     UserModule,
     FilesModule,
+    FoldersModule,
+    ShareLinksModule,
+    PermissionsModule,
+    AdminModule,
   ],
 })
 export class AppModule {}
@@ -14,10 +14,55 @@ export const HTTP_STATUS = {
 // JWT Constants
 export const JWT_CONSTANTS = {
   ALGORITHM: 'HS256',
-  DEFAULT_EXPIRES_IN: '7d',
+  // Access tokens are short-lived; sessions are kept alive with refresh tokens
+  DEFAULT_EXPIRES_IN: '15m',
   TOKEN_TYPE: 'Bearer',
 } as const;
 
+// User Profile Select Fields (reusable)
+export const USER_PROFILE_SELECT_FIELDS = {
+  id: true,
+  email: true,
+  name: true,
+  emailVerifiedAt: true,
+  pendingEmail: true,
+  role: true,
+  createdAt: true,
+} as const;
+
+// Admin User Select Fields (reusable)
+export const ADMIN_USER_SELECT_FIELDS = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  emailVerifiedAt: true,
+  suspendedAt: true,
+  suspendedReason: true,
+  storageQuota: true,
+  planId: true,
+  createdAt: true,
+  deletedAt: true,
+} as const;
+
+// Session Select Fields (reusable)
+export const SESSION_SELECT_FIELDS = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+} as const;
+
+// Session Constants
+export const SESSION = {
+  REFRESH_TOKEN_BYTES: 32,
+  DEFAULT_REFRESH_TOKEN_TTL_DAYS: 30,
+  // Expired and revoked sessions are kept this long before cleanup
+  RETENTION_DAYS: 7,
+} as const;
+
 // File Upload Constants
 export const FILE_UPLOAD = {
   MAX_FILE_SIZE: 100 * 1024 * 1024, // 100MB for images and documents
@@ -70,12 +115,344 @@ export const FILE_SELECT_FIELDS = {
   size: true,
   mimeType: true,
   path: true,
+  contentHash: true,
   thumbnailPath: true,
   duration: true,
   userId: true,
+  folderId: true,
+  isPublic: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// File Version Select Fields (reusable)
+export const FILE_VERSION_SELECT_FIELDS = {
+  id: true,
+  fileId: true,
+  size: true,
+  mimeType: true,
+  path: true,
+  contentHash: true,
+  thumbnailPath: true,
+  duration: true,
+  uploadedById: true,
+  createdAt: true,
+  archivedAt: true,
+} as const;
+
+// File Listing Constants
+export const FILE_LISTING = {
+  SORT_FIELDS: ['name', 'size', 'createdAt', 'mimeType'],
+  DEFAULT_SORT_BY: 'createdAt',
+  DEFAULT_ORDER: 'desc',
+  // Pseudo folder ID selecting files at the root
+  ROOT_FOLDER: 'root',
+} as const;
+
+// File Download Constants (view/download responses)
+export const FILE_DOWNLOAD = {
+  // Requests asking for more ranges than this (after merging overlaps) get the whole file
+  MAX_RANGES: 20,
+} as const;
+
+// Local Storage Constants (signed URLs)
+export const LOCAL_STORAGE = {
+  // Route serving local files to the holders of a signed URL
+  URL_PREFIX: 'uploads',
+  // Default lifetime of a signed URL, in seconds
+  URL_EXPIRES_IN: 60 * 60,
+  // Purpose the signing key is derived from JWT_SECRET for, without a dedicated secret
+  SIGNING_KEY_PURPOSE: 'local-url-signing',
+} as const;
+
+// Search Constants
+export const SEARCH = {
+  // Text search configuration used by the File."searchVector" generated column
+  TEXT_SEARCH_CONFIG: 'english',
+  MIN_QUERY_LENGTH: 2,
+  DEFAULT_LIMIT: 20,
+  MAX_LIMIT: 50,
+  // Characters of extracted content kept for indexing (tsvector is capped at 1MB)
+  MAX_CONTENT_LENGTH: 200_000,
+  MAX_PDF_PAGES: 200,
+  // Subset of FILE_UPLOAD.DOCUMENT_MIME_TYPES whose text can be extracted
+  EXTRACTABLE_MIME_TYPES: [
+    'text/plain',
+    'text/csv',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ],
+} as const;
+
+// File Version Constants
+export const FILE_VERSION = {
+  DEFAULT_MAX_VERSIONS: 10,
+  DEFAULT_MAX_AGE_DAYS: 90,
+} as const;
+
+// Storage Reservation Constants (chunked uploads)
+export const UPLOAD_RESERVATION = {
+  // An upload without a new chunk for this long loses its reservation and temp chunks
+  DEFAULT_TTL_HOURS: 24,
+} as const;
+
+// Upload Session Constants (chunked uploads)
+export const UPLOAD_SESSION = {
+  DEFAULT_CHUNK_SIZE: 5 * 1024 * 1024, // 5MB
+  MIN_CHUNK_SIZE: 1024 * 1024, // 1MB
+  MAX_CHUNK_SIZE: 50 * 1024 * 1024, // 50MB, also the per-request upload limit
+  DEFAULT_TEMP_DIRECTORY: './uploads/temp',
+  // Subdirectory of the temp directory that multer streams incoming chunks to
+  INCOMING_DIRECTORY: 'incoming',
+  // S3 multipart limits: every part but the last must be at least 5MB, at most 10000 parts
+  S3_MIN_PART_SIZE: 5 * 1024 * 1024,
+  S3_MAX_PARTS: 10000,
+  // Finished, cancelled and expired sessions are kept this long for status lookups
+  RETENTION_DAYS: 7,
+  CLEANUP_BATCH_SIZE: 100,
+} as const;
+
+// Upload Session Select Fields (reusable)
+export const UPLOAD_SESSION_SELECT_FIELDS = {
+  id: true,
+  folderId: true,
+  fileName: true,
+  mimeType: true,
+  totalSize: true,
+  chunkSize: true,
+  totalChunks: true,
+  receivedChunks: true,
+  storageKey: true,
+  multipartId: true,
+  status: true,
+  fileId: true,
+  expiresAt: true,
+  createdAt: true,
+} as const;
+
+// tus Resumable Upload Protocol Constants (https://tus.io/protocols/resumable-upload)
+export const TUS = {
+  VERSION: '1.0.0',
+  EXTENSIONS: ['creation', 'termination', 'checksum', 'expiration'],
+  CHECKSUM_ALGORITHMS: ['sha1', 'sha256', 'md5'],
+  CONTENT_TYPE: 'application/offset+octet-stream',
+  // Upload-Metadata keys, the second ones are used by Uppy
+  METADATA_FILE_NAME_KEYS: ['filename', 'name'],
+  METADATA_FILE_TYPE_KEYS: ['filetype', 'type'],
+  METADATA_FOLDER_KEY: 'folderId',
+} as const;
+
+// tus Upload Select Fields (reusable)
+export const TUS_UPLOAD_SELECT_FIELDS = {
+  id: true,
+  folderId: true,
+  fileName: true,
+  mimeType: true,
+  length: true,
+  offset: true,
+  metadata: true,
+  status: true,
+  fileId: true,
+  expiresAt: true,
+} as const;
+
+// Direct-to-S3 Upload Constants
+export const DIRECT_UPLOAD = {
+  // Larger files are sent as the parts of a multipart upload
+  MULTIPART_THRESHOLD: 100 * 1024 * 1024, // 100MB
+  DEFAULT_PART_SIZE: 10 * 1024 * 1024, // 10MB
+  // Lifetime of the presigned part URLs, in seconds
+  URL_EXPIRES_IN: 60 * 60,
+  // Lifetime of the presigned URL of a single PUT, in seconds
+  SINGLE_URL_EXPIRES_IN: 15 * 60,
+  // Single PUTs land under this prefix and are copied to the file's key on confirm
+  STAGING_PREFIX: 'direct-uploads',
+} as const;
+
+// Direct Upload Select Fields (reusable)
+export const DIRECT_UPLOAD_SELECT_FIELDS = {
+  id: true,
+  folderId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  storageKey: true,
+  multipartId: true,
+  partSize: true,
+  totalParts: true,
+  sha256: true,
+  status: true,
+  fileId: true,
+  expiresAt: true,
+} as const;
+
+// Storage Plan Constants
+export const PLAN = {
+  // File type groups a plan can allow (see getFileTypeCategory)
+  FILE_TYPES: ['image', 'video', 'document', 'archive'],
+  // Limits used when no plan is marked as default
+  FALLBACK_NAME: 'Default',
+  // File sizes are stored as 32-bit integers (File.size), so no plan may allow more
+  MAX_FILE_SIZE_LIMIT: 2_147_483_647,
+} as const;
+
+// Plan Select Fields (reusable)
+export const PLAN_SELECT_FIELDS = {
+  id: true,
+  name: true,
+  storageQuota: true,
+  maxFileSize: true,
+  maxVersions: true,
+  allowedFileTypes: true,
+  isDefault: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Fields needed to purge a trashed file
+export const TRASH_PURGE_SELECT_FIELDS = {
+  id: true,
+  name: true,
+  size: true,
+  path: true,
+  contentHash: true,
+  thumbnailPath: true,
+  userId: true,
+  folderId: true,
+} as const;
+
+// Trash Constants
+export const TRASH = {
+  DEFAULT_RETENTION_DAYS: 30,
+  PURGE_BATCH_SIZE: 100,
+} as const;
+
+// Folder Select Fields (reusable)
+export const FOLDER_SELECT_FIELDS = {
+  id: true,
+  name: true,
+  parentId: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Folder Constants
+export const FOLDER = {
+  MAX_NAME_LENGTH: 255,
+  // Characters that would break path-like display on clients
+  INVALID_NAME_PATTERN: /[\\/:*?"<>|]/,
+} as const;
+
+// Two-Factor Authentication Constants
+export const TWO_FACTOR = {
+  ISSUER: 'Dropbox App',
+  SECRET_BYTES: 20,
+  DIGITS: 6,
+  PERIOD_SECONDS: 30,
+  // Accepted clock drift, in time steps either way
+  WINDOW: 1,
+  RECOVERY_CODE_COUNT: 10,
+  RECOVERY_CODE_LENGTH: 10,
+  // Lifetime of the token bridging password check and code entry
+  CHALLENGE_EXPIRES_IN: '5m',
+  CHALLENGE_PURPOSE: '2fa_challenge',
+  // Purpose the encryption key is derived from JWT_SECRET for, without a dedicated key
+  ENCRYPTION_KEY_PURPOSE: 'two-factor-encryption',
+} as const;
+
+// Scopes a personal access token can be granted
+export const TOKEN_SCOPES = {
+  FILES_READ: 'files:read',
+  FILES_WRITE: 'files:write',
+  FILES_DELETE: 'files:delete',
+} as const;
+
+// Personal Access Token Select Fields (reusable)
+export const PERSONAL_ACCESS_TOKEN_SELECT_FIELDS = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+// Personal Access Token Constants
+export const PERSONAL_ACCESS_TOKEN = {
+  // Makes tokens recognisable, e.g. by secret scanners
+  PREFIX: 'dbx_pat_',
+  TOKEN_BYTES: 32,
+  // Characters kept (after the prefix) for display
+  DISPLAY_PREFIX_LENGTH: 6,
+  // lastUsedAt is written at most this often per token
+  LAST_USED_UPDATE_INTERVAL_MS: 60 * 1000,
+} as const;
+
+// Emailed single-use token Constants
+export const USER_TOKEN = {
+  TOKEN_BYTES: 32,
+  DEFAULT_EMAIL_VERIFICATION_TTL_HOURS: 24,
+  DEFAULT_PASSWORD_RESET_TTL_MINUTES: 60,
+} as const;
+
+// Account deletion Constants
+export const ACCOUNT = {
+  // Days a deleted account can still be restored before it is purged
+  DEFAULT_DELETION_GRACE_DAYS: 30,
+  PURGE_BATCH_SIZE: 20,
+} as const;
+
+// Login brute-force protection Constants
+export const LOGIN_THROTTLE = {
+  KEY_PREFIX: 'login',
+  DEFAULT_MAX_FAILED_ATTEMPTS: 5,
+  DEFAULT_LOCKOUT_MINUTES: 15,
+  // Failures further apart than this do not add up towards a lockout
+  FAILURE_WINDOW_MINUTES: 15,
+  // Failures allowed before each further attempt has to wait
+  BACKOFF_FREE_ATTEMPTS: 2,
+  BACKOFF_BASE_MS: 1000,
+  BACKOFF_MAX_MS: 60 * 1000,
+} as const;
+
+// Share Link Select Fields (reusable)
+export const SHARE_LINK_SELECT_FIELDS = {
+  id: true,
+  token: true,
+  fileId: true,
+  mode: true,
+  passwordHash: true,
+  expiresAt: true,
+  maxDownloads: true,
+  downloadCount: true,
+  lastAccessedAt: true,
+  revokedAt: true,
   createdAt: true,
 } as const;
 
+// Share Link Constants
+export const SHARE_LINK = {
+  TOKEN_BYTES: 24,
+  PASSWORD_HEADER: 'x-share-password',
+  // Cookie letting the client resume a download already counted on a limited link
+  RESUME_COOKIE: 'share_resume',
+  // How long a counted download can be resumed without counting again, in seconds
+  RESUME_EXPIRES_IN: 6 * 60 * 60,
+  // Purpose the resume cookie signing key is derived from JWT_SECRET for
+  RESUME_KEY_PURPOSE: 'share-link-resume',
+} as const;
+
+// Collaborator Select Fields (reusable)
+export const COLLABORATOR_SELECT_FIELDS = {
+  role: true,
+  grantedById: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: { id: true, email: true, name: true } },
+} as const;
+
 // Validation Messages
 export const VALIDATION_MESSAGES = {
   EMAIL_REQUIRED: 'Email is required',
@@ -96,10 +473,40 @@ export const ERROR_MESSAGES = {
   UNAUTHORIZED: 'Unauthorized',
   TOKEN_EXPIRED: 'Token has expired',
   TOKEN_INVALID: 'Invalid token',
+  REFRESH_TOKEN_INVALID: 'Invalid or expired refresh token',
+  REFRESH_TOKEN_REUSED: 'Refresh token has already been used; the session has been revoked',
+  SESSION_NOT_FOUND: 'Session not found',
+  SESSION_REVOKED: 'Session has been revoked',
+  VERIFICATION_TOKEN_INVALID: 'Invalid or expired verification token',
+  PASSWORD_RESET_TOKEN_INVALID: 'Invalid or expired password reset token',
+  EMAIL_NOT_VERIFIED: 'Please verify your email address before uploading files',
+  EMAIL_ALREADY_VERIFIED: 'Email address is already verified',
+  PASSWORD_INCORRECT: 'Password is incorrect',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+  TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not enabled',
+  TWO_FACTOR_SETUP_REQUIRED: 'Start two-factor setup before confirming it',
+  TWO_FACTOR_CODE_INVALID: 'Invalid authentication code',
+  TWO_FACTOR_CHALLENGE_INVALID: 'Invalid or expired two-factor challenge',
+  INSUFFICIENT_SCOPE: 'The access token does not have the required scopes',
+  TOKEN_NOT_ALLOWED: 'Personal access tokens cannot be used for this endpoint',
+  PERSONAL_ACCESS_TOKEN_NOT_FOUND: 'Personal access token not found',
+  PERSONAL_ACCESS_TOKEN_INVALID_EXPIRY: 'Token expiry must be in the future',
+  TOO_MANY_LOGIN_ATTEMPTS: 'Too many login attempts, please try again later',
+  ACCOUNT_LOCKED: 'Account temporarily locked after too many failed login attempts',
+  UNLOCK_TOKEN_INVALID: 'Invalid or expired unlock token',
+  EMAIL_CHANGE_TOKEN_INVALID: 'Invalid or expired email change token',
+  ACCOUNT_RESTORE_TOKEN_INVALID: 'Invalid or expired account restore token',
+  ACCOUNT_SUSPENDED: 'This account has been suspended',
+  INSUFFICIENT_ROLE: 'You do not have permission to access this resource',
+  CANNOT_SUSPEND_SELF: 'Administrators cannot suspend their own account',
 
   // User
   USER_NOT_FOUND: 'User not found',
 
+  // Plans
+  PLAN_NOT_FOUND: 'Plan not found',
+  PLAN_NAME_CONFLICT: 'A plan with this name already exists',
+
   // Files
   FILE_NOT_FOUND: 'File not found',
   FILE_UPLOAD_FAILED: 'File upload failed',
@@ -107,6 +514,49 @@ export const ERROR_MESSAGES = {
   FILE_NOT_OWNER: 'You can only delete your own files',
   FILE_TOO_LARGE: 'File size exceeds maximum allowed size',
   FILE_TYPE_NOT_ALLOWED: 'File type is not allowed',
+  STORAGE_QUOTA_EXCEEDED: 'Storage quota exceeded',
+  UPLOAD_SESSION_NOT_FOUND: 'Upload session not found',
+  UPLOAD_SESSION_NOT_ACTIVE: 'Upload session is no longer accepting changes',
+  UPLOAD_CHUNK_INVALID: 'Invalid upload chunk',
+  UPLOAD_INCOMPLETE: 'Not all chunks have been uploaded',
+  UPLOAD_CHECKSUM_MISMATCH: 'Checksum of the uploaded data does not match',
+  TUS_VERSION_UNSUPPORTED: 'Unsupported tus protocol version',
+  TUS_REQUEST_INVALID: 'Invalid tus request',
+  TUS_CONTENT_TYPE_UNSUPPORTED: 'PATCH requests must use Content-Type application/offset+octet-stream',
+  TUS_UPLOAD_NOT_FOUND: 'Upload not found',
+  TUS_UPLOAD_GONE: 'Upload is no longer available',
+  TUS_OFFSET_MISMATCH: 'Upload-Offset does not match the current offset of the upload',
+  TUS_CHECKSUM_MISMATCH: 'Checksum of the received data does not match Upload-Checksum',
+  DIRECT_UPLOAD_UNAVAILABLE: 'Direct uploads require S3 storage',
+  DIRECT_UPLOAD_INCOMPLETE: 'The file has not been fully uploaded to storage',
+  DIRECT_UPLOAD_INVALID: 'Uploaded object does not match the upload',
+  RANGE_NOT_SATISFIABLE: 'None of the requested ranges overlap the file',
+  SIGNED_URL_INVALID: 'The link is invalid or has expired',
+
+  FILE_VERSION_NOT_FOUND: 'File version not found',
+  FILE_ACCESS_DENIED: 'You do not have permission to perform this action on this file',
+
+  // Folders
+  FOLDER_NOT_FOUND: 'Folder not found',
+  FOLDER_NAME_CONFLICT: 'A folder with this name already exists here',
+  FOLDER_INVALID_MOVE: 'Folder cannot be moved into itself or one of its subfolders',
+  FOLDER_ACCESS_DENIED: 'You do not have permission to perform this action on this folder',
+
+  // Collaborators
+  COLLABORATOR_NOT_FOUND: 'Collaborator not found',
+  COLLABORATOR_ALREADY_EXISTS: 'This user already has access',
+  COLLABORATOR_INVALID: 'The owner cannot be added as a collaborator',
+
+  // Share links
+  SHARE_LINK_NOT_FOUND: 'Share link not found',
+  SHARE_LINK_EXPIRED: 'Share link has expired',
+  SHARE_LINK_PASSWORD_REQUIRED: 'This share link is password protected',
+  SHARE_LINK_PASSWORD_INVALID: 'Invalid share link password',
+  SHARE_LINK_DOWNLOAD_LIMIT_REACHED: 'Share link download limit reached',
+  SHARE_LINK_VIEW_ONLY: 'This share link does not allow downloads',
+
+  // Pagination
+  INVALID_CURSOR: 'Invalid or expired pagination cursor',
 
   // General
   INTERNAL_SERVER_ERROR: 'Internal server error',
@@ -121,9 +571,38 @@ export const ERROR_CODES = {
   AUTH_INVALID_CREDENTIALS: 'AUTH_INVALID_CREDENTIALS',
   AUTH_TOKEN_EXPIRED: 'AUTH_TOKEN_EXPIRED',
   AUTH_TOKEN_INVALID: 'AUTH_TOKEN_INVALID',
+  AUTH_REFRESH_TOKEN_INVALID: 'AUTH_REFRESH_TOKEN_INVALID',
+  AUTH_REFRESH_TOKEN_REUSED: 'AUTH_REFRESH_TOKEN_REUSED',
+  AUTH_SESSION_NOT_FOUND: 'AUTH_SESSION_NOT_FOUND',
+  AUTH_VERIFICATION_TOKEN_INVALID: 'AUTH_VERIFICATION_TOKEN_INVALID',
+  AUTH_PASSWORD_RESET_TOKEN_INVALID: 'AUTH_PASSWORD_RESET_TOKEN_INVALID',
+  AUTH_EMAIL_NOT_VERIFIED: 'AUTH_EMAIL_NOT_VERIFIED',
+  AUTH_EMAIL_ALREADY_VERIFIED: 'AUTH_EMAIL_ALREADY_VERIFIED',
+  AUTH_PASSWORD_INCORRECT: 'AUTH_PASSWORD_INCORRECT',
+  AUTH_2FA_ALREADY_ENABLED: 'AUTH_2FA_ALREADY_ENABLED',
+  AUTH_2FA_NOT_ENABLED: 'AUTH_2FA_NOT_ENABLED',
+  AUTH_2FA_SETUP_REQUIRED: 'AUTH_2FA_SETUP_REQUIRED',
+  AUTH_2FA_CODE_INVALID: 'AUTH_2FA_CODE_INVALID',
+  AUTH_2FA_CHALLENGE_INVALID: 'AUTH_2FA_CHALLENGE_INVALID',
+  AUTH_INSUFFICIENT_SCOPE: 'AUTH_INSUFFICIENT_SCOPE',
+  AUTH_TOKEN_NOT_ALLOWED: 'AUTH_TOKEN_NOT_ALLOWED',
+  PAT_NOT_FOUND: 'PAT_NOT_FOUND',
+  PAT_INVALID_EXPIRY: 'PAT_INVALID_EXPIRY',
+  AUTH_TOO_MANY_ATTEMPTS: 'AUTH_TOO_MANY_ATTEMPTS',
+  AUTH_ACCOUNT_LOCKED: 'AUTH_ACCOUNT_LOCKED',
+  AUTH_UNLOCK_TOKEN_INVALID: 'AUTH_UNLOCK_TOKEN_INVALID',
+  AUTH_EMAIL_CHANGE_TOKEN_INVALID: 'AUTH_EMAIL_CHANGE_TOKEN_INVALID',
+  AUTH_ACCOUNT_RESTORE_TOKEN_INVALID: 'AUTH_ACCOUNT_RESTORE_TOKEN_INVALID',
+  AUTH_ACCOUNT_SUSPENDED: 'AUTH_ACCOUNT_SUSPENDED',
+  AUTH_INSUFFICIENT_ROLE: 'AUTH_INSUFFICIENT_ROLE',
+  ADMIN_CANNOT_SUSPEND_SELF: 'ADMIN_CANNOT_SUSPEND_SELF',
   
   // User errors (USER_xxx)
   USER_NOT_FOUND: 'USER_NOT_FOUND',
+
+  // Plan errors (PLAN_xxx)
+  PLAN_NOT_FOUND: 'PLAN_NOT_FOUND',
+  PLAN_NAME_CONFLICT: 'PLAN_NAME_CONFLICT',
   
   // File errors (FILE_xxx)
   FILE_NOT_FOUND: 'FILE_NOT_FOUND',
@@ -132,9 +611,49 @@ export const ERROR_CODES = {
   FILE_NOT_OWNER: 'FILE_NOT_OWNER',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
   FILE_TYPE_NOT_ALLOWED: 'FILE_TYPE_NOT_ALLOWED',
+  STORAGE_QUOTA_EXCEEDED: 'STORAGE_QUOTA_EXCEEDED',
+  UPLOAD_SESSION_NOT_FOUND: 'UPLOAD_SESSION_NOT_FOUND',
+  UPLOAD_SESSION_NOT_ACTIVE: 'UPLOAD_SESSION_NOT_ACTIVE',
+  UPLOAD_CHUNK_INVALID: 'UPLOAD_CHUNK_INVALID',
+  UPLOAD_INCOMPLETE: 'UPLOAD_INCOMPLETE',
+  UPLOAD_CHECKSUM_MISMATCH: 'UPLOAD_CHECKSUM_MISMATCH',
+  TUS_VERSION_UNSUPPORTED: 'TUS_VERSION_UNSUPPORTED',
+  TUS_REQUEST_INVALID: 'TUS_REQUEST_INVALID',
+  TUS_CONTENT_TYPE_UNSUPPORTED: 'TUS_CONTENT_TYPE_UNSUPPORTED',
+  TUS_UPLOAD_NOT_FOUND: 'TUS_UPLOAD_NOT_FOUND',
+  TUS_UPLOAD_GONE: 'TUS_UPLOAD_GONE',
+  TUS_OFFSET_MISMATCH: 'TUS_OFFSET_MISMATCH',
+  TUS_CHECKSUM_MISMATCH: 'TUS_CHECKSUM_MISMATCH',
+  DIRECT_UPLOAD_UNAVAILABLE: 'DIRECT_UPLOAD_UNAVAILABLE',
+  DIRECT_UPLOAD_INCOMPLETE: 'DIRECT_UPLOAD_INCOMPLETE',
+  DIRECT_UPLOAD_INVALID: 'DIRECT_UPLOAD_INVALID',
+  RANGE_NOT_SATISFIABLE: 'RANGE_NOT_SATISFIABLE',
+  SIGNED_URL_INVALID: 'SIGNED_URL_INVALID',
+  FILE_VERSION_NOT_FOUND: 'FILE_VERSION_NOT_FOUND',
+  FILE_ACCESS_DENIED: 'FILE_ACCESS_DENIED',
+
+  // Folder errors (FOLDER_xxx)
+  FOLDER_NOT_FOUND: 'FOLDER_NOT_FOUND',
+  FOLDER_NAME_CONFLICT: 'FOLDER_NAME_CONFLICT',
+  FOLDER_INVALID_MOVE: 'FOLDER_INVALID_MOVE',
+  FOLDER_ACCESS_DENIED: 'FOLDER_ACCESS_DENIED',
+
+  // Collaborator errors (COLLABORATOR_xxx)
+  COLLABORATOR_NOT_FOUND: 'COLLABORATOR_NOT_FOUND',
+  COLLABORATOR_ALREADY_EXISTS: 'COLLABORATOR_ALREADY_EXISTS',
+  COLLABORATOR_INVALID: 'COLLABORATOR_INVALID',
+
+  // Share link errors (SHARE_xxx)
+  SHARE_LINK_NOT_FOUND: 'SHARE_LINK_NOT_FOUND',
+  SHARE_LINK_EXPIRED: 'SHARE_LINK_EXPIRED',
+  SHARE_LINK_PASSWORD_REQUIRED: 'SHARE_LINK_PASSWORD_REQUIRED',
+  SHARE_LINK_PASSWORD_INVALID: 'SHARE_LINK_PASSWORD_INVALID',
+  SHARE_LINK_DOWNLOAD_LIMIT_REACHED: 'SHARE_LINK_DOWNLOAD_LIMIT_REACHED',
+  SHARE_LINK_VIEW_ONLY: 'SHARE_LINK_VIEW_ONLY',
   
   // Validation errors (VALID_xxx)
   VALIDATION_FAILED: 'VALIDATION_FAILED',
+  INVALID_CURSOR: 'INVALID_CURSOR',
   
   // General errors
   INTERNAL_ERROR: 'INTERNAL_ERROR',
@@ -144,8 +663,49 @@ export const ERROR_CODES = {
 export const SUCCESS_MESSAGES = {
   USER_REGISTERED: 'User registered successfully',
   USER_LOGGED_IN: 'User logged in successfully',
+  USER_LOGGED_OUT: 'User logged out successfully',
+  TOKEN_REFRESHED: 'Token refreshed successfully',
+  SESSION_REVOKED: 'Session revoked successfully',
+  EMAIL_VERIFIED: 'Email verified successfully',
+  VERIFICATION_EMAIL_SENT: 'Verification email sent',
+  PASSWORD_RESET_REQUESTED: 'If an account exists for this email, a password reset link has been sent',
+  PASSWORD_RESET: 'Password reset successfully',
+  TWO_FACTOR_ENABLED: 'Two-factor authentication enabled',
+  TWO_FACTOR_DISABLED: 'Two-factor authentication disabled',
+  RECOVERY_CODES_REGENERATED: 'Recovery codes regenerated',
+  PERSONAL_ACCESS_TOKEN_CREATED: 'Personal access token created',
+  PERSONAL_ACCESS_TOKEN_REVOKED: 'Personal access token revoked',
+  ACCOUNT_UNLOCKED: 'Account unlocked successfully',
+  PROFILE_UPDATED: 'Profile updated successfully',
+  EMAIL_CHANGE_REQUESTED: 'Confirmation email sent to the new address',
+  EMAIL_CHANGED: 'Email address changed successfully',
+  PASSWORD_CHANGED: 'Password changed successfully',
+  ACCOUNT_DELETED: 'Account scheduled for deletion',
+  ACCOUNT_RESTORED: 'Account restored successfully',
+  USER_SUSPENDED: 'User suspended',
+  USER_UNSUSPENDED: 'User unsuspended',
+  USER_QUOTA_UPDATED: 'Storage quota updated',
+  USER_PLAN_UPDATED: 'Storage plan assigned',
+  PLAN_CREATED: 'Plan created',
+  PLAN_UPDATED: 'Plan updated',
+  FILE_FORCE_DELETED: 'File permanently deleted by an administrator',
   FILE_UPLOADED: 'File uploaded successfully',
+  UPLOAD_SESSION_CREATED: 'Upload session created',
+  UPLOAD_CHUNK_RECEIVED: 'Chunk uploaded successfully',
+  UPLOAD_SESSION_CANCELLED: 'Upload cancelled successfully',
+  DIRECT_UPLOAD_CREATED: 'Upload URLs created',
   FILE_DELETED: 'File deleted successfully',
+  FILE_TRASHED: 'File moved to trash',
+  FILE_RESTORED: 'File restored from trash',
+  FILE_PERMANENTLY_DELETED: 'File permanently deleted',
+  FILE_VERSION_CREATED: 'Previous file content archived as a version',
+  FILE_VERSION_RESTORED: 'File version restored',
+  FOLDER_CREATED: 'Folder created successfully',
+  FOLDER_DELETED: 'Folder deleted successfully',
+  SHARE_LINK_CREATED: 'Share link created successfully',
+  SHARE_LINK_REVOKED: 'Share link revoked successfully',
+  COLLABORATOR_ADDED: 'Collaborator added successfully',
+  COLLABORATOR_REMOVED: 'Collaborator removed successfully',
 } as const;
 
 // Pagination
@@ -0,0 +1,13 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CounterStoreService } from './counter-store.service';
+import { RedisCounterStore } from './redis.counter-store';
+import { MemoryCounterStore } from './memory.counter-store';
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [CounterStoreService, RedisCounterStore, MemoryCounterStore],
+  exports: [CounterStoreService],
+})
+export class CounterStoreModule {}
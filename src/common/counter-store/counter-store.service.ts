@@ -0,0 +1,59 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ICounterStore } from '../interfaces/counter-store.interface';
+import { RedisCounterStore } from './redis.counter-store';
+import { MemoryCounterStore } from './memory.counter-store';
+
+/**
+ * Expiring counters backed by Redis when it is configured, otherwise kept in memory.
+ * A failing Redis command is retried against the in-memory store so an outage
+ * degrades protection to a single instance instead of failing requests.
+ */
+@Injectable()
+export class CounterStoreService {
+  private readonly logger = new Logger(CounterStoreService.name);
+  private readonly store: ICounterStore;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisStore: RedisCounterStore,
+    private readonly memoryStore: MemoryCounterStore,
+  ) {
+    this.store = this.configService.get<string>('redisConfig.host') ? this.redisStore : this.memoryStore;
+
+    this.logger.log(`Counter store initialized with: ${this.store.getStoreType().toUpperCase()}`);
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    return this.withFallback((store) => store.increment(key, ttlMs));
+  }
+
+  async get(key: string): Promise<number> {
+    return this.withFallback((store) => store.get(key));
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    return this.withFallback((store) => store.set(key, value, ttlMs));
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.withFallback((store) => store.ttl(key));
+  }
+
+  async delete(...keys: string[]): Promise<void> {
+    return this.withFallback((store) => store.delete(...keys));
+  }
+
+  private async withFallback<T>(operation: (store: ICounterStore) => Promise<T>): Promise<T> {
+    if (this.store === this.memoryStore) {
+      return operation(this.memoryStore);
+    }
+
+    try {
+      return await operation(this.store);
+    } catch (error) {
+      this.logger.warn(`Redis unavailable, using in-memory counters: ${error.message}`);
+      return operation(this.memoryStore);
+    }
+  }
+}
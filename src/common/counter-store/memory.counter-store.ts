@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { ICounterStore } from '../interfaces/counter-store.interface';
+
+interface MemoryEntry {
+  value: number;
+  expiresAt: number;
+}
+
+// Expired entries are swept after this many writes
+const SWEEP_INTERVAL_WRITES = 1000;
+
+/**
+ * Process-local store. Counters are not shared between instances and are lost on restart.
+ */
+@Injectable()
+export class MemoryCounterStore implements ICounterStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private writesSinceSweep = 0;
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const entry = this.getEntry(key);
+    if (entry) {
+      entry.value += 1;
+      return entry.value;
+    }
+
+    this.write(key, 1, ttlMs);
+    return 1;
+  }
+
+  async get(key: string): Promise<number> {
+    return this.getEntry(key)?.value ?? 0;
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    this.write(key, value, ttlMs);
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.getEntry(key);
+    return entry ? entry.expiresAt - Date.now() : 0;
+  }
+
+  async delete(...keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+
+  getStoreType(): 'memory' {
+    return 'memory';
+  }
+
+  private getEntry(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private write(key: string, value: number, ttlMs: number): void {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    if (++this.writesSinceSweep >= SWEEP_INTERVAL_WRITES) {
+      this.writesSinceSweep = 0;
+      const now = Date.now();
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(entryKey);
+        }
+      }
+    }
+  }
+}
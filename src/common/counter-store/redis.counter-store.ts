@@ -0,0 +1,77 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { ICounterStore } from '../interfaces/counter-store.interface';
+
+@Injectable()
+export class RedisCounterStore implements ICounterStore, OnModuleDestroy {
+  private readonly logger = new Logger(RedisCounterStore.name);
+  private client: Redis | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    // Create the key with its expiry first so the increment never leaves a counter without one
+    const results = await this.getClient()
+      .multi()
+      .set(key, 0, 'PX', ttlMs, 'NX')
+      .incr(key)
+      .exec();
+
+    const [error, value] = results[1];
+    if (error) {
+      throw error;
+    }
+    return Number(value);
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.getClient().get(key);
+    return value ? Number(value) : 0;
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    await this.getClient().set(key, value, 'PX', ttlMs);
+  }
+
+  async ttl(key: string): Promise<number> {
+    const ttlMs = await this.getClient().pttl(key);
+    // -2: no such key, -1: no expiry (never written by this store)
+    return Math.max(ttlMs, 0);
+  }
+
+  async delete(...keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.getClient().del(...keys);
+    }
+  }
+
+  getStoreType(): 'redis' {
+    return 'redis';
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.client?.quit().catch(() => undefined);
+  }
+
+  /**
+   * Connect on first use. Commands fail fast while Redis is unreachable instead of
+   * queueing, so callers can fall back.
+   */
+  private getClient(): Redis {
+    if (!this.client) {
+      this.client = new Redis({
+        host: this.configService.get<string>('redisConfig.host'),
+        port: this.configService.get<number>('redisConfig.port') || 6379,
+        db: this.configService.get<number>('redisConfig.db'),
+        password: this.configService.get<string>('redisConfig.password') || undefined,
+        keyPrefix: this.configService.get<string>('redisConfig.keyPrefix') || undefined,
+        tls: this.configService.get<boolean>('redisConfig.ssl') ? {} : undefined,
+        enableOfflineQueue: false,
+        maxRetriesPerRequest: 1,
+      });
+      this.client.on('error', (error) => this.logger.warn(`Redis error: ${error.message}`));
+    }
+    return this.client;
+  }
+}
@@ -1,2 +1,4 @@
 export * from './current-user.decorator';
 export * from './public.decorator';
+export * from './require-scopes.decorator';
+export * from './roles.decorator';
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { TOKEN_SCOPES } from '../constants';
+
+export type TokenScope = (typeof TOKEN_SCOPES)[keyof typeof TOKEN_SCOPES];
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/**
+ * Scopes a personal access token needs for a route (method metadata overrides class metadata).
+ * Routes without it cannot be called with a personal access token at all.
+ */
+export const RequireScopes = (...scopes: TokenScope[]) => SetMetadata(REQUIRED_SCOPES_KEY, scopes);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+
+export type Role = Lowercase<UserRole>;
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Roles allowed to call a route (method metadata overrides class metadata). Enforced by RolesGuard.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { PaginationMetaDto } from './pagination-meta.dto';
 
 export class BaseResponseDto<T> {
   @ApiProperty({ example: true, description: 'Indicates if the request was successful' })
@@ -10,10 +11,19 @@ export class BaseResponseDto<T> {
   @ApiProperty({ description: 'Response data' })
   data: T;
 
-  constructor(data: T, message: string = 'Success') {
+  @ApiProperty({
+    description: 'Pagination details (paginated listings only)',
+    type: PaginationMetaDto,
+    required: false,
+  })
+  meta?: PaginationMetaDto;
+
+  constructor(data: T, message: string = 'Success', meta?: PaginationMetaDto) {
     this.success = true;
     this.message = message;
     this.data = data;
+    if (meta) {
+      this.meta = meta;
+    }
   }
 }
-
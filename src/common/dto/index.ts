@@ -1,4 +1,5 @@
 export * from './error-response.dto';
 export * from './message-response.dto';
+export * from './pagination-meta.dto';
 export * from './base-response.dto';
 
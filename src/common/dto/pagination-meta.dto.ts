@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationMeta } from '../utils/pagination.util';
+
+export class PaginationMetaDto implements PaginationMeta {
+  @ApiProperty({ example: 20, description: 'Maximum number of items per page' })
+  limit: number;
+
+  @ApiProperty({ example: 20, description: 'Number of items in this page' })
+  count: number;
+
+  @ApiProperty({ example: 134, description: 'Number of items matching the filters' })
+  totalCount: number;
+
+  @ApiProperty({ example: true, description: 'Whether another page is available' })
+  hasNextPage: boolean;
+
+  @ApiProperty({
+    example: 'eyJzb3J0IjoiY3JlYXRlZEF0OmRlc2MiLCJ2YWx1ZSI6IjIwMjQtMDItMTZUMDA6MDA6MDAuMDAwWiIsImlkIjoiMSJ9',
+    description: 'Opaque cursor to pass as `cursor` to fetch the next page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
@@ -44,6 +44,214 @@ export class BusinessException {
     );
   }
 
+  static refreshTokenInvalid() {
+    return new AppException(
+      'AUTH_REFRESH_TOKEN_INVALID',
+      'Invalid or expired refresh token',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+
+  static refreshTokenReused(sessionId: string) {
+    return new AppException(
+      'AUTH_REFRESH_TOKEN_REUSED',
+      'Refresh token has already been used; the session has been revoked',
+      HttpStatus.UNAUTHORIZED,
+      { sessionId },
+    );
+  }
+
+  static sessionNotFound(sessionId: string) {
+    return new AppException(
+      'AUTH_SESSION_NOT_FOUND',
+      'Session not found',
+      HttpStatus.NOT_FOUND,
+      { sessionId },
+    );
+  }
+
+  static verificationTokenInvalid() {
+    return new AppException(
+      'AUTH_VERIFICATION_TOKEN_INVALID',
+      'Invalid or expired verification token',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static passwordResetTokenInvalid() {
+    return new AppException(
+      'AUTH_PASSWORD_RESET_TOKEN_INVALID',
+      'Invalid or expired password reset token',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static emailNotVerified() {
+    return new AppException(
+      'AUTH_EMAIL_NOT_VERIFIED',
+      'Please verify your email address before uploading files',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+
+  static emailAlreadyVerified() {
+    return new AppException(
+      'AUTH_EMAIL_ALREADY_VERIFIED',
+      'Email address is already verified',
+      HttpStatus.CONFLICT,
+    );
+  }
+
+  static passwordIncorrect() {
+    return new AppException(
+      'AUTH_PASSWORD_INCORRECT',
+      'Password is incorrect',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+
+  static twoFactorAlreadyEnabled() {
+    return new AppException(
+      'AUTH_2FA_ALREADY_ENABLED',
+      'Two-factor authentication is already enabled',
+      HttpStatus.CONFLICT,
+    );
+  }
+
+  static twoFactorNotEnabled() {
+    return new AppException(
+      'AUTH_2FA_NOT_ENABLED',
+      'Two-factor authentication is not enabled',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static twoFactorSetupRequired() {
+    return new AppException(
+      'AUTH_2FA_SETUP_REQUIRED',
+      'Start two-factor setup before confirming it',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static twoFactorCodeInvalid() {
+    return new AppException(
+      'AUTH_2FA_CODE_INVALID',
+      'Invalid authentication code',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+
+  static twoFactorChallengeInvalid() {
+    return new AppException(
+      'AUTH_2FA_CHALLENGE_INVALID',
+      'Invalid or expired two-factor challenge',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+
+  static insufficientScope(missingScopes: string[]) {
+    return new AppException(
+      'AUTH_INSUFFICIENT_SCOPE',
+      'The access token does not have the required scopes',
+      HttpStatus.FORBIDDEN,
+      { missingScopes },
+    );
+  }
+
+  static tokenNotAllowed() {
+    return new AppException(
+      'AUTH_TOKEN_NOT_ALLOWED',
+      'Personal access tokens cannot be used for this endpoint',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+
+  static personalAccessTokenNotFound(tokenId: string) {
+    return new AppException(
+      'PAT_NOT_FOUND',
+      'Personal access token not found',
+      HttpStatus.NOT_FOUND,
+      { tokenId },
+    );
+  }
+
+  static personalAccessTokenInvalidExpiry(expiresAt: Date) {
+    return new AppException(
+      'PAT_INVALID_EXPIRY',
+      'Token expiry must be in the future',
+      HttpStatus.BAD_REQUEST,
+      { expiresAt },
+    );
+  }
+
+  static tooManyLoginAttempts(retryAfterSeconds: number) {
+    return new AppException(
+      'AUTH_TOO_MANY_ATTEMPTS',
+      'Too many login attempts, please try again later',
+      HttpStatus.TOO_MANY_REQUESTS,
+      { retryAfterSeconds },
+    );
+  }
+
+  static accountLocked(retryAfterSeconds: number) {
+    return new AppException(
+      'AUTH_ACCOUNT_LOCKED',
+      'Account temporarily locked after too many failed login attempts',
+      HttpStatus.LOCKED,
+      { retryAfterSeconds },
+    );
+  }
+
+  static unlockTokenInvalid() {
+    return new AppException(
+      'AUTH_UNLOCK_TOKEN_INVALID',
+      'Invalid or expired unlock token',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static emailChangeTokenInvalid() {
+    return new AppException(
+      'AUTH_EMAIL_CHANGE_TOKEN_INVALID',
+      'Invalid or expired email change token',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static accountRestoreTokenInvalid() {
+    return new AppException(
+      'AUTH_ACCOUNT_RESTORE_TOKEN_INVALID',
+      'Invalid or expired account restore token',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static accountSuspended() {
+    return new AppException(
+      'AUTH_ACCOUNT_SUSPENDED',
+      'This account has been suspended',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+
+  static insufficientRole(requiredRoles: string[]) {
+    return new AppException(
+      'AUTH_INSUFFICIENT_ROLE',
+      'You do not have permission to access this resource',
+      HttpStatus.FORBIDDEN,
+      { requiredRoles },
+    );
+  }
+
+  static cannotSuspendSelf() {
+    return new AppException(
+      'ADMIN_CANNOT_SUSPEND_SELF',
+      'Administrators cannot suspend their own account',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
   static fileNotFound(fileId: string) {
     return new AppException(
       'FILE_NOT_FOUND',
@@ -53,6 +261,15 @@ export class BusinessException {
     );
   }
 
+  static fileVersionNotFound(fileId: string, versionId: string) {
+    return new AppException(
+      'FILE_VERSION_NOT_FOUND',
+      'File version not found',
+      HttpStatus.NOT_FOUND,
+      { fileId, versionId },
+    );
+  }
+
   static fileNotOwner(fileId: string, userId: string) {
     return new AppException(
       'FILE_NOT_OWNER',
@@ -97,6 +314,296 @@ export class BusinessException {
     );
   }
 
+  static storageQuotaExceeded(usedBytes: number, requestedBytes: number, quotaBytes: number) {
+    return new AppException(
+      'STORAGE_QUOTA_EXCEEDED',
+      'Storage quota exceeded',
+      HttpStatus.INSUFFICIENT_STORAGE,
+      { usedBytes, requestedBytes, quotaBytes },
+    );
+  }
+
+  static uploadSessionNotFound(sessionId: string) {
+    return new AppException(
+      'UPLOAD_SESSION_NOT_FOUND',
+      'Upload session not found',
+      HttpStatus.NOT_FOUND,
+      { sessionId },
+    );
+  }
+
+  static uploadSessionNotActive(sessionId: string, status: string) {
+    return new AppException(
+      'UPLOAD_SESSION_NOT_ACTIVE',
+      'Upload session is no longer accepting changes',
+      HttpStatus.CONFLICT,
+      { sessionId, status },
+    );
+  }
+
+  static uploadChunkInvalid(reason: string, details?: Record<string, unknown>) {
+    return new AppException(
+      'UPLOAD_CHUNK_INVALID',
+      reason,
+      HttpStatus.BAD_REQUEST,
+      details,
+    );
+  }
+
+  static uploadIncomplete(sessionId: string, missingChunks: number[]) {
+    return new AppException(
+      'UPLOAD_INCOMPLETE',
+      'Not all chunks have been uploaded',
+      HttpStatus.CONFLICT,
+      { sessionId, missingChunks },
+    );
+  }
+
+  static uploadChecksumMismatch(algorithm: string, details?: Record<string, unknown>) {
+    return new AppException(
+      'UPLOAD_CHECKSUM_MISMATCH',
+      'Checksum of the uploaded data does not match',
+      HttpStatus.BAD_REQUEST,
+      { algorithm, ...details },
+    );
+  }
+
+  static tusVersionUnsupported(version?: string) {
+    return new AppException(
+      'TUS_VERSION_UNSUPPORTED',
+      'Unsupported tus protocol version',
+      HttpStatus.PRECONDITION_FAILED,
+      { version, supportedVersions: ['1.0.0'] },
+    );
+  }
+
+  static tusRequestInvalid(reason: string) {
+    return new AppException(
+      'TUS_REQUEST_INVALID',
+      reason,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static tusContentTypeUnsupported(contentType?: string) {
+    return new AppException(
+      'TUS_CONTENT_TYPE_UNSUPPORTED',
+      'PATCH requests must use Content-Type application/offset+octet-stream',
+      HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+      { contentType },
+    );
+  }
+
+  static tusUploadNotFound(uploadId: string) {
+    return new AppException(
+      'TUS_UPLOAD_NOT_FOUND',
+      'Upload not found',
+      HttpStatus.NOT_FOUND,
+      { uploadId },
+    );
+  }
+
+  static tusUploadGone(uploadId: string, status: string) {
+    return new AppException(
+      'TUS_UPLOAD_GONE',
+      'Upload is no longer available',
+      HttpStatus.GONE,
+      { uploadId, status },
+    );
+  }
+
+  static tusOffsetMismatch(uploadId: string, expectedOffset: number, actualOffset: number) {
+    return new AppException(
+      'TUS_OFFSET_MISMATCH',
+      'Upload-Offset does not match the current offset of the upload',
+      HttpStatus.CONFLICT,
+      { uploadId, expectedOffset, actualOffset },
+    );
+  }
+
+  static tusChecksumMismatch(uploadId: string, algorithm: string) {
+    return new AppException(
+      'TUS_CHECKSUM_MISMATCH',
+      'Checksum of the received data does not match Upload-Checksum',
+      // tus checksum extension status "460 Checksum Mismatch"
+      460 as HttpStatus,
+      { uploadId, algorithm },
+    );
+  }
+
+  static directUploadUnavailable() {
+    return new AppException(
+      'DIRECT_UPLOAD_UNAVAILABLE',
+      'Direct uploads require S3 storage',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  static directUploadIncomplete(sessionId: string, missingParts?: number[]) {
+    return new AppException(
+      'DIRECT_UPLOAD_INCOMPLETE',
+      'The file has not been fully uploaded to storage',
+      HttpStatus.CONFLICT,
+      { sessionId, missingParts },
+    );
+  }
+
+  static directUploadInvalid(reason: string, details?: Record<string, unknown>) {
+    return new AppException(
+      'DIRECT_UPLOAD_INVALID',
+      reason,
+      HttpStatus.BAD_REQUEST,
+      details,
+    );
+  }
+
+  static rangeNotSatisfiable(size: number) {
+    return new AppException(
+      'RANGE_NOT_SATISFIABLE',
+      'None of the requested ranges overlap the file',
+      HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+      { size },
+    );
+  }
+
+  static signedUrlInvalid() {
+    return new AppException(
+      'SIGNED_URL_INVALID',
+      'The link is invalid or has expired',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+
+  static fileAccessDenied(fileId: string, requiredRole: string) {
+    return new AppException(
+      'FILE_ACCESS_DENIED',
+      'You do not have permission to perform this action on this file',
+      HttpStatus.FORBIDDEN,
+      { fileId, requiredRole },
+    );
+  }
+
+  static folderNotFound(folderId: string) {
+    return new AppException(
+      'FOLDER_NOT_FOUND',
+      'Folder not found',
+      HttpStatus.NOT_FOUND,
+      { folderId },
+    );
+  }
+
+  static folderNameConflict(name: string, parentId: string | null) {
+    return new AppException(
+      'FOLDER_NAME_CONFLICT',
+      'A folder with this name already exists here',
+      HttpStatus.CONFLICT,
+      { name, parentId },
+    );
+  }
+
+  static folderInvalidMove(folderId: string, targetParentId: string) {
+    return new AppException(
+      'FOLDER_INVALID_MOVE',
+      'Folder cannot be moved into itself or one of its subfolders',
+      HttpStatus.BAD_REQUEST,
+      { folderId, targetParentId },
+    );
+  }
+
+  static folderAccessDenied(folderId: string, requiredRole: string) {
+    return new AppException(
+      'FOLDER_ACCESS_DENIED',
+      'You do not have permission to perform this action on this folder',
+      HttpStatus.FORBIDDEN,
+      { folderId, requiredRole },
+    );
+  }
+
+  static collaboratorNotFound(resourceId: string, userId: string) {
+    return new AppException(
+      'COLLABORATOR_NOT_FOUND',
+      'Collaborator not found',
+      HttpStatus.NOT_FOUND,
+      { resourceId, userId },
+    );
+  }
+
+  static collaboratorAlreadyExists(resourceId: string, email: string) {
+    return new AppException(
+      'COLLABORATOR_ALREADY_EXISTS',
+      'This user already has access',
+      HttpStatus.CONFLICT,
+      { resourceId, email },
+    );
+  }
+
+  static collaboratorInvalid(resourceId: string) {
+    return new AppException(
+      'COLLABORATOR_INVALID',
+      'The owner cannot be added as a collaborator',
+      HttpStatus.BAD_REQUEST,
+      { resourceId },
+    );
+  }
+
+  static shareLinkNotFound() {
+    return new AppException(
+      'SHARE_LINK_NOT_FOUND',
+      'Share link not found',
+      HttpStatus.NOT_FOUND,
+    );
+  }
+
+  static shareLinkExpired(expiresAt: Date | null) {
+    return new AppException(
+      'SHARE_LINK_EXPIRED',
+      'Share link has expired',
+      HttpStatus.GONE,
+      { expiresAt },
+    );
+  }
+
+  static shareLinkPasswordRequired() {
+    return new AppException(
+      'SHARE_LINK_PASSWORD_REQUIRED',
+      'This share link is password protected',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+
+  static shareLinkPasswordInvalid() {
+    return new AppException(
+      'SHARE_LINK_PASSWORD_INVALID',
+      'Invalid share link password',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+
+  static shareLinkDownloadLimitReached(maxDownloads: number) {
+    return new AppException(
+      'SHARE_LINK_DOWNLOAD_LIMIT_REACHED',
+      'Share link download limit reached',
+      HttpStatus.GONE,
+      { maxDownloads },
+    );
+  }
+
+  static shareLinkViewOnly() {
+    return new AppException(
+      'SHARE_LINK_VIEW_ONLY',
+      'This share link does not allow downloads',
+      HttpStatus.FORBIDDEN,
+    );
+  }
+
+  static invalidCursor() {
+    return new AppException(
+      'INVALID_CURSOR',
+      'Invalid or expired pagination cursor',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
   static userNotFound(userId: string) {
     return new AppException(
       'USER_NOT_FOUND',
@@ -105,6 +612,31 @@ export class BusinessException {
       { userId },
     );
   }
-}
 
+  static userNotFoundByEmail(email: string) {
+    return new AppException(
+      'USER_NOT_FOUND',
+      'User not found',
+      HttpStatus.NOT_FOUND,
+      { email },
+    );
+  }
+
+  static planNotFound(planId: string) {
+    return new AppException(
+      'PLAN_NOT_FOUND',
+      'Plan not found',
+      HttpStatus.NOT_FOUND,
+      { planId },
+    );
+  }
 
+  static planNameConflict(name: string) {
+    return new AppException(
+      'PLAN_NAME_CONFLICT',
+      'A plan with this name already exists',
+      HttpStatus.CONFLICT,
+      { name },
+    );
+  }
+}
@@ -104,6 +104,11 @@ export class HttpExceptionFilter implements ExceptionFilter {
       ...(details && { details }),
     };
 
+    // Rate limit and lockout errors tell clients when to retry
+    if (typeof details?.retryAfterSeconds === 'number') {
+      response.setHeader('Retry-After', String(details.retryAfterSeconds));
+    }
+
     response.status(status).json(errorResponse);
   }
 }
@@ -1,2 +1,5 @@
 export * from './jwt-auth.guard';
 
+export * from './verified-email.guard';
+export * from './scopes.guard';
+export * from './roles.guard';
@@ -2,14 +2,20 @@ import { Injectable, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import { BusinessException } from '../exceptions';
 
+/**
+ * Authenticates with a session JWT or a personal access token. Personal access
+ * tokens are only accepted on routes declaring @RequireScopes().
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'personal-access-token']) {
   constructor(private reflector: Reflector) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
@@ -19,7 +25,17 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
     
-    return super.canActivate(context);
+    const activated = (await super.canActivate(context)) as boolean;
+
+    const user = context.switchToHttp().getRequest().user;
+    const requiredScopes = this.reflector.getAllAndOverride<string[]>(REQUIRED_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (user?.scopes && !requiredScopes?.length) {
+      throw BusinessException.tokenNotAllowed();
+    }
+
+    return activated;
   }
 }
-
@@ -0,0 +1,31 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY, Role } from '../decorators/roles.decorator';
+import { BusinessException } from '../exceptions';
+
+/**
+ * Enforces @Roles(). Routes without it are open to every authenticated user.
+ * Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!roles?.length) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest().user;
+    if (!user?.role || !roles.includes(user.role.toLowerCase())) {
+      throw BusinessException.insufficientRole(roles);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { REQUIRED_SCOPES_KEY, TokenScope } from '../decorators/require-scopes.decorator';
+import { BusinessException } from '../exceptions';
+
+/**
+ * Enforces @RequireScopes() for requests authenticated with a personal access token.
+ * Session (JWT) users are not scope-limited. Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredScopes = this.reflector.getAllAndOverride<TokenScope[]>(REQUIRED_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const user = context.switchToHttp().getRequest().user;
+
+    if (!requiredScopes?.length || !user?.scopes) {
+      return true;
+    }
+
+    const missingScopes = requiredScopes.filter((scope) => !user.scopes.includes(scope));
+    if (missingScopes.length > 0) {
+      throw BusinessException.insufficientScope(missingScopes);
+    }
+
+    return true;
+  }
+}
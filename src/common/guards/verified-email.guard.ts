@@ -0,0 +1,25 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BusinessException } from '../exceptions';
+
+/**
+ * Rejects users who have not verified their email, when
+ * REQUIRE_VERIFIED_EMAIL_FOR_UPLOAD is enabled. Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class VerifiedEmailGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.configService.get<boolean>('authConfig.requireVerifiedEmailForUpload')) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest().user;
+    if (!user?.emailVerifiedAt) {
+      throw BusinessException.emailNotVerified();
+    }
+
+    return true;
+  }
+}
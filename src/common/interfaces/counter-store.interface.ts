@@ -0,0 +1,37 @@
+/**
+ * Counter store interface
+ * Short-lived counters and flags that expire on their own (rate limits, lockouts)
+ */
+export interface ICounterStore {
+  /**
+   * Increment a counter. The expiry is set when the counter is created and is not
+   * extended by later increments (fixed window).
+   * @returns The new value
+   */
+  increment(key: string, ttlMs: number): Promise<number>;
+
+  /**
+   * Current value of a counter, 0 when it does not exist
+   */
+  get(key: string): Promise<number>;
+
+  /**
+   * Set a value with an expiry, replacing any previous value and expiry
+   */
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+
+  /**
+   * Remaining time to live in milliseconds, 0 when the key does not exist
+   */
+  ttl(key: string): Promise<number>;
+
+  /**
+   * Remove keys
+   */
+  delete(...keys: string[]): Promise<void>;
+
+  /**
+   * Get store type
+   */
+  getStoreType(): 'redis' | 'memory';
+}
@@ -0,0 +1,27 @@
+/**
+ * An outgoing email
+ */
+export interface IMailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mailer interface
+ * All mail transports must follow this contract
+ */
+export interface IMailer {
+  /**
+   * Deliver a message
+   * @param message - The message to send
+   * @param from - Sender address
+   */
+  send(message: IMailMessage, from: string): Promise<void>;
+
+  /**
+   * Get transport type
+   */
+  getTransportType(): 'smtp' | 'file';
+}
@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 /**
  * Storage provider interface
  * All storage implementations must follow this contract
@@ -11,6 +13,16 @@ export interface IStorageProvider {
    */
   uploadFile(file: Express.Multer.File, key: string): Promise<string>;
 
+  /**
+   * Upload content from a stream without buffering it in memory
+   * @param key - The storage key/path
+   * @param readable - The content, consumed once
+   * @param size - Content length in bytes
+   * @param mimeType - Content type
+   * @returns URL or path to the uploaded file
+   */
+  uploadStream(key: string, readable: Readable, size: number, mimeType: string): Promise<string>;
+
   /**
    * Delete a file
    * @param key - The storage key/path
@@ -46,3 +58,77 @@ export interface IFileUploadResult {
   url: string;
   storageType: 'local' | 's3';
 }
+
+/**
+ * Uploaded part of an S3 multipart upload
+ */
+export interface IMultipartUploadPart {
+  partNumber: number;
+  etag: string;
+}
+
+/**
+ * Part found on S3 for a multipart upload
+ */
+export interface IUploadedPart extends IMultipartUploadPart {
+  size: number;
+}
+
+/**
+ * Size and type of a stored object
+ */
+export interface IStoredObjectInfo {
+  size: number;
+  contentType?: string;
+  etag?: string;
+  lastModified?: Date;
+}
+
+/**
+ * Range and validators of a conditional read, as sent by the client
+ */
+export interface IObjectReadRequest {
+  /** Range header, a single range */
+  range?: string;
+  ifNoneMatch?: string;
+  ifModifiedSince?: Date;
+  /** If-Range header: an entity tag or an HTTP date */
+  ifRange?: string;
+}
+
+/**
+ * Result of a conditional read: the whole object (200), part of it (206),
+ * nothing when the client copy is still valid (304) or the range is outside the object (416)
+ */
+export interface IStoredObjectContent {
+  status: 200 | 206 | 304 | 416;
+  /** Object or range content (200 and 206) */
+  body?: Readable;
+  /** Size of the whole object */
+  size: number;
+  contentLength?: number;
+  contentRange?: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: Date;
+}
+
+/**
+ * Signature parameters of a signed local file URL
+ */
+export interface ISignedUrlParams {
+  expires: number;
+  signature: string;
+  /** Content-Type the file is served with */
+  type?: string;
+}
+
+/**
+ * Local file a valid signed URL points to
+ */
+export interface ISignedFile {
+  /** Stored path, relative to the working directory */
+  path: string;
+  contentType?: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IMailer, IMailMessage } from '../interfaces/mailer.interface';
+import { ensureDirectory } from '../utils/file.util';
+
+/**
+ * Offline transport for development and tests: every message is written as a JSON
+ * file to the output directory and echoed to the console
+ */
+@Injectable()
+export class FileMailer implements IMailer {
+  private readonly logger = new Logger(FileMailer.name);
+  private readonly outputDirectory: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.outputDirectory =
+      this.configService.get<string>('mailConfig.outputDirectory') || './tmp/mails';
+  }
+
+  async send(message: IMailMessage, from: string): Promise<void> {
+    await ensureDirectory(this.outputDirectory);
+
+    const sentAt = new Date();
+    const filePath = path.join(
+      this.outputDirectory,
+      `${sentAt.getTime()}-${message.to.replace(/[^a-zA-Z0-9.@_-]/g, '_')}.json`,
+    );
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ from, ...message, sentAt: sentAt.toISOString() }, null, 2),
+    );
+
+    this.logger.log(`Mail to ${message.to} "${message.subject}" written to ${filePath}\n${message.text}`);
+  }
+
+  getTransportType(): 'file' {
+    return 'file';
+  }
+}
@@ -0,0 +1,13 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MailerService } from './mailer.service';
+import { SmtpMailer } from './smtp.mailer';
+import { FileMailer } from './file.mailer';
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [MailerService, SmtpMailer, FileMailer],
+  exports: [MailerService],
+})
+export class MailerModule {}
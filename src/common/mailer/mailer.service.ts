@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IMailer, IMailMessage } from '../interfaces/mailer.interface';
+import { SmtpMailer } from './smtp.mailer';
+import { FileMailer } from './file.mailer';
+
+@Injectable()
+export class MailerService {
+  private readonly logger = new Logger(MailerService.name);
+  private readonly mailer: IMailer;
+  private readonly from: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly smtpMailer: SmtpMailer,
+    private readonly fileMailer: FileMailer,
+  ) {
+    this.mailer = this.determineTransport() === 'smtp' ? this.smtpMailer : this.fileMailer;
+    this.from =
+      this.configService.get<string>('mailConfig.from') || 'Dropbox App <no-reply@localhost>';
+
+    this.logger.log(`Mailer initialized with transport: ${this.mailer.getTransportType().toUpperCase()}`);
+  }
+
+  /**
+   * Send a message with the configured transport
+   */
+  async send(message: IMailMessage): Promise<void> {
+    try {
+      await this.mailer.send(message, this.from);
+    } catch (error) {
+      this.logger.error(`Failed to send mail "${message.subject}": ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * SMTP is only used when requested and a host is configured; otherwise mails go to files
+   */
+  private determineTransport(): 'smtp' | 'file' {
+    const configuredTransport = this.configService.get<string>('mailConfig.transport');
+    const hasSmtpConfig = !!this.configService.get<string>('mailConfig.smtp.host');
+
+    if (configuredTransport === 'smtp' && !hasSmtpConfig) {
+      this.logger.warn('SMTP transport requested but SMTP_HOST is not set. Falling back to file transport.');
+    }
+
+    return configuredTransport === 'smtp' && hasSmtpConfig ? 'smtp' : 'file';
+  }
+}
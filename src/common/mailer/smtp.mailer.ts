@@ -0,0 +1,40 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { IMailer, IMailMessage } from '../interfaces/mailer.interface';
+
+@Injectable()
+export class SmtpMailer implements IMailer {
+  private readonly logger = new Logger(SmtpMailer.name);
+  private transporter: nodemailer.Transporter | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(message: IMailMessage, from: string): Promise<void> {
+    const info = await this.getTransporter().sendMail({ from, ...message });
+    this.logger.debug(`Mail sent via SMTP: ${info.messageId}`);
+  }
+
+  getTransportType(): 'smtp' {
+    return 'smtp';
+  }
+
+  /**
+   * Create the SMTP connection pool on first use
+   */
+  private getTransporter(): nodemailer.Transporter {
+    if (!this.transporter) {
+      const user = this.configService.get<string>('mailConfig.smtp.user');
+      this.transporter = nodemailer.createTransport({
+        host: this.configService.get<string>('mailConfig.smtp.host'),
+        port: this.configService.get<number>('mailConfig.smtp.port'),
+        secure: this.configService.get<boolean>('mailConfig.smtp.secure'),
+        auth: user
+          ? { user, pass: this.configService.get<string>('mailConfig.smtp.password') }
+          : undefined,
+        pool: true,
+      });
+    }
+    return this.transporter;
+  }
+}
@@ -1,18 +1,43 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import * as path from 'path';
-import { IStorageProvider } from '../interfaces/storage.interface';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { LOCAL_STORAGE } from '../constants';
+import { ISignedFile, ISignedUrlParams, IStorageProvider } from '../interfaces/storage.interface';
 import { ensureDirectory, fileExists as checkFileExists } from '../utils/file.util';
+import { deriveSecret } from '../utils/crypto.util';
 
 @Injectable()
 export class LocalStorageProvider implements IStorageProvider {
   private readonly logger = new Logger(LocalStorageProvider.name);
   private readonly uploadDirectory: string;
+  private readonly baseUrl: string;
+  private readonly signingSecret: string;
+  private readonly urlExpiresIn: number;
 
   constructor(private readonly configService: ConfigService) {
     this.uploadDirectory =
       this.configService.get<string>('LOCAL_UPLOAD_DIRECTORY') || './uploads';
+    this.baseUrl = this.configService.get<string>('BASE_URL') ||
+      `http://localhost:${this.configService.get<number>('PORT', 7001)}`;
+    this.urlExpiresIn =
+      parseInt(this.configService.get<string>('LOCAL_SIGNED_URL_EXPIRES_IN'), 10) ||
+      LOCAL_STORAGE.URL_EXPIRES_IN;
+
+    // Without a dedicated secret, a key for URL signing only is derived from JWT_SECRET
+    const jwtSecret = this.configService.get<string>('JWT_SECRET');
+    const secret =
+      this.configService.get<string>('LOCAL_STORAGE_SIGNING_SECRET') ||
+      (jwtSecret && deriveSecret(jwtSecret, LOCAL_STORAGE.SIGNING_KEY_PURPOSE));
+    if (!secret) {
+      this.logger.warn('No signing secret configured: signed URLs only work until the next restart');
+    }
+    this.signingSecret = secret || randomBytes(32).toString('hex');
+
     this.initializeDirectory();
   }
 
@@ -57,6 +82,29 @@ export class LocalStorageProvider implements IStorageProvider {
     }
   }
 
+  async uploadStream(
+    key: string,
+    readable: Readable,
+    size: number,
+    mimeType: string,
+  ): Promise<string> {
+    this.logger.debug(`Streaming file to local storage: ${key} (${size} bytes, ${mimeType})`);
+
+    const filePath = path.join(this.uploadDirectory, key);
+
+    try {
+      await ensureDirectory(path.dirname(filePath));
+      await pipeline(readable, createWriteStream(filePath));
+
+      this.logger.log(`File uploaded successfully to local: ${filePath}`);
+      return filePath;
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => {});
+      this.logger.error(`Failed to stream file to local storage: ${error.message}`);
+      throw error;
+    }
+  }
+
   async deleteFile(key: string): Promise<boolean> {
     try {
       const filePath = this.getFilePath(key);
@@ -89,6 +137,63 @@ export class LocalStorageProvider implements IStorageProvider {
     return 'local';
   }
 
+  /**
+   * Generate a signed URL for downloading a file, served by the local files route
+   * @param filePath - Stored path, as returned by uploadFile
+   * @param expiresIn - URL expiration in seconds (default: LOCAL_SIGNED_URL_EXPIRES_IN or 1 hour)
+   * @param contentType - Content-Type the file is served with
+   */
+  generatePresignedDownloadUrl(
+    filePath: string,
+    expiresIn: number = this.urlExpiresIn,
+    contentType?: string,
+  ): string {
+    const key = path.relative(this.uploadDirectory, filePath).split(path.sep).join('/');
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+
+    const query = new URLSearchParams({
+      expires: String(expires),
+      ...(contentType && { type: contentType }),
+      signature: this.sign(key, expires, contentType),
+    });
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    return `${this.baseUrl}/${LOCAL_STORAGE.URL_PREFIX}/${encodedKey}?${query}`;
+  }
+
+  /**
+   * Check a signed URL: the file it points to, or null when the signature
+   * does not match or the URL has expired
+   */
+  verifyPresignedDownload(key: string, params: ISignedUrlParams): ISignedFile | null {
+    if (params.expires * 1000 < Date.now()) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(key, params.expires, params.type));
+    const actual = Buffer.from(params.signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    const filePath = path.resolve(this.uploadDirectory, key);
+    if (!filePath.startsWith(path.resolve(this.uploadDirectory) + path.sep)) {
+      return null;
+    }
+
+    return {
+      path: path.relative(process.cwd(), filePath),
+      contentType: params.type,
+      expiresAt: new Date(params.expires * 1000),
+    };
+  }
+
+  private sign(key: string, expires: number, contentType?: string): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${expires}\n${contentType ?? ''}`)
+      .digest('base64url');
+  }
+
   private getFilePath(key: string): string {
     // Handle both absolute paths and keys
     if (path.isAbsolute(key)) {
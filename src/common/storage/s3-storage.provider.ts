@@ -3,13 +3,28 @@ import { ConfigService } from '@nestjs/config';
 import {
   S3Client,
   PutObjectCommand,
+  CopyObjectCommand,
   DeleteObjectCommand,
   HeadObjectCommand,
   GetObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import * as fs from 'fs/promises';
-import { IStorageProvider } from '../interfaces/storage.interface';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import {
+  IMultipartUploadPart,
+  IObjectReadRequest,
+  IStorageProvider,
+  IStoredObjectContent,
+  IStoredObjectInfo,
+  IUploadedPart,
+} from '../interfaces/storage.interface';
 
 @Injectable()
 export class S3StorageProvider implements IStorageProvider {
@@ -18,6 +33,8 @@ export class S3StorageProvider implements IStorageProvider {
   private readonly bucketName: string;
   private readonly region: string;
   private readonly cloudfrontUrl?: string;
+  private readonly endpoint?: string;
+  private readonly forcePathStyle: boolean;
 
   constructor(private readonly configService: ConfigService) {
     this.bucketName = this.configService.get<string>('AWS_S3_BUCKET_NAME');
@@ -26,7 +43,9 @@ export class S3StorageProvider implements IStorageProvider {
 
     const accessKeyId = this.configService.get<string>('AWS_S3_ACCESS_KEY_ID');
     const secretAccessKey = this.configService.get<string>('AWS_S3_SECRET_ACCESS_KEY');
-    const endpoint = this.configService.get<string>('AWS_S3_ENDPOINT');
+    this.endpoint = this.configService.get<string>('AWS_S3_ENDPOINT')?.replace(/\/$/, '');
+    // S3-compatible services such as MinIO usually address buckets by path
+    this.forcePathStyle = this.configService.get<string>('AWS_S3_FORCE_PATH_STYLE') === 'true';
 
     this.s3Client = new S3Client({
       region: this.region,
@@ -34,7 +53,10 @@ export class S3StorageProvider implements IStorageProvider {
         accessKeyId,
         secretAccessKey,
       },
-      ...(endpoint && { endpoint }),
+      ...(this.endpoint && { endpoint: this.endpoint }),
+      forcePathStyle: this.forcePathStyle,
+      // Otherwise presigned upload URLs carry a checksum of an empty body
+      requestChecksumCalculation: 'WHEN_REQUIRED',
     });
 
     this.logger.log(`S3 storage initialized - Bucket: ${this.bucketName}, Region: ${this.region}`);
@@ -44,14 +66,12 @@ export class S3StorageProvider implements IStorageProvider {
     this.logger.debug(`Uploading file to S3: ${key}`);
 
     try {
-      // Read file buffer
-      const fileBuffer = await fs.readFile(file.path);
-
-      // Upload to S3
+      // Stream the file from disk instead of reading it into memory
       const command = new PutObjectCommand({
         Bucket: this.bucketName,
         Key: key,
-        Body: fileBuffer,
+        Body: createReadStream(file.path),
+        ContentLength: file.size,
         ContentType: file.mimetype,
         Metadata: {
           originalName: file.originalname,
@@ -74,6 +94,37 @@ export class S3StorageProvider implements IStorageProvider {
     }
   }
 
+  async uploadStream(
+    key: string,
+    readable: Readable,
+    size: number,
+    mimeType: string,
+  ): Promise<string> {
+    this.logger.debug(`Streaming file to S3: ${key}`);
+
+    try {
+      // The known length lets the SDK send the stream without buffering it
+      const command = new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: readable,
+        ContentLength: size,
+        ContentType: mimeType,
+        Metadata: {
+          uploadedAt: new Date().toISOString(),
+        },
+      });
+
+      await this.s3Client.send(command);
+
+      this.logger.log(`File uploaded successfully to S3: ${key}`);
+      return this.getFileUrl(key);
+    } catch (error) {
+      this.logger.error(`Failed to stream file to S3: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   async deleteFile(key: string): Promise<boolean> {
     try {
       const command = new DeleteObjectCommand({
@@ -96,6 +147,15 @@ export class S3StorageProvider implements IStorageProvider {
       return `${this.cloudfrontUrl}/${key}`;
     }
 
+    // Custom endpoint (S3-compatible service)
+    if (this.endpoint) {
+      if (this.forcePathStyle) {
+        return `${this.endpoint}/${this.bucketName}/${key}`;
+      }
+      const endpointUrl = new URL(this.endpoint);
+      return `${endpointUrl.protocol}//${this.bucketName}.${endpointUrl.host}/${key}`;
+    }
+
     // Otherwise, return S3 URL
     return `https://${this.bucketName}.s3.${this.region}.amazonaws.com/${key}`;
   }
@@ -122,15 +182,275 @@ export class S3StorageProvider implements IStorageProvider {
     return 's3';
   }
 
+  /**
+   * Start a multipart upload; parts are then sent with uploadPart
+   * @returns The multipart upload ID
+   */
+  async createMultipartUpload(key: string, mimeType: string): Promise<string> {
+    const response = await this.s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentType: mimeType,
+        Metadata: {
+          uploadedAt: new Date().toISOString(),
+        },
+      }),
+    );
+
+    this.logger.log(`Multipart upload started on S3: ${key}`);
+    return response.UploadId;
+  }
+
+  /**
+   * Upload one part of a multipart upload. Every part but the last must be at least 5MB;
+   * sending a part number again replaces that part.
+   * @param partNumber - 1-based part number
+   * @returns The part's ETag, needed to complete the upload
+   */
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    readable: Readable,
+    size: number,
+  ): Promise<string> {
+    const response = await this.s3Client.send(
+      new UploadPartCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: readable,
+        ContentLength: size,
+      }),
+    );
+
+    return response.ETag;
+  }
+
+  /**
+   * Combine the uploaded parts into the final object
+   * @returns URL of the object
+   */
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: IMultipartUploadPart[],
+  ): Promise<string> {
+    await this.s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      }),
+    );
+
+    this.logger.log(`Multipart upload completed on S3: ${key} (${parts.length} parts)`);
+    return this.getFileUrl(key);
+  }
+
+  /**
+   * Abort a multipart upload, deleting the parts uploaded so far
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.s3Client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+      }),
+    );
+
+    this.logger.log(`Multipart upload aborted on S3: ${key}`);
+  }
+
+  /**
+   * Parts uploaded so far to a multipart upload, in part number order
+   */
+  async listParts(key: string, uploadId: string): Promise<IUploadedPart[]> {
+    const parts: IUploadedPart[] = [];
+    let partNumberMarker: string | undefined;
+
+    do {
+      const response = await this.s3Client.send(
+        new ListPartsCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: partNumberMarker,
+        }),
+      );
+
+      for (const part of response.Parts ?? []) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size });
+      }
+      partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+
+  /**
+   * Size and type of an object, or null when it does not exist
+   */
+  async getObjectInfo(key: string): Promise<IStoredObjectInfo | null> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+        }),
+      );
+
+      return {
+        size: response.ContentLength,
+        contentType: response.ContentType,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+      };
+    } catch (error) {
+      if (error.name === 'NotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy an object within the bucket, keeping its content type
+   */
+  async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+    await this.s3Client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucketName,
+        Key: destinationKey,
+        CopySource: `${this.bucketName}/${encodeURIComponent(sourceKey)}`,
+      }),
+    );
+  }
+
+  /**
+   * Read an object as a stream
+   */
+  async getObjectStream(key: string): Promise<Readable> {
+    const response = await this.s3Client.send(
+      new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+      }),
+    );
+
+    return response.Body as Readable;
+  }
+
+  /**
+   * Read an object for an HTTP client: the range and validators are forwarded
+   * to GetObject so S3 decides between 200, 206, 304 and 416
+   */
+  async getObject(key: string, request: IObjectReadRequest = {}): Promise<IStoredObjectContent> {
+    // If-Range has no GetObject counterpart: the range is only served while the
+    // object still matches it, otherwise the whole object is read
+    const ifRange = request.range ? request.ifRange?.trim() : undefined;
+    if (ifRange?.startsWith('W/')) {
+      return this.getObject(key, { ...request, range: undefined, ifRange: undefined });
+    }
+    const ifRangeDate = ifRange && !ifRange.startsWith('"') ? new Date(ifRange) : undefined;
+
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Range: request.range,
+          IfNoneMatch: request.ifNoneMatch,
+          IfModifiedSince: request.ifModifiedSince,
+          IfMatch: ifRange?.startsWith('"') ? ifRange : undefined,
+          IfUnmodifiedSince: ifRangeDate && !isNaN(ifRangeDate.getTime()) ? ifRangeDate : undefined,
+        }),
+      );
+
+      const partial = response.ContentRange !== undefined;
+      return {
+        status: partial ? 206 : 200,
+        body: response.Body as Readable,
+        size: partial ? Number(response.ContentRange.split('/')[1]) : response.ContentLength,
+        contentLength: response.ContentLength,
+        contentRange: response.ContentRange,
+        contentType: response.ContentType,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+      };
+    } catch (error) {
+      const status = error.$metadata?.httpStatusCode;
+
+      if (status === 412 && ifRange) {
+        return this.getObject(key, { ...request, range: undefined, ifRange: undefined });
+      }
+      if (status !== 304 && status !== 416) {
+        throw error;
+      }
+
+      // Neither response carries the object metadata the client needs
+      const info = await this.getObjectInfo(key);
+      if (!info) {
+        throw error;
+      }
+      return { status, size: info.size, etag: info.etag, lastModified: info.lastModified };
+    }
+  }
+
   /**
    * Generate a pre-signed URL for direct upload from client
    * @param key - The storage key
    * @param expiresIn - URL expiration in seconds (default: 3600 = 1 hour)
+   * @param contentType - Content-Type the client must send, when given
+   * @param contentLength - Exact size the body must have, when given
+   * @param checksumSha256 - SHA-256 (base64) the body must have, when given; the
+   * client sends it as the x-amz-checksum-sha256 header
    */
-  async generatePresignedUploadUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async generatePresignedUploadUrl(
+    key: string,
+    expiresIn: number = 3600,
+    contentType?: string,
+    contentLength?: number,
+    checksumSha256?: string,
+  ): Promise<string> {
     const command = new PutObjectCommand({
       Bucket: this.bucketName,
       Key: key,
+      ContentType: contentType,
+      ContentLength: contentLength,
+      ChecksumSHA256: checksumSha256,
+    });
+
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn,
+      // Sign the size and checksum so the URL only accepts that exact content
+      signableHeaders: new Set(['content-length', 'content-type']),
+      unhoistableHeaders: new Set(['x-amz-checksum-sha256']),
+    });
+  }
+
+  /**
+   * Generate a pre-signed URL for uploading one part of a multipart upload
+   * @param partNumber - 1-based part number
+   * @param expiresIn - URL expiration in seconds (default: 3600 = 1 hour)
+   */
+  async generatePresignedPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number = 3600,
+  ): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
     });
 
     return getSignedUrl(this.s3Client, command, { expiresIn });
@@ -1,6 +1,17 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IStorageProvider, IFileUploadResult } from '../interfaces/storage.interface';
+import { Readable } from 'stream';
+import {
+  IStorageProvider,
+  IFileUploadResult,
+  IMultipartUploadPart,
+  IObjectReadRequest,
+  ISignedFile,
+  ISignedUrlParams,
+  IStoredObjectContent,
+  IStoredObjectInfo,
+  IUploadedPart,
+} from '../interfaces/storage.interface';
 import { LocalStorageProvider } from './local-storage.provider';
 import { S3StorageProvider } from './s3-storage.provider';
 
@@ -88,6 +99,30 @@ export class StorageService {
     }
   }
 
+  /**
+   * Upload streamed content using the configured storage provider. Unlike uploadFile there
+   * is no fallback to local storage, since the stream cannot be read a second time.
+   */
+  async uploadStream(
+    key: string,
+    readable: Readable,
+    size: number,
+    mimeType: string,
+  ): Promise<IFileUploadResult> {
+    try {
+      const url = await this.provider.uploadStream(key, readable, size, mimeType);
+
+      return {
+        key,
+        url,
+        storageType: this.provider.getStorageType(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to upload stream: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   /**
    * Delete a file from storage
    */
@@ -109,6 +144,26 @@ export class StorageService {
     }
   }
 
+  /**
+   * Extract the storage key from a stored file path/URL
+   */
+  extractStorageKey(pathOrUrl: string): string {
+    // If it's an S3 URL, extract the key
+    if (pathOrUrl.includes('s3.amazonaws.com') || pathOrUrl.includes('cloudfront.net')) {
+      const url = new URL(pathOrUrl);
+      return url.pathname.substring(1); // Remove leading slash
+    }
+
+    // URLs of a custom endpoint (S3-compatible service)
+    const s3BaseUrl = this.s3Provider.getFileUrl('');
+    if (this.storageType === 's3' && pathOrUrl.startsWith(s3BaseUrl)) {
+      return pathOrUrl.substring(s3BaseUrl.length);
+    }
+
+    // For local storage, return the path
+    return pathOrUrl;
+  }
+
   /**
    * Get file URL
    */
@@ -157,18 +212,168 @@ export class StorageService {
     return this.storageType === 's3';
   }
 
+  /**
+   * Start a multipart upload (S3 only)
+   * @returns The multipart upload ID
+   */
+  async createMultipartUpload(key: string, mimeType: string): Promise<string> {
+    this.assertS3('Multipart uploads');
+
+    try {
+      return await this.s3Provider.createMultipartUpload(key, mimeType);
+    } catch (error) {
+      this.logger.error(`Failed to start multipart upload: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload one part of a multipart upload (S3 only)
+   * @returns The part's ETag
+   */
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    readable: Readable,
+    size: number,
+  ): Promise<string> {
+    this.assertS3('Multipart uploads');
+
+    try {
+      return await this.s3Provider.uploadPart(key, uploadId, partNumber, readable, size);
+    } catch (error) {
+      this.logger.error(`Failed to upload part ${partNumber}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a multipart upload from its parts, in part number order (S3 only)
+   */
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: IMultipartUploadPart[],
+  ): Promise<IFileUploadResult> {
+    this.assertS3('Multipart uploads');
+
+    try {
+      const url = await this.s3Provider.completeMultipartUpload(key, uploadId, parts);
+
+      return {
+        key,
+        url,
+        storageType: 's3',
+      };
+    } catch (error) {
+      this.logger.error(`Failed to complete multipart upload: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Abort a multipart upload and delete its parts (S3 only)
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<boolean> {
+    try {
+      await this.s3Provider.abortMultipartUpload(key, uploadId);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to abort multipart upload: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Parts uploaded so far to a multipart upload, in part number order (S3 only)
+   */
+  async listParts(key: string, uploadId: string): Promise<IUploadedPart[]> {
+    this.assertS3('Multipart uploads');
+    return this.s3Provider.listParts(key, uploadId);
+  }
+
+  /**
+   * Size and type of a stored object, or null when it does not exist (S3 only)
+   */
+  async getObjectInfo(key: string): Promise<IStoredObjectInfo | null> {
+    this.assertS3('Object lookups');
+    return this.s3Provider.getObjectInfo(key);
+  }
+
+  /**
+   * Read a stored object as a stream (S3 only)
+   */
+  async getObjectStream(key: string): Promise<Readable> {
+    this.assertS3('Object streams');
+    return this.s3Provider.getObjectStream(key);
+  }
+
+  /**
+   * Read a stored object for an HTTP client, honouring its range and validators (S3 only)
+   */
+  async getObject(key: string, request?: IObjectReadRequest): Promise<IStoredObjectContent> {
+    this.assertS3('Object reads');
+    return this.s3Provider.getObject(key, request);
+  }
+
+  /**
+   * Copy a stored object to another key (S3 only)
+   */
+  async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+    this.assertS3('Object copies');
+
+    try {
+      await this.s3Provider.copyObject(sourceKey, destinationKey);
+    } catch (error) {
+      this.logger.error(`Failed to copy ${sourceKey} to ${destinationKey}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   /**
    * Generate pre-signed URL for direct upload (S3 only)
+   * @param contentLength - Exact size the upload must have, when given
+   * @param checksumSha256 - SHA-256 (base64) the upload must have, when given
    */
-  async generatePresignedUploadUrl(key: string, expiresIn?: number): Promise<string | null> {
+  async generatePresignedUploadUrl(
+    key: string,
+    expiresIn?: number,
+    contentType?: string,
+    contentLength?: number,
+    checksumSha256?: string,
+  ): Promise<string | null> {
     if (this.storageType === 's3' && this.s3Provider instanceof S3StorageProvider) {
-      return this.s3Provider.generatePresignedUploadUrl(key, expiresIn);
+      return this.s3Provider.generatePresignedUploadUrl(
+        key,
+        expiresIn,
+        contentType,
+        contentLength,
+        checksumSha256,
+      );
     }
     
     this.logger.warn('Pre-signed URLs are only available with S3 storage');
     return null;
   }
 
+  /**
+   * Generate pre-signed URL for uploading one part of a multipart upload (S3 only)
+   */
+  async generatePresignedPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn?: number,
+  ): Promise<string | null> {
+    if (this.storageType === 's3' && this.s3Provider instanceof S3StorageProvider) {
+      return this.s3Provider.generatePresignedPartUrl(key, uploadId, partNumber, expiresIn);
+    }
+
+    this.logger.warn('Pre-signed URLs are only available with S3 storage');
+    return null;
+  }
+
   /**
    * Generate pre-signed URL for download (S3 only)
    */
@@ -180,4 +385,30 @@ export class StorageService {
     this.logger.warn('Pre-signed URLs are only available with S3 storage');
     return null;
   }
+
+  /**
+   * URL clients read a stored file from: remote (S3) URLs as stored, local
+   * files through a signed URL that expires
+   * @param path - Stored path or URL
+   * @param contentType - Content-Type local files are served with
+   */
+  getSignedFileUrl(path: string, contentType?: string): string {
+    if (path.startsWith('http://') || path.startsWith('https://')) {
+      return path;
+    }
+    return this.localProvider.generatePresignedDownloadUrl(path, undefined, contentType);
+  }
+
+  /**
+   * Local file a signed URL points to, or null when it is invalid or expired
+   */
+  verifySignedFileUrl(key: string, params: ISignedUrlParams): ISignedFile | null {
+    return this.localProvider.verifyPresignedDownload(key, params);
+  }
+
+  private assertS3(feature: string): void {
+    if (this.storageType !== 's3') {
+      throw new Error(`${feature} are only available with S3 storage`);
+    }
+  }
 }
@@ -0,0 +1,10 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Derive a key for one purpose from a shared secret (HMAC-SHA256 of the purpose), so
+ * that a value signed or encrypted for one purpose is useless for any other
+ * @param purpose - Fixed label of the use, e.g. 'local-url-signing'
+ */
+export function deriveSecret(secret: string, purpose: string): string {
+  return createHmac('sha256', secret).update(purpose).digest('hex');
+}
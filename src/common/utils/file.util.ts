@@ -1,5 +1,7 @@
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { BinaryToTextEncoding, createHash } from 'crypto';
 
 /**
  * File Utilities
@@ -136,14 +138,6 @@ export function bytesToGB(bytes: number): number {
   return Number((bytes / (1024 * 1024 * 1024)).toFixed(2));
 }
 
-/**
- * Get max file size based on MIME type
- */
-export function getMaxFileSize(mimeType: string): number {
-  const { FILE_UPLOAD } = require('../constants');
-  return isVideoMimeType(mimeType) ? FILE_UPLOAD.MAX_VIDEO_SIZE : FILE_UPLOAD.MAX_FILE_SIZE;
-}
-
 /**
  * Ensure directory exists
  */
@@ -156,3 +150,20 @@ export async function ensureDirectory(dirPath: string): Promise<void> {
 }
 
 
+
+/**
+ * Compute the digest of a file by streaming it from disk (SHA-256 hex by default)
+ */
+export function hashFile(
+  filePath: string,
+  algorithm: string = 'sha256',
+  encoding: BinaryToTextEncoding = 'hex',
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash(algorithm);
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest(encoding)))
+      .on('error', reject);
+  });
+}
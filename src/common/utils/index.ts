@@ -4,3 +4,5 @@ export * from './file.util';
 export * from './pagination.util';
 
 
+export * from './otp.util';
+export * from './crypto.util';
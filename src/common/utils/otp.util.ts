@@ -0,0 +1,157 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * One-time password utilities (RFC 4226 HOTP / RFC 6238 TOTP)
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32, the format authenticator apps expect
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32, ignoring padding, spaces and case
+ */
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random base32 TOTP secret
+ */
+export function generateTotpSecret(bytes: number = 20): string {
+  return base32Encode(randomBytes(bytes));
+}
+
+/**
+ * HOTP value for a counter (RFC 4226, HMAC-SHA1, dynamic truncation)
+ */
+export function generateHotp(secret: string, counter: number, digits: number = 6): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Find the time step a TOTP code belongs to, allowing `window` steps of clock drift
+ * either way
+ * @returns The matching time step, or null when the code is invalid
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { digits?: number; periodSeconds?: number; window?: number; now?: number } = {},
+): number | null {
+  const { digits = 6, periodSeconds = 30, window = 1, now = Date.now() } = options;
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) {
+    return null;
+  }
+
+  const currentStep = Math.floor(now / 1000 / periodSeconds);
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = generateHotp(secret, step, digits);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI encoded in enrollment QR codes
+ */
+export function buildOtpauthUri(
+  secret: string,
+  accountName: string,
+  issuer: string,
+  options: { digits?: number; periodSeconds?: number } = {},
+): string {
+  const { digits = 6, periodSeconds = 30 } = options;
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(digits),
+    period: String(periodSeconds),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Encrypt a secret at rest with AES-256-GCM. Output is `iv.tag.ciphertext` in base64url.
+ * @param key - Any string; it is stretched to 256 bits with SHA-256
+ */
+export function encryptSecret(plaintext: string, key: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(key), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a value produced by `encryptSecret`
+ */
+export function decryptSecret(encrypted: string, key: string): string {
+  const [iv, tag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(key), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function deriveKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
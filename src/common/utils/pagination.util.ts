@@ -1,46 +1,92 @@
 /**
  * Pagination Utilities
+ *
+ * Listings use keyset (cursor) pagination: the cursor is an opaque token encoding the
+ * sort value and ID of the last item of the previous page.
  */
 
+import { PAGINATION } from '../constants';
+
 export interface PaginationParams {
-  page?: number;
+  cursor?: string;
   limit?: number;
 }
 
 export interface PaginationMeta {
-  page: number;
   limit: number;
+  count: number;
   totalCount: number;
-  totalPages: number;
   hasNextPage: boolean;
-  hasPreviousPage: boolean;
+  nextCursor: string | null;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  meta: PaginationMeta;
 }
 
 /**
- * Calculate pagination metadata
+ * Position of the last item of a page, for a given sort
  */
-export function calculatePagination(
-  totalCount: number,
-  page: number = 1,
-  limit: number = 20,
-): PaginationMeta {
-  const totalPages = Math.ceil(totalCount / limit);
-  
-  return {
-    page,
-    limit,
-    totalCount,
-    totalPages,
-    hasNextPage: page < totalPages,
-    hasPreviousPage: page > 1,
-  };
+export interface CursorPayload {
+  /** Sort key the cursor was issued for (e.g. "createdAt:desc") */
+  sort: string;
+  /** Sort value of the last item (dates are ISO strings) */
+  value: string | number;
+  /** ID of the last item, used as tiebreak */
+  id: string;
 }
 
 /**
- * Calculate skip value for database queries
+ * Encode a cursor payload as an opaque URL-safe token
  */
-export function calculateSkip(page: number = 1, limit: number = 20): number {
-  return (page - 1) * limit;
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor token, returning null when it is malformed
+ */
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (
+      typeof payload?.sort !== 'string' ||
+      typeof payload?.id !== 'string' ||
+      (typeof payload?.value !== 'string' && typeof payload?.value !== 'number')
+    ) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a page from rows fetched with `limit + 1` (the extra row only signals a next page)
+ */
+export function calculatePagination<T>(
+  rows: T[],
+  limit: number,
+  totalCount: number,
+  toCursor: (last: T) => string,
+): PaginatedResult<T> {
+  const hasNextPage = rows.length > limit;
+  const items = hasNextPage ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    meta: {
+      limit,
+      count: items.length,
+      totalCount,
+      hasNextPage,
+      nextCursor: hasNextPage ? toCursor(items[items.length - 1]) : null,
+    },
+  };
 }
 
 /**
@@ -48,12 +94,9 @@ export function calculateSkip(page: number = 1, limit: number = 20): number {
  */
 export function sanitizePaginationParams(
   params: PaginationParams,
-  maxLimit: number = 100,
-): { page: number; limit: number } {
-  const page = Math.max(1, params.page || 1);
-  const limit = Math.min(maxLimit, Math.max(1, params.limit || 20));
-  
-  return { page, limit };
-}
-
+  maxLimit: number = PAGINATION.MAX_LIMIT,
+): { cursor?: string; limit: number } {
+  const limit = Math.min(maxLimit, Math.max(1, params.limit || PAGINATION.DEFAULT_LIMIT));
 
+  return { cursor: params.cursor || undefined, limit };
+}
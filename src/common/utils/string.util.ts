@@ -2,6 +2,8 @@
  * String Utilities
  */
 
+import { createHash, randomBytes } from 'crypto';
+
 /**
  * Convert string to slug (kebab-case)
  */
@@ -44,6 +46,21 @@ export function randomString(length: number = 10): string {
   return result;
 }
 
+/**
+ * Generate an unguessable URL-safe token
+ */
+export function generateSecureToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * SHA-256 hex digest of a token. Random tokens carry enough entropy that a fast
+ * hash is sufficient for storing them.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * Mask email for privacy
  */
@@ -64,3 +81,15 @@ export function isValidUUID(uuid: string): boolean {
 }
 
 
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
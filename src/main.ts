@@ -2,12 +2,12 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { NestExpressApplication } from '@nestjs/platform-express';
-import { join } from 'path';
 import * as express from 'express';
 import { AppModule } from './app.module';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { LoggerService } from './common/logger/logger.service';
+import { setTusDiscoveryHeaders } from './modules/files/helpers/tus.helper';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -15,33 +15,25 @@ dotenv.config();
 async function bootstrap() {
   const app = await NestFactory.create<NestExpressApplication>(AppModule);
 
-  // Configure CORS before static assets
+  // tus discovery: CORS answers OPTIONS requests before they reach a controller
+  app.use('/files/tus', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (req.method === 'OPTIONS') {
+      setTusDiscoveryHeaders(res);
+    }
+    next();
+  });
+
+  // Configure CORS
   app.enableCors({
     origin: '*', // Allow all origins for file viewing
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS',
     credentials: false,
-    allowedHeaders: 'Content-Type, Accept, Authorization',
-  });
-
-  // Add middleware to set proper headers for static files
-  app.use('/uploads', (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    // Set CORS headers for static files
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
-    
-    // Set Content-Disposition to inline so browser displays instead of downloads
-    res.setHeader('Content-Disposition', 'inline');
-    
-    // Set cache headers for better performance
-    res.setHeader('Cache-Control', 'public, max-age=31536000'); // 1 year
-    
-    next();
-  });
-
-  // Serve static files from uploads directory
-  app.useStaticAssets(join(__dirname, '..', 'uploads'), {
-    prefix: '/uploads/',
+    // Range and conditional headers let browser clients resume and revalidate downloads
+    allowedHeaders:
+      'Content-Type, Accept, Authorization, Content-Digest, Content-MD5, Tus-Resumable, Upload-Length, Upload-Metadata, Upload-Offset, Upload-Checksum, Range, If-None-Match, If-Modified-Since, If-Range',
+    // Let browser clients read the tus protocol headers, download digests and range/validator headers
+    exposedHeaders:
+      'Repr-Digest, Location, Tus-Resumable, Tus-Version, Tus-Extension, Tus-Checksum-Algorithm, Upload-Offset, Upload-Length, Upload-Metadata, Upload-Expires, X-File-Id, Content-Range, Accept-Ranges, ETag, Last-Modified, Content-Length',
   });
 
   // Get logger service
@@ -91,6 +83,8 @@ async function bootstrap() {
     .addTag('Authentication', 'User authentication endpoints')
     .addTag('Users', 'User management endpoints')
     .addTag('Files', 'File upload and management')
+    .addTag('Folders', 'Folder hierarchy management')
+    .addTag('Share Links', 'Public file sharing via links')
     .addTag('Health', 'Health check and monitoring')
     .build();
 
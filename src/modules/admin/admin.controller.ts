@@ -0,0 +1,154 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AdminService } from './admin.service';
+import {
+  AdminUserResponseDto,
+  ListUsersQueryDto,
+  SuspendUserDto,
+  UpdateUserQuotaDto,
+} from './dto/admin-user.dto';
+import { AssignPlanDto, CreatePlanDto, PlanResponseDto, UpdatePlanDto } from './dto/plan.dto';
+import { BaseResponseDto } from '../../common/dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { SUCCESS_MESSAGES } from '../../common/constants';
+
+@ApiTags('Admin')
+@Controller('admin')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+@ApiBearerAuth()
+export class AdminController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @Get('users')
+  @ApiOperation({
+    summary: 'List and search users with cursor pagination',
+    description: 'Deleted accounts pending purge are only listed with `status=deleted`.',
+  })
+  async listUsers(
+    @Query() query: ListUsersQueryDto,
+  ): Promise<BaseResponseDto<AdminUserResponseDto[]>> {
+    const { items, meta } = await this.adminService.listUsers(query);
+    return new BaseResponseDto(items, 'Users retrieved successfully', meta);
+  }
+
+  @Get('users/:id')
+  @ApiOperation({ summary: 'Get a user, including accounts pending deletion' })
+  async getUser(
+    @Param('id') userId: string,
+  ): Promise<BaseResponseDto<AdminUserResponseDto>> {
+    const user = await this.adminService.getUser(userId);
+    return new BaseResponseDto(user, 'User retrieved successfully');
+  }
+
+  @Get('users/:id/storage')
+  @ApiOperation({ summary: "Get a user's storage statistics, plan and quota" })
+  async getUserStorageStats(
+    @Param('id') userId: string,
+  ): Promise<BaseResponseDto<any>> {
+    const stats = await this.adminService.getUserStorageStats(userId);
+    return new BaseResponseDto(stats, 'Storage statistics retrieved successfully');
+  }
+
+  @Post('users/:id/suspend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Suspend an account',
+    description: 'Signs the user out everywhere; sign-in, refresh and access tokens are rejected until unsuspended.',
+  })
+  async suspendUser(
+    @CurrentUser() admin: any,
+    @Param('id') userId: string,
+    @Body() dto: SuspendUserDto,
+  ): Promise<BaseResponseDto<AdminUserResponseDto>> {
+    const user = await this.adminService.suspendUser(admin.id, userId, dto.reason);
+    return new BaseResponseDto(user, SUCCESS_MESSAGES.USER_SUSPENDED);
+  }
+
+  @Post('users/:id/unsuspend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Lift the suspension of an account' })
+  async unsuspendUser(
+    @CurrentUser() admin: any,
+    @Param('id') userId: string,
+  ): Promise<BaseResponseDto<AdminUserResponseDto>> {
+    const user = await this.adminService.unsuspendUser(admin.id, userId);
+    return new BaseResponseDto(user, SUCCESS_MESSAGES.USER_UNSUSPENDED);
+  }
+
+  @Patch('users/:id/quota')
+  @ApiOperation({ summary: "Override the storage quota of a user (null restores the plan's quota)" })
+  async updateUserQuota(
+    @CurrentUser() admin: any,
+    @Param('id') userId: string,
+    @Body() dto: UpdateUserQuotaDto,
+  ): Promise<BaseResponseDto<AdminUserResponseDto>> {
+    const user = await this.adminService.setStorageQuota(admin.id, userId, dto.storageQuota);
+    return new BaseResponseDto(user, SUCCESS_MESSAGES.USER_QUOTA_UPDATED);
+  }
+
+  @Patch('users/:id/plan')
+  @ApiOperation({ summary: 'Assign a plan to a user (null for the default plan)' })
+  async assignPlan(
+    @CurrentUser() admin: any,
+    @Param('id') userId: string,
+    @Body() dto: AssignPlanDto,
+  ): Promise<BaseResponseDto<AdminUserResponseDto>> {
+    const user = await this.adminService.assignPlan(admin.id, userId, dto.planId);
+    return new BaseResponseDto(user, SUCCESS_MESSAGES.USER_PLAN_UPDATED);
+  }
+
+  @Get('plans')
+  @ApiOperation({ summary: 'List storage plans' })
+  async listPlans(): Promise<BaseResponseDto<PlanResponseDto[]>> {
+    const plans = await this.adminService.listPlans();
+    return new BaseResponseDto(plans, 'Plans retrieved successfully');
+  }
+
+  @Post('plans')
+  @ApiOperation({ summary: 'Create a storage plan' })
+  async createPlan(
+    @CurrentUser() admin: any,
+    @Body() dto: CreatePlanDto,
+  ): Promise<BaseResponseDto<PlanResponseDto>> {
+    const plan = await this.adminService.createPlan(admin.id, dto);
+    return new BaseResponseDto(plan, SUCCESS_MESSAGES.PLAN_CREATED);
+  }
+
+  @Patch('plans/:id')
+  @ApiOperation({ summary: 'Update a storage plan; its users get the new limits right away' })
+  async updatePlan(
+    @CurrentUser() admin: any,
+    @Param('id') planId: string,
+    @Body() dto: UpdatePlanDto,
+  ): Promise<BaseResponseDto<PlanResponseDto>> {
+    const plan = await this.adminService.updatePlan(admin.id, planId, dto);
+    return new BaseResponseDto(plan, SUCCESS_MESSAGES.PLAN_UPDATED);
+  }
+
+  @Delete('files/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Permanently delete any file, bypassing the trash' })
+  async forceDeleteFile(
+    @CurrentUser() admin: any,
+    @Param('id') fileId: string,
+  ): Promise<BaseResponseDto<null>> {
+    await this.adminService.forceDeleteFile(admin.id, fileId);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.FILE_FORCE_DELETED);
+  }
+}
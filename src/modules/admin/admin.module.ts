@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { FilesModule } from '../files/files.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule, FilesModule],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
@@ -0,0 +1,380 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { withTrashed } from '../../prisma/extensions';
+import { LoggerService } from '../../common/logger/logger.service';
+import {
+  ADMIN_USER_SELECT_FIELDS,
+  PLAN_SELECT_FIELDS,
+  SUCCESS_MESSAGES,
+} from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import {
+  PaginatedResult,
+  calculatePagination,
+  decodeCursor,
+  encodeCursor,
+  sanitizePaginationParams,
+} from '../../common/utils/pagination.util';
+import { FilesService } from '../files/files.service';
+import { StorageQuotaService } from '../files/storage-quota.service';
+import { SessionsService } from '../auth/sessions.service';
+import { AdminUserResponseDto, ListUsersQueryDto } from './dto/admin-user.dto';
+import { CreatePlanDto, PlanResponseDto, UpdatePlanDto } from './dto/plan.dto';
+
+type AdminUserRecord = Prisma.UserGetPayload<{ select: typeof ADMIN_USER_SELECT_FIELDS }>;
+type PlanRecord = Prisma.PlanGetPayload<{ select: typeof PLAN_SELECT_FIELDS }>;
+
+const USER_LISTING_SORT = 'createdAt:desc';
+
+@Injectable()
+export class AdminService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly filesService: FilesService,
+    private readonly sessionsService: SessionsService,
+    private readonly storageQuotaService: StorageQuotaService,
+  ) {}
+
+  /**
+   * List and search users, newest first, with cursor pagination
+   */
+  async listUsers(query: ListUsersQueryDto): Promise<PaginatedResult<AdminUserResponseDto>> {
+    const { cursor, limit } = sanitizePaginationParams(query);
+    const where = this.buildUserListingWhere(query);
+
+    // Keyset condition matching createdAt desc with the ascending id tiebreak of SortExtension
+    let cursorWhere: Prisma.UserWhereInput | undefined;
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      if (!position || position.sort !== USER_LISTING_SORT) {
+        throw BusinessException.invalidCursor();
+      }
+
+      const createdAt = new Date(position.value);
+      cursorWhere = {
+        OR: [{ createdAt: { lt: createdAt } }, { createdAt, id: { gt: position.id } }],
+      };
+    }
+
+    const [rows, totalCount] = await Promise.all([
+      this.prisma.user.findMany({
+        where: cursorWhere ? { AND: [where, cursorWhere] } : where,
+        select: ADMIN_USER_SELECT_FIELDS,
+        orderBy: { createdAt: 'desc' },
+        take: limit + 1,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    const page = calculatePagination(rows, limit, totalCount, (last) =>
+      encodeCursor({ sort: USER_LISTING_SORT, value: last.createdAt.toISOString(), id: last.id }),
+    );
+
+    return { items: page.items.map((user) => this.toResponse(user)), meta: page.meta };
+  }
+
+  /**
+   * Get any user, including accounts pending deletion
+   */
+  async getUser(userId: string): Promise<AdminUserResponseDto> {
+    return this.toResponse(await this.findUser(userId));
+  }
+
+  /**
+   * Storage statistics of a user, with their plan, quota and usage
+   */
+  async getUserStorageStats(userId: string) {
+    await this.findUser(userId);
+    const [stats, quota] = await Promise.all([
+      this.filesService.getUserStorageStats(userId),
+      this.storageQuotaService.getQuota(userId),
+    ]);
+
+    return { ...stats, quota };
+  }
+
+  /**
+   * Suspend an account: it is signed out everywhere and cannot sign in or use tokens
+   */
+  async suspendUser(
+    adminId: string,
+    userId: string,
+    reason?: string,
+  ): Promise<AdminUserResponseDto> {
+    if (adminId === userId) {
+      throw BusinessException.cannotSuspendSelf();
+    }
+
+    await this.findUser(userId);
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { suspendedAt: new Date(), suspendedReason: reason?.trim() || null },
+      select: ADMIN_USER_SELECT_FIELDS,
+    });
+    await this.sessionsService.revokeAllSessions(userId);
+
+    this.logger.log(SUCCESS_MESSAGES.USER_SUSPENDED, {
+      context: 'AdminService',
+      adminId,
+      userId,
+      reason,
+    });
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Lift a suspension; the user can sign in again
+   */
+  async unsuspendUser(adminId: string, userId: string): Promise<AdminUserResponseDto> {
+    await this.findUser(userId);
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { suspendedAt: null, suspendedReason: null },
+      select: ADMIN_USER_SELECT_FIELDS,
+    });
+
+    this.logger.log(SUCCESS_MESSAGES.USER_UNSUSPENDED, {
+      context: 'AdminService',
+      adminId,
+      userId,
+    });
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Override the storage quota of a user (null restores the plan's quota)
+   */
+  async setStorageQuota(
+    adminId: string,
+    userId: string,
+    storageQuota: number | null,
+  ): Promise<AdminUserResponseDto> {
+    await this.findUser(userId);
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { storageQuota: storageQuota === null ? null : BigInt(storageQuota) },
+      select: ADMIN_USER_SELECT_FIELDS,
+    });
+
+    this.logger.log(SUCCESS_MESSAGES.USER_QUOTA_UPDATED, {
+      context: 'AdminService',
+      adminId,
+      userId,
+      storageQuota,
+    });
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * Put a user on a plan (null for the default plan)
+   */
+  async assignPlan(
+    adminId: string,
+    userId: string,
+    planId: string | null,
+  ): Promise<AdminUserResponseDto> {
+    await this.findUser(userId);
+    if (planId) {
+      await this.findPlan(planId);
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { planId },
+      select: ADMIN_USER_SELECT_FIELDS,
+    });
+
+    this.logger.log(SUCCESS_MESSAGES.USER_PLAN_UPDATED, {
+      context: 'AdminService',
+      adminId,
+      userId,
+      planId,
+    });
+
+    return this.toResponse(user);
+  }
+
+  /**
+   * All plans, default first
+   */
+  async listPlans(): Promise<PlanResponseDto[]> {
+    const plans = await this.prisma.plan.findMany({
+      select: PLAN_SELECT_FIELDS,
+      orderBy: [{ isDefault: 'desc' }, { storageQuota: 'asc' }],
+    });
+    return plans.map((plan) => this.toPlanResponse(plan));
+  }
+
+  /**
+   * Create a plan; making it the default takes that flag from the current default
+   */
+  async createPlan(adminId: string, dto: CreatePlanDto): Promise<PlanResponseDto> {
+    const plan = await this.savePlan(dto.name, (tx) =>
+      tx.plan.create({
+        data: {
+          name: dto.name.trim(),
+          storageQuota: BigInt(dto.storageQuota),
+          maxFileSize: BigInt(dto.maxFileSize),
+          maxVersions: dto.maxVersions,
+          allowedFileTypes: dto.allowedFileTypes,
+          isDefault: dto.isDefault ?? false,
+        },
+        select: PLAN_SELECT_FIELDS,
+      }),
+      dto.isDefault,
+    );
+
+    this.logger.log(SUCCESS_MESSAGES.PLAN_CREATED, {
+      context: 'AdminService',
+      adminId,
+      planId: plan.id,
+      name: plan.name,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Update a plan; the new limits apply to its users right away
+   */
+  async updatePlan(adminId: string, planId: string, dto: UpdatePlanDto): Promise<PlanResponseDto> {
+    await this.findPlan(planId);
+
+    const plan = await this.savePlan(dto.name, (tx) =>
+      tx.plan.update({
+        where: { id: planId },
+        data: {
+          ...(dto.name !== undefined && { name: dto.name.trim() }),
+          ...(dto.storageQuota !== undefined && { storageQuota: BigInt(dto.storageQuota) }),
+          ...(dto.maxFileSize !== undefined && { maxFileSize: BigInt(dto.maxFileSize) }),
+          ...(dto.maxVersions !== undefined && { maxVersions: dto.maxVersions }),
+          ...(dto.allowedFileTypes !== undefined && { allowedFileTypes: dto.allowedFileTypes }),
+          ...(dto.isDefault && { isDefault: true }),
+        },
+        select: PLAN_SELECT_FIELDS,
+      }),
+      dto.isDefault,
+    );
+
+    this.logger.log(SUCCESS_MESSAGES.PLAN_UPDATED, {
+      context: 'AdminService',
+      adminId,
+      planId,
+      changes: Object.keys(dto),
+    });
+
+    return plan;
+  }
+
+  /**
+   * Permanently delete any file, bypassing the trash
+   */
+  async forceDeleteFile(adminId: string, fileId: string): Promise<void> {
+    const file = await this.filesService.forceDeleteFile(fileId);
+
+    this.logger.log(SUCCESS_MESSAGES.FILE_FORCE_DELETED, {
+      context: 'AdminService',
+      adminId,
+      fileId,
+      ownerId: file.userId,
+      fileName: file.name,
+    });
+  }
+
+  private async findUser(userId: string): Promise<AdminUserRecord> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId, ...withTrashed() },
+      select: ADMIN_USER_SELECT_FIELDS,
+    });
+
+    if (!user) {
+      this.logger.warn('User not found', {
+        context: 'AdminService',
+        userId,
+        errorCode: 'USER_NOT_FOUND',
+      });
+      throw BusinessException.userNotFound(userId);
+    }
+    return user;
+  }
+
+  /**
+   * Write a plan, clearing the previous default first when this one becomes the default
+   */
+  private async savePlan(
+    name: string | undefined,
+    write: (tx: Prisma.TransactionClient) => Promise<PlanRecord>,
+    makeDefault?: boolean,
+  ): Promise<PlanResponseDto> {
+    try {
+      const plan = await this.prisma.$transaction(async (tx) => {
+        if (makeDefault) {
+          await tx.plan.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+        }
+        return write(tx);
+      });
+      return this.toPlanResponse(plan);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw BusinessException.planNameConflict(name ?? '');
+      }
+      throw error;
+    }
+  }
+
+  private async findPlan(planId: string): Promise<void> {
+    const plan = await this.prisma.plan.findUnique({ where: { id: planId }, select: { id: true } });
+    if (!plan) {
+      throw BusinessException.planNotFound(planId);
+    }
+  }
+
+  /**
+   * Translate listing filters into a where clause. `deletedAt` is always set explicitly
+   * so the soft-delete extension leaves deleted accounts to the status filter.
+   */
+  private buildUserListingWhere(query: ListUsersQueryDto): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = {
+      deletedAt: query.status === 'deleted' ? { not: null } : null,
+      ...(query.status === 'active' && { suspendedAt: null }),
+      ...(query.status === 'suspended' && { suspendedAt: { not: null } }),
+      ...(query.role && { role: query.role }),
+    };
+
+    const search = query.search?.trim();
+    if (search) {
+      where.OR = [
+        { email: { contains: search, mode: 'insensitive' } },
+        { name: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    return where;
+  }
+
+  /**
+   * BigInt quotas are not JSON serializable
+   */
+  private toResponse(user: AdminUserRecord): AdminUserResponseDto {
+    return {
+      ...user,
+      storageQuota: user.storageQuota === null ? null : Number(user.storageQuota),
+    };
+  }
+
+  private toPlanResponse(plan: PlanRecord): PlanResponseDto {
+    return {
+      ...plan,
+      storageQuota: Number(plan.storageQuota),
+      maxFileSize: Number(plan.maxFileSize),
+    };
+  }
+}
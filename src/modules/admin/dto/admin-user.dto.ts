@@ -0,0 +1,143 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { PAGINATION } from '../../../common/constants';
+
+export type AdminUserStatus = 'active' | 'suspended' | 'deleted';
+
+export class ListUsersQueryDto {
+  @ApiProperty({
+    description: 'Cursor returned as `meta.nextCursor` by the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Number of users per page',
+    default: PAGINATION.DEFAULT_LIMIT,
+    maximum: PAGINATION.MAX_LIMIT,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(PAGINATION.MAX_LIMIT)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Case-insensitive match on email or name',
+    example: 'john',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  @ApiProperty({
+    description: 'Filter by role',
+    enum: UserRole,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(Object.values(UserRole))
+  role?: UserRole;
+
+  @ApiProperty({
+    description: 'Filter by account status; deleted accounts are only listed when asked for',
+    enum: ['active', 'suspended', 'deleted'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['active', 'suspended', 'deleted'])
+  status?: AdminUserStatus;
+}
+
+export class SuspendUserDto {
+  @ApiProperty({
+    description: 'Reason recorded with the suspension',
+    example: 'Terms of service violation',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class UpdateUserQuotaDto {
+  @ApiProperty({
+    description: "Storage quota in bytes; null restores the plan's quota",
+    example: 53687091200,
+    nullable: true,
+  })
+  @ValidateIf((dto: UpdateUserQuotaDto) => dto.storageQuota !== null)
+  @IsInt()
+  @Min(0)
+  storageQuota: number | null;
+}
+
+export class AdminUserResponseDto {
+  @ApiProperty({
+    description: 'User ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'User email address', example: 'user@example.com' })
+  email: string;
+
+  @ApiProperty({ description: 'User name', example: 'John Doe', nullable: true })
+  name: string | null;
+
+  @ApiProperty({ description: 'User role', enum: UserRole, example: UserRole.USER })
+  role: UserRole;
+
+  @ApiProperty({
+    description: 'When the email address was verified',
+    example: '2024-02-16T00:05:00.000Z',
+    nullable: true,
+  })
+  emailVerifiedAt: Date | null;
+
+  @ApiProperty({ description: 'When the account was suspended', example: null, nullable: true })
+  suspendedAt: Date | null;
+
+  @ApiProperty({ description: 'Why the account was suspended', example: null, nullable: true })
+  suspendedReason: string | null;
+
+  @ApiProperty({
+    description: "Storage quota override in bytes, null when the plan's quota applies",
+    example: null,
+    nullable: true,
+  })
+  storageQuota: number | null;
+
+  @ApiProperty({
+    description: 'Assigned plan, null for the default plan',
+    example: null,
+    nullable: true,
+  })
+  planId: string | null;
+
+  @ApiProperty({ description: 'Creation date', example: '2024-02-16T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the account was deleted (pending purge)',
+    example: null,
+    nullable: true,
+  })
+  deletedAt: Date | null;
+}
@@ -0,0 +1,161 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { PLAN } from '../../../common/constants';
+
+export class CreatePlanDto {
+  @ApiProperty({ description: 'Unique plan name', example: 'Pro' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Storage quota in bytes', example: 107374182400 })
+  @IsInt()
+  @Min(0)
+  storageQuota: number;
+
+  @ApiProperty({
+    description: 'Largest file that can be uploaded, in bytes',
+    example: 1073741824,
+    maximum: PLAN.MAX_FILE_SIZE_LIMIT,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(PLAN.MAX_FILE_SIZE_LIMIT)
+  maxFileSize: number;
+
+  @ApiProperty({ description: 'Previous versions kept per file', example: 50 })
+  @IsInt()
+  @Min(0)
+  maxVersions: number;
+
+  @ApiProperty({
+    description: 'File type groups that can be uploaded',
+    enum: PLAN.FILE_TYPES,
+    isArray: true,
+    example: ['image', 'video', 'document', 'archive'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(PLAN.FILE_TYPES, { each: true })
+  allowedFileTypes: string[];
+
+  @ApiProperty({
+    description: 'Make this the plan of users without one (replaces the current default)',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdatePlanDto {
+  @ApiProperty({ description: 'Unique plan name', example: 'Pro', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ description: 'Storage quota in bytes', example: 107374182400, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  storageQuota?: number;
+
+  @ApiProperty({
+    description: 'Largest file that can be uploaded, in bytes',
+    example: 1073741824,
+    maximum: PLAN.MAX_FILE_SIZE_LIMIT,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(PLAN.MAX_FILE_SIZE_LIMIT)
+  maxFileSize?: number;
+
+  @ApiProperty({ description: 'Previous versions kept per file', example: 50, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxVersions?: number;
+
+  @ApiProperty({
+    description: 'File type groups that can be uploaded',
+    enum: PLAN.FILE_TYPES,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(PLAN.FILE_TYPES, { each: true })
+  allowedFileTypes?: string[];
+
+  @ApiProperty({
+    description: 'Make this the default plan; the default can only be moved, not unset',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn([true])
+  isDefault?: boolean;
+}
+
+export class AssignPlanDto {
+  @ApiProperty({
+    description: 'Plan to assign; null puts the user on the default plan',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @ValidateIf((dto: AssignPlanDto) => dto.planId !== null)
+  @IsUUID()
+  planId: string | null;
+}
+
+export class PlanResponseDto {
+  @ApiProperty({ description: 'Plan ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ description: 'Plan name', example: 'Free' })
+  name: string;
+
+  @ApiProperty({ description: 'Storage quota in bytes', example: 10737418240 })
+  storageQuota: number;
+
+  @ApiProperty({ description: 'Largest file that can be uploaded, in bytes', example: 524288000 })
+  maxFileSize: number;
+
+  @ApiProperty({ description: 'Previous versions kept per file', example: 10 })
+  maxVersions: number;
+
+  @ApiProperty({
+    description: 'File type groups that can be uploaded',
+    example: ['image', 'video', 'document', 'archive'],
+  })
+  allowedFileTypes: string[];
+
+  @ApiProperty({ description: 'Plan of users without one', example: true })
+  isDefault: boolean;
+
+  @ApiProperty({ description: 'Creation date', example: '2024-02-16T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last update date', example: '2024-02-16T00:00:00.000Z' })
+  updatedAt: Date;
+}
@@ -1,28 +1,186 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  Headers,
+  Ip,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
-import { AuthResponseDto } from './dto/auth-response.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { UnlockAccountDto } from './dto/unlock-account.dto';
+import { ConfirmEmailChangeDto } from './dto/confirm-email-change.dto';
+import { RestoreAccountDto } from './dto/restore-account.dto';
+import { TwoFactorLoginDto } from './dto/two-factor.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-response.dto';
+import { AuthResponseDto, AuthTokensDto } from './dto/auth-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
 import { BaseResponseDto } from '../../common/dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { SUCCESS_MESSAGES } from '../../common/constants';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   @Post('register')
-  async register(@Body() registerDto: RegisterDto): Promise<BaseResponseDto<AuthResponseDto>> {
-    const data = await this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<BaseResponseDto<AuthResponseDto>> {
+    const data = await this.authService.register(registerDto, { ipAddress, userAgent });
     return new BaseResponseDto(data, 'User registered successfully');
   }
 
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  async login(@Body() loginDto: LoginDto): Promise<BaseResponseDto<AuthResponseDto>> {
-    const data = await this.authService.login(loginDto);
+  @ApiOperation({
+    summary: 'Log in with email and password',
+    description:
+      'Accounts with two-factor authentication get a challenge token instead of tokens; complete the login at POST /auth/login/2fa. ' +
+      'Repeated failures are answered with 429 (retry later) or 423 (account locked); both carry a Retry-After header.',
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<BaseResponseDto<AuthResponseDto | TwoFactorChallengeDto>> {
+    const data = await this.authService.login(loginDto, { ipAddress, userAgent });
+    if ('twoFactorRequired' in data) {
+      return new BaseResponseDto(data, 'Two-factor authentication required');
+    }
     return new BaseResponseDto(data, 'User logged in successfully');
   }
-}
 
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a two-factor login with a TOTP or recovery code' })
+  async loginWithTwoFactor(
+    @Body() dto: TwoFactorLoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<BaseResponseDto<AuthResponseDto>> {
+    const data = await this.authService.loginWithTwoFactor(dto, { ipAddress, userAgent });
+    return new BaseResponseDto(data, 'User logged in successfully');
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange a refresh token for a new access and refresh token' })
+  async refresh(
+    @Body() dto: RefreshTokenDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<BaseResponseDto<AuthTokensDto>> {
+    const data = await this.authService.refresh(dto.refreshToken, { ipAddress, userAgent });
+    return new BaseResponseDto(data, SUCCESS_MESSAGES.TOKEN_REFRESHED);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke the current session' })
+  async logout(@CurrentUser() user: any): Promise<BaseResponseDto<null>> {
+    await this.authService.logout(user.id, user.sessionId);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.USER_LOGGED_OUT);
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm the email address with the token from the verification email' })
+  async verifyEmail(@Body() dto: VerifyEmailDto): Promise<BaseResponseDto<null>> {
+    await this.authService.verifyEmail(dto.token);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.EMAIL_VERIFIED);
+  }
+
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a new verification email to the current user' })
+  async resendVerificationEmail(@CurrentUser() user: any): Promise<BaseResponseDto<null>> {
+    await this.authService.resendVerificationEmail(user.id);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.VERIFICATION_EMAIL_SENT);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Email a password reset link' })
+  async forgotPassword(@Body() dto: ForgotPasswordDto): Promise<BaseResponseDto<null>> {
+    await this.authService.forgotPassword(dto.email);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.PASSWORD_RESET_REQUESTED);
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set a new password with the token from the reset email' })
+  async resetPassword(@Body() dto: ResetPasswordDto): Promise<BaseResponseDto<null>> {
+    await this.authService.resetPassword(dto.token, dto.password);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.PASSWORD_RESET);
+  }
+
+  @Post('unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlock an account with the token from the account locked email' })
+  async unlockAccount(@Body() dto: UnlockAccountDto): Promise<BaseResponseDto<null>> {
+    await this.authService.unlockAccount(dto.token);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.ACCOUNT_UNLOCKED);
+  }
+
+  @Post('confirm-email-change')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Switch to the new email address with the token sent there' })
+  async confirmEmailChange(@Body() dto: ConfirmEmailChangeDto): Promise<BaseResponseDto<null>> {
+    await this.authService.confirmEmailChange(dto.token);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.EMAIL_CHANGED);
+  }
+
+  @Post('restore-account')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a deleted account during the grace period' })
+  async restoreAccount(@Body() dto: RestoreAccountDto): Promise<BaseResponseDto<null>> {
+    await this.authService.restoreAccount(dto.token);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.ACCOUNT_RESTORED);
+  }
 
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List active sessions of the current user' })
+  async getSessions(@CurrentUser() user: any): Promise<BaseResponseDto<SessionResponseDto[]>> {
+    const data = await this.sessionsService.listSessions(user.id, user.sessionId);
+    return new BaseResponseDto(data, 'Sessions retrieved successfully');
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a session, signing that device out' })
+  async revokeSession(
+    @Param('id') sessionId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.sessionsService.revokeSession(sessionId, user.id);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.SESSION_REVOKED);
+  }
+}
@@ -1,11 +1,18 @@
 import { Module } from '@nestjs/common';
-import { JwtModule, JwtModuleOptions } from '@nestjs/jwt';
+import { JwtModule, JwtModuleOptions, JwtSignOptions } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
+import { TwoFactorController } from './two-factor.controller';
 import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { UserTokensService } from './user-tokens.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { PersonalAccessTokenStrategy } from './strategies/personal-access-token.strategy';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { JWT_CONSTANTS } from '../../common/constants';
 
 @Module({
   imports: [
@@ -16,14 +23,23 @@ import { PrismaModule } from '../../prisma/prisma.module';
       useFactory: (configService: ConfigService): JwtModuleOptions => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          expiresIn: configService.get<number>('JWT_EXPIRES_IN') || 7 * 24 * 60 * 60,
+          expiresIn: (configService.get<string>('JWT_EXPIRES_IN') ||
+            JWT_CONSTANTS.DEFAULT_EXPIRES_IN) as JwtSignOptions['expiresIn'],
         },
       }),
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  controllers: [AuthController, TwoFactorController],
+  providers: [
+    AuthService,
+    SessionsService,
+    UserTokensService,
+    TwoFactorService,
+    LoginThrottleService,
+    JwtStrategy,
+    PersonalAccessTokenStrategy,
+  ],
+  exports: [AuthService, SessionsService],
 })
 export class AuthModule {}
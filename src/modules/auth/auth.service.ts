@@ -1,32 +1,54 @@
 import {
   Injectable,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, UserTokenType } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 import { PrismaService } from '../../prisma/prisma.service';
+import { withTrashed } from '../../prisma/extensions';
 import { LoggerService, LogContext } from '../../common/logger/logger.service';
-import { SUCCESS_MESSAGES, SYSTEM } from '../../common/constants';
-import { BusinessException } from '../../common/exceptions';
+import { MailerService } from '../../common/mailer/mailer.service';
+import { ERROR_CODES, SUCCESS_MESSAGES, SYSTEM, USER_TOKEN } from '../../common/constants';
+import { AppException, BusinessException } from '../../common/exceptions';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
-import { AuthResponseDto } from './dto/auth-response.dto';
+import { AuthResponseDto, AuthTokensDto } from './dto/auth-response.dto';
+import { ClientInfo, SessionsService } from './sessions.service';
+import { UserTokensService } from './user-tokens.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorLoginDto } from './dto/two-factor.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-response.dto';
+import {
+  accountDeletionEmail,
+  accountLockedEmail,
+  emailChangeEmail,
+  emailChangeNoticeEmail,
+  passwordResetEmail,
+  verificationEmail,
+} from './templates/auth-mail.templates';
 
 @Injectable()
 export class AuthService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly userTokensService: UserTokensService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly mailerService: MailerService,
+    private readonly configService: ConfigService,
     private readonly logger: LoggerService,
   ) {}
 
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(registerDto: RegisterDto, client: ClientInfo): Promise<AuthResponseDto> {
     const { email, password, name } = registerDto;
 
     this.logger.logAuth('User registration attempt', undefined, { email });
 
-    // Check if user already exists
+    // Check if user already exists, including accounts pending deletion
     const existingUser = await this.prisma.user.findUnique({
-      where: { email },
+      where: { email, ...withTrashed() },
     });
 
     if (existingUser) {
@@ -52,26 +74,41 @@ export class AuthService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
       },
     });
 
     this.logger.logAuth(SUCCESS_MESSAGES.USER_REGISTERED, user.id, { email });
 
-    // Generate JWT token
-    const accessToken = this.generateToken(user.id, user.email);
+    // Registration succeeds even if the mail cannot be delivered; the user can ask for a new one
+    await this.sendVerificationEmail(user).catch((error) =>
+      this.logger.errorAuth('Failed to send verification email', error.stack, user.id),
+    );
+
+    // Open a session for the new user
+    const tokens = await this.sessionsService.createSession(user, client);
 
     return {
-      accessToken,
+      ...tokens,
       user,
     };
   }
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  /**
+   * Check the password. Users with 2FA get a challenge to complete at /auth/login/2fa
+   * instead of tokens. Failures count towards the brute-force limits.
+   */
+  async login(
+    loginDto: LoginDto,
+    client: ClientInfo,
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
     const { email, password } = loginDto;
 
     this.logger.logAuth('User login attempt', undefined, { email });
 
+    await this.loginThrottle.assertCanAttempt(email, client.ipAddress);
+
     // Find user
     const user = await this.prisma.user.findUnique({
       where: { email },
@@ -83,6 +120,7 @@ export class AuthService {
         email,
         errorCode: 'AUTH_INVALID_CREDENTIALS'
       });
+      await this.handleLoginFailure(email, null, client);
       throw BusinessException.invalidCredentials();
     }
 
@@ -96,25 +134,489 @@ export class AuthService {
         userId: user.id,
         errorCode: 'AUTH_INVALID_CREDENTIALS'
       });
+      await this.handleLoginFailure(email, user, client);
       throw BusinessException.invalidCredentials();
     }
 
-    this.logger.logAuth(SUCCESS_MESSAGES.USER_LOGGED_IN, user.id, { email });
+    this.assertNotSuspended(user);
+
+    if (user.twoFactorEnabledAt) {
+      this.logger.logAuth('Password accepted, second factor required', user.id, { email });
+      return {
+        twoFactorRequired: true,
+        challengeToken: this.twoFactorService.createChallenge(user.id),
+      };
+    }
+
+    return this.completeLogin(user, client);
+  }
+
+  /**
+   * Second login step: exchange the challenge and a TOTP or recovery code for tokens
+   */
+  async loginWithTwoFactor(dto: TwoFactorLoginDto, client: ClientInfo): Promise<AuthResponseDto> {
+    const userId = this.twoFactorService.verifyChallenge(dto.challengeToken);
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw BusinessException.twoFactorChallengeInvalid();
+    }
+    this.assertNotSuspended(user);
+
+    // Wrong codes count like wrong passwords, so the code cannot be guessed either
+    await this.loginThrottle.assertCanAttempt(user.email, client.ipAddress);
+    try {
+      await this.twoFactorService.verifyLoginFactor(userId, dto);
+    } catch (error) {
+      if (error instanceof AppException && error.code === ERROR_CODES.AUTH_2FA_CODE_INVALID) {
+        await this.handleLoginFailure(user.email, user, client);
+      }
+      throw error;
+    }
+
+    return this.completeLogin(user, client);
+  }
+
+  /**
+   * Lift a lockout with the token from the account locked email
+   */
+  async unlockAccount(token: string): Promise<void> {
+    const userId = await this.userTokensService.consume(token, UserTokenType.ACCOUNT_UNLOCK);
+
+    if (!userId) {
+      this.logger.warn('Account unlock failed: invalid token', {
+        context: LogContext.AUTH,
+        errorCode: 'AUTH_UNLOCK_TOKEN_INVALID',
+      });
+      throw BusinessException.unlockTokenInvalid();
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+    if (!user) {
+      throw BusinessException.unlockTokenInvalid();
+    }
+
+    await this.loginThrottle.unlock(user.email);
+
+    this.logger.logAuth(SUCCESS_MESSAGES.ACCOUNT_UNLOCKED, userId);
+  }
+
+  /**
+   * Confirm the user's email address with the token from the verification email
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.userTokensService.consume(token, UserTokenType.EMAIL_VERIFICATION);
+
+    if (!userId) {
+      this.logger.warn('Email verification failed: invalid token', {
+        context: LogContext.AUTH,
+        errorCode: 'AUTH_VERIFICATION_TOKEN_INVALID',
+      });
+      throw BusinessException.verificationTokenInvalid();
+    }
+
+    await this.prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    this.logger.logAuth(SUCCESS_MESSAGES.EMAIL_VERIFIED, userId);
+  }
+
+  /**
+   * Send a fresh verification email to a user who has not verified yet
+   */
+  async resendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, emailVerifiedAt: true },
+    });
+
+    if (!user) {
+      throw BusinessException.userNotFound(userId);
+    }
+    if (user.emailVerifiedAt) {
+      throw BusinessException.emailAlreadyVerified();
+    }
+
+    await this.sendVerificationEmail(user);
+  }
 
-    // Generate JWT token
-    const accessToken = this.generateToken(user.id, user.email);
+  /**
+   * Email a password reset link. The outcome is the same whether or not the account
+   * exists so the endpoint cannot be used to discover registered emails.
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (!user) {
+      this.logger.logAuth('Password reset requested for unknown email', undefined, { email });
+      return;
+    }
+
+    const ttlMinutes =
+      this.configService.get<number>('authConfig.passwordResetTtlMinutes') ??
+      USER_TOKEN.DEFAULT_PASSWORD_RESET_TTL_MINUTES;
+    const token = await this.userTokensService.issue(
+      user.id,
+      UserTokenType.PASSWORD_RESET,
+      ttlMinutes * 60 * 1000,
+    );
+
+    try {
+      await this.mailerService.send(
+        passwordResetEmail(
+          user.email,
+          user.name,
+          this.buildClientLink('reset-password', token),
+          ttlMinutes,
+        ),
+      );
+      this.logger.logAuth('Password reset email sent', user.id);
+    } catch (error) {
+      this.logger.errorAuth('Failed to send password reset email', error.stack, user.id);
+    }
+  }
+
+  /**
+   * Set a new password with the token from the reset email. Every existing session
+   * is revoked so a compromised device is signed out.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await this.userTokensService.consume(token, UserTokenType.PASSWORD_RESET);
+
+    if (!userId) {
+      this.logger.warn('Password reset failed: invalid token', {
+        context: LogContext.AUTH,
+        errorCode: 'AUTH_PASSWORD_RESET_TOKEN_INVALID',
+      });
+      throw BusinessException.passwordResetTokenInvalid();
+    }
+
+    const password = await this.hashPassword(newPassword);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({ where: { id: userId }, data: { password } }),
+      // Receiving the email also proves ownership of the address
+      this.prisma.user.updateMany({
+        where: { id: userId, emailVerifiedAt: null },
+        data: { emailVerifiedAt: new Date() },
+      }),
+    ]);
+    await this.sessionsService.revokeAllSessions(userId);
+
+    this.logger.logAuth(SUCCESS_MESSAGES.PASSWORD_RESET, userId);
+  }
+
+  /**
+   * Start an email change. The new address only replaces the current one once the user
+   * confirms it from the email sent there; the current address is notified.
+   */
+  async requestEmailChange(
+    user: { id: string; email: string; name: string | null },
+    newEmail: string,
+  ): Promise<void> {
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: newEmail, ...withTrashed() },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      this.logger.warn('Email change failed: Email already exists', {
+        context: LogContext.AUTH,
+        userId: user.id,
+        email: newEmail,
+        errorCode: 'AUTH_EMAIL_EXISTS',
+      });
+      throw BusinessException.emailExists(newEmail);
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { pendingEmail: newEmail },
+    });
+
+    const ttlHours =
+      this.configService.get<number>('authConfig.emailVerificationTtlHours') ??
+      USER_TOKEN.DEFAULT_EMAIL_VERIFICATION_TTL_HOURS;
+    const token = await this.userTokensService.issue(
+      user.id,
+      UserTokenType.EMAIL_CHANGE,
+      ttlHours * 60 * 60 * 1000,
+    );
+
+    await this.mailerService.send(
+      emailChangeEmail(
+        newEmail,
+        user.name,
+        this.buildClientLink('confirm-email-change', token),
+        ttlHours,
+      ),
+    );
+
+    await this.mailerService
+      .send(emailChangeNoticeEmail(user.email, user.name, newEmail))
+      .catch((error) =>
+        this.logger.errorAuth('Failed to send email change notice', error.stack, user.id),
+      );
+
+    this.logger.logAuth(SUCCESS_MESSAGES.EMAIL_CHANGE_REQUESTED, user.id, { newEmail });
+  }
+
+  /**
+   * Apply a pending email change with the token sent to the new address
+   */
+  async confirmEmailChange(token: string): Promise<void> {
+    const userId = await this.userTokensService.consume(token, UserTokenType.EMAIL_CHANGE);
+
+    const user = userId
+      ? await this.prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, email: true, pendingEmail: true },
+        })
+      : null;
+
+    if (!user?.pendingEmail) {
+      this.logger.warn('Email change failed: invalid token', {
+        context: LogContext.AUTH,
+        userId,
+        errorCode: 'AUTH_EMAIL_CHANGE_TOKEN_INVALID',
+      });
+      throw BusinessException.emailChangeTokenInvalid();
+    }
+
+    try {
+      await this.prisma.user.update({
+        where: { id: user.id },
+        // Following the link proves ownership of the new address
+        data: { email: user.pendingEmail, pendingEmail: null, emailVerifiedAt: new Date() },
+      });
+    } catch (error) {
+      // Another account took the address after the change was requested
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw BusinessException.emailExists(user.pendingEmail);
+      }
+      throw error;
+    }
+
+    this.logger.logAuth(SUCCESS_MESSAGES.EMAIL_CHANGED, user.id, {
+      from: user.email,
+      to: user.pendingEmail,
+    });
+  }
+
+  /**
+   * Email the owner of a deleted account a link to restore it during the grace period
+   */
+  async sendAccountDeletionEmail(
+    user: { id: string; email: string; name: string | null },
+    graceDays: number,
+  ): Promise<void> {
+    const token = await this.userTokensService.issue(
+      user.id,
+      UserTokenType.ACCOUNT_RESTORE,
+      graceDays * 24 * 60 * 60 * 1000,
+    );
+
+    await this.mailerService.send(
+      accountDeletionEmail(
+        user.email,
+        user.name,
+        this.buildClientLink('restore-account', token),
+        graceDays,
+      ),
+    );
+
+    this.logger.logAuth('Account deletion email sent', user.id);
+  }
+
+  /**
+   * Undo an account deletion with the token from the deletion email, as long as the
+   * account has not been purged yet
+   */
+  async restoreAccount(token: string): Promise<void> {
+    const userId = await this.userTokensService.consume(token, UserTokenType.ACCOUNT_RESTORE);
+
+    const { count } = userId
+      ? await this.prisma.user.updateMany({
+          where: { id: userId, deletedAt: { not: null } },
+          data: { deletedAt: null },
+        })
+      : { count: 0 };
+
+    if (count === 0) {
+      this.logger.warn('Account restore failed: invalid token', {
+        context: LogContext.AUTH,
+        userId,
+        errorCode: 'AUTH_ACCOUNT_RESTORE_TOKEN_INVALID',
+      });
+      throw BusinessException.accountRestoreTokenInvalid();
+    }
+
+    this.logger.logAuth(SUCCESS_MESSAGES.ACCOUNT_RESTORED, userId);
+  }
+
+  /**
+   * Rotate a refresh token into a new token pair
+   */
+  async refresh(refreshToken: string, client: ClientInfo): Promise<AuthTokensDto> {
+    return this.sessionsService.refresh(refreshToken, client);
+  }
+
+  /**
+   * End the session the request was made with
+   */
+  async logout(userId: string, sessionId: string): Promise<void> {
+    await this.sessionsService.revokeSession(sessionId, userId);
+    this.logger.logAuth(SUCCESS_MESSAGES.USER_LOGGED_OUT, userId, { sessionId });
+  }
+
+  /**
+   * Open a session for a user who passed every login step
+   */
+  private async completeLogin(
+    user: {
+      id: string;
+      email: string;
+      name: string | null;
+      emailVerifiedAt: Date | null;
+      createdAt: Date;
+    },
+    client: ClientInfo,
+  ): Promise<AuthResponseDto> {
+    await this.loginThrottle.recordSuccess(user.email);
+
+    this.logger.logAuth(SUCCESS_MESSAGES.USER_LOGGED_IN, user.id, { email: user.email });
+
+    // Open a session for this device
+    const tokens = await this.sessionsService.createSession(user, client);
 
     return {
-      accessToken,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
+        emailVerifiedAt: user.emailVerifiedAt,
         createdAt: user.createdAt,
       },
     };
   }
 
+  /**
+   * Suspended users cannot sign in, even with the right password
+   */
+  private assertNotSuspended(user: { id: string; suspendedAt: Date | null }): void {
+    if (user.suspendedAt) {
+      this.logger.warn('Login rejected: account suspended', {
+        context: LogContext.AUTH,
+        userId: user.id,
+        errorCode: 'AUTH_ACCOUNT_SUSPENDED',
+      });
+      throw BusinessException.accountSuspended();
+    }
+  }
+
+  /**
+   * Count a failed login step. When it locks the account the owner is emailed an
+   * unlock link and the lockout is reported instead of the bad credentials.
+   */
+  private async handleLoginFailure(
+    email: string,
+    user: { id: string; email: string; name: string | null } | null,
+    client: ClientInfo,
+  ): Promise<void> {
+    const { locked, lockoutMinutes } = await this.loginThrottle.recordFailure(
+      email,
+      client.ipAddress,
+    );
+
+    if (!locked) {
+      return;
+    }
+
+    // Unknown emails are locked too, so a lockout does not reveal whether an account exists
+    if (user) {
+      await this.sendAccountLockedEmail(user, lockoutMinutes).catch((error) =>
+        this.logger.errorAuth('Failed to send account locked email', error.stack, user.id),
+      );
+    }
+
+    throw BusinessException.accountLocked(lockoutMinutes * 60);
+  }
+
+  /**
+   * Issue an unlock token, valid for as long as the lockout lasts, and email it to the user
+   */
+  private async sendAccountLockedEmail(
+    user: { id: string; email: string; name: string | null },
+    lockoutMinutes: number,
+  ): Promise<void> {
+    const token = await this.userTokensService.issue(
+      user.id,
+      UserTokenType.ACCOUNT_UNLOCK,
+      lockoutMinutes * 60 * 1000,
+    );
+
+    await this.mailerService.send(
+      accountLockedEmail(
+        user.email,
+        user.name,
+        this.buildClientLink('unlock-account', token),
+        lockoutMinutes,
+      ),
+    );
+
+    this.logger.logAuth('Account locked email sent', user.id);
+  }
+
+  /**
+   * Issue a verification token and email it to the user
+   */
+  private async sendVerificationEmail(user: {
+    id: string;
+    email: string;
+    name: string | null;
+  }): Promise<void> {
+    const ttlHours =
+      this.configService.get<number>('authConfig.emailVerificationTtlHours') ??
+      USER_TOKEN.DEFAULT_EMAIL_VERIFICATION_TTL_HOURS;
+    const token = await this.userTokensService.issue(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+      ttlHours * 60 * 60 * 1000,
+    );
+
+    await this.mailerService.send(
+      verificationEmail(
+        user.email,
+        user.name,
+        this.buildClientLink('verify-email', token),
+        ttlHours,
+      ),
+    );
+
+    this.logger.logAuth(SUCCESS_MESSAGES.VERIFICATION_EMAIL_SENT, user.id);
+  }
+
+  /**
+   * Link to a page of the web client that submits the token back to the API
+   */
+  private buildClientLink(page: string, token: string): string {
+    const baseUrl =
+      this.configService.get<string>('clientBaseUrl') ||
+      this.configService.get<string>('BASE_URL') ||
+      `http://localhost:${this.configService.get<number>('PORT', 7001)}`;
+
+    return `${baseUrl}/${page}?token=${encodeURIComponent(token)}`;
+  }
+
   /**
    * Hash password using bcrypt
    */
@@ -131,13 +633,5 @@ export class AuthService {
   ): Promise<boolean> {
     return bcrypt.compare(password, hashedPassword);
   }
-
-  /**
-   * Generate JWT access token
-   */
-  private generateToken(userId: string, email: string): string {
-    const payload = { sub: userId, email };
-    return this.jwtService.sign(payload);
-  }
 }
 
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ConfirmEmailChangeDto {
+  @ApiProperty({
+    description: 'Token from the email sent to the new address',
+    example: 'x3Jq9ZkM2bVt7nR1pLw8sYc4dHf6gAe0UoQiTz5KjNm',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token issued at login or by the previous refresh',
+    example: '123e4567-e89b-12d3-a456-426614174000.2q0Vb3nZ8uXq1yTt6mKc9sRfA4wLe7PjHd5GiNoBkUc',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
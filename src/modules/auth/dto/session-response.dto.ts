@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'Session ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'User agent of the client that last used the session',
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_4) AppleWebKit/605.1.15',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: 'IP address of the client that last used the session',
+    example: '203.0.113.42',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({ description: 'Login time', example: '2024-02-16T00:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last token refresh', example: '2024-02-17T08:30:00.000Z' })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    description: 'When the session ends unless it is refreshed',
+    example: '2024-03-17T08:30:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'Whether this is the session making the request', example: true })
+  current: boolean;
+}
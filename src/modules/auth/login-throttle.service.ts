@@ -0,0 +1,191 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CounterStoreService } from '../../common/counter-store/counter-store.service';
+import { LoggerService, LogContext } from '../../common/logger/logger.service';
+import { LOGIN_THROTTLE } from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+
+/**
+ * Outcome of recording a failed login
+ */
+export interface LoginFailureResult {
+  /** The failure locked the account */
+  locked: boolean;
+  lockoutMinutes: number;
+}
+
+/**
+ * Brute-force protection for password and two-factor logins.
+ *
+ * Failures are counted per account (email) and per client IP. After a few failures every
+ * further attempt must wait an exponentially growing delay; an account reaching the maximum
+ * is locked for a while, and an IP reaching its limit is rejected until its window ends.
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    private readonly counterStore: CounterStoreService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Reject the attempt while the account is locked or the account or IP is backing off
+   */
+  async assertCanAttempt(email: string, ipAddress?: string): Promise<void> {
+    const account = this.normalizeEmail(email);
+
+    const lockedForMs = await this.counterStore.ttl(this.key('lock', account));
+    if (lockedForMs > 0) {
+      this.logger.warn('Login rejected: account locked', {
+        context: LogContext.AUTH,
+        email: account,
+        ipAddress,
+        errorCode: 'AUTH_ACCOUNT_LOCKED',
+      });
+      throw BusinessException.accountLocked(this.toSeconds(lockedForMs));
+    }
+
+    const waits = [await this.counterStore.ttl(this.key('backoff', 'account', account))];
+
+    if (ipAddress) {
+      const { limit, windowMs } = this.getIpPolicy();
+      const ipFailuresKey = this.key('failures', 'ip', ipAddress);
+
+      if ((await this.counterStore.get(ipFailuresKey)) >= limit) {
+        waits.push((await this.counterStore.ttl(ipFailuresKey)) || windowMs);
+      } else {
+        waits.push(await this.counterStore.ttl(this.key('backoff', 'ip', ipAddress)));
+      }
+    }
+
+    const waitMs = Math.max(...waits);
+    if (waitMs > 0) {
+      this.logger.warn('Login rejected: too many attempts', {
+        context: LogContext.AUTH,
+        email: account,
+        ipAddress,
+        retryAfterMs: waitMs,
+        errorCode: 'AUTH_TOO_MANY_ATTEMPTS',
+      });
+      throw BusinessException.tooManyLoginAttempts(this.toSeconds(waitMs));
+    }
+  }
+
+  /**
+   * Count a failed attempt against the account and the IP, locking the account when
+   * it reaches the maximum
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<LoginFailureResult> {
+    const account = this.normalizeEmail(email);
+    const { maxFailedAttempts, lockoutMinutes } = this.getAccountPolicy();
+
+    if (ipAddress) {
+      const { windowMs } = this.getIpPolicy();
+      const ipFailures = await this.counterStore.increment(
+        this.key('failures', 'ip', ipAddress),
+        windowMs,
+      );
+      await this.applyBackoff(this.key('backoff', 'ip', ipAddress), ipFailures);
+    }
+
+    const failuresKey = this.key('failures', 'account', account);
+    const backoffKey = this.key('backoff', 'account', account);
+    const accountFailures = await this.counterStore.increment(
+      failuresKey,
+      LOGIN_THROTTLE.FAILURE_WINDOW_MINUTES * 60 * 1000,
+    );
+
+    if (accountFailures < maxFailedAttempts) {
+      await this.applyBackoff(backoffKey, accountFailures);
+      return { locked: false, lockoutMinutes };
+    }
+
+    await this.counterStore.set(this.key('lock', account), 1, lockoutMinutes * 60 * 1000);
+    await this.counterStore.delete(failuresKey, backoffKey);
+
+    this.logger.warn('Account locked after repeated login failures', {
+      context: LogContext.AUTH,
+      email: account,
+      ipAddress,
+      failures: accountFailures,
+      lockoutMinutes,
+      errorCode: 'AUTH_ACCOUNT_LOCKED',
+    });
+
+    return { locked: true, lockoutMinutes };
+  }
+
+  /**
+   * Forget the account's failures after a successful login. IP counters are kept so
+   * one valid account cannot be used to reset guessing against others.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    const account = this.normalizeEmail(email);
+    await this.counterStore.delete(
+      this.key('failures', 'account', account),
+      this.key('backoff', 'account', account),
+    );
+  }
+
+  /**
+   * Lift a lockout and clear the account's failures
+   */
+  async unlock(email: string): Promise<void> {
+    const account = this.normalizeEmail(email);
+    await this.counterStore.delete(
+      this.key('lock', account),
+      this.key('failures', 'account', account),
+      this.key('backoff', 'account', account),
+    );
+  }
+
+  /**
+   * Make the next attempt wait, doubling the delay with every failure past the free ones
+   */
+  private async applyBackoff(key: string, failures: number): Promise<void> {
+    const exponent = failures - LOGIN_THROTTLE.BACKOFF_FREE_ATTEMPTS;
+    if (exponent < 0) {
+      return;
+    }
+
+    const delayMs = Math.min(
+      LOGIN_THROTTLE.BACKOFF_BASE_MS * 2 ** exponent,
+      LOGIN_THROTTLE.BACKOFF_MAX_MS,
+    );
+    await this.counterStore.set(key, 1, delayMs);
+  }
+
+  private getAccountPolicy(): { maxFailedAttempts: number; lockoutMinutes: number } {
+    return {
+      maxFailedAttempts:
+        this.configService.get<number>('authConfig.maxFailedLoginAttempts') ??
+        LOGIN_THROTTLE.DEFAULT_MAX_FAILED_ATTEMPTS,
+      lockoutMinutes:
+        this.configService.get<number>('authConfig.loginLockoutMinutes') ??
+        LOGIN_THROTTLE.DEFAULT_LOCKOUT_MINUTES,
+    };
+  }
+
+  /**
+   * Failed logins allowed per IP within the throttle window
+   */
+  private getIpPolicy(): { limit: number; windowMs: number } {
+    return {
+      limit: this.configService.get<number>('throttleConfig.limit') ?? 10,
+      windowMs: (this.configService.get<number>('throttleConfig.ttl') ?? 60) * 1000,
+    };
+  }
+
+  private key(...parts: string[]): string {
+    return [LOGIN_THROTTLE.KEY_PREFIX, ...parts].join(':');
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private toSeconds(ms: number): number {
+    return Math.max(Math.ceil(ms / 1000), 1);
+  }
+}
@@ -0,0 +1,261 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService, LogContext } from '../../common/logger/logger.service';
+import { SESSION, SESSION_SELECT_FIELDS, SUCCESS_MESSAGES } from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { addDays } from '../../common/utils/date.util';
+import { generateSecureToken, hashToken } from '../../common/utils/string.util';
+import { JwtPayload } from './strategies/jwt.strategy';
+import { AuthTokensDto } from './dto/auth-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+
+/**
+ * Client details recorded on a session so users can recognise their devices
+ */
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Login sessions backed by rotating refresh tokens.
+ *
+ * A refresh token is `<sessionId>.<secret>` and only the SHA-256 of the latest one is
+ * stored. Every refresh replaces it, so an older token of a still-active session can only
+ * be a replay of a stolen token: the whole session is revoked when that happens.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Open a new session and issue its first token pair
+   */
+  async createSession(
+    user: { id: string; email: string },
+    client: ClientInfo,
+  ): Promise<AuthTokensDto> {
+    const { secret, hash } = this.generateSecret();
+
+    const session = await this.prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hash,
+        userAgent: client.userAgent ?? null,
+        ipAddress: client.ipAddress ?? null,
+        expiresAt: this.getRefreshTokenExpiry(),
+      },
+      select: { id: true },
+    });
+
+    return {
+      accessToken: this.generateAccessToken(user.id, user.email, session.id),
+      refreshToken: `${session.id}.${secret}`,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, rotating the refresh token
+   */
+  async refresh(refreshToken: string, client: ClientInfo): Promise<AuthTokensDto> {
+    const { sessionId, secret: presentedSecret } = this.parseRefreshToken(refreshToken);
+    const now = new Date();
+    const { secret, hash } = this.generateSecret();
+
+    // Rotate only if the presented token is the current one of a live session
+    const { count } = await this.prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        refreshTokenHash: hashToken(presentedSecret),
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+      data: {
+        refreshTokenHash: hash,
+        lastUsedAt: now,
+        ...(client.userAgent && { userAgent: client.userAgent }),
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      },
+    });
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        revokedAt: true,
+        expiresAt: true,
+        user: { select: { id: true, email: true, deletedAt: true, suspendedAt: true } },
+      },
+    });
+
+    if (count === 0) {
+      if (session && !session.revokedAt && session.expiresAt > now) {
+        await this.revokeById(sessionId);
+        this.logger.warn('Refresh token reuse detected, session revoked', {
+          context: LogContext.AUTH,
+          userId: session.user.id,
+          sessionId,
+          ipAddress: client.ipAddress,
+          errorCode: 'AUTH_REFRESH_TOKEN_REUSED',
+        });
+        throw BusinessException.refreshTokenReused(sessionId);
+      }
+
+      this.logger.warn('Refresh failed: invalid or expired token', {
+        context: LogContext.AUTH,
+        sessionId,
+        errorCode: 'AUTH_REFRESH_TOKEN_INVALID',
+      });
+      throw BusinessException.refreshTokenInvalid();
+    }
+
+    // The user may have been deleted or suspended since the session was opened
+    if (!session || session.user.deletedAt) {
+      await this.revokeById(sessionId);
+      throw BusinessException.refreshTokenInvalid();
+    }
+    if (session.user.suspendedAt) {
+      await this.revokeById(sessionId);
+      throw BusinessException.accountSuspended();
+    }
+
+    this.logger.logAuth(SUCCESS_MESSAGES.TOKEN_REFRESHED, session.user.id, { sessionId });
+
+    return {
+      accessToken: this.generateAccessToken(session.user.id, session.user.email, sessionId),
+      refreshToken: `${sessionId}.${secret}`,
+    };
+  }
+
+  /**
+   * List the user's active sessions, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionResponseDto[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: SESSION_SELECT_FIELDS,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Revoke one of the user's sessions; its access and refresh tokens stop working immediately
+   */
+  async revokeSession(sessionId: string, userId: string): Promise<void> {
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      this.logger.warn('Session not found', {
+        context: LogContext.AUTH,
+        userId,
+        sessionId,
+        errorCode: 'AUTH_SESSION_NOT_FOUND',
+      });
+      throw BusinessException.sessionNotFound(sessionId);
+    }
+
+    this.logger.logAuth(SUCCESS_MESSAGES.SESSION_REVOKED, userId, { sessionId });
+  }
+
+  /**
+   * Revoke every active session of the user, e.g. after a password reset
+   * @param exceptSessionId - Session to keep, such as the one changing the password
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const { count } = await this.prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.logAuth('All sessions revoked', userId, { count, exceptSessionId });
+    return count;
+  }
+
+  /**
+   * Whether an access token's session is still live
+   */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true },
+    });
+
+    return !!session && session.userId === userId && !session.revokedAt;
+  }
+
+  /**
+   * Daily removal of sessions that expired or were revoked more than the retention period ago
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM, { name: 'session-cleanup' })
+  async handleSessionCleanup(): Promise<void> {
+    const cutoff = addDays(new Date(), -SESSION.RETENTION_DAYS);
+
+    try {
+      const { count } = await this.prisma.session.deleteMany({
+        where: { OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }] },
+      });
+
+      this.logger.log('Session cleanup completed', {
+        context: LogContext.AUTH,
+        removedCount: count,
+      });
+    } catch (error) {
+      this.logger.error('Session cleanup failed', error.stack, { context: LogContext.AUTH });
+    }
+  }
+
+  private async revokeById(sessionId: string): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Split a refresh token into the session it claims and its secret
+   */
+  private parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } {
+    const separator = refreshToken.indexOf('.');
+    if (separator <= 0 || separator === refreshToken.length - 1) {
+      throw BusinessException.refreshTokenInvalid();
+    }
+    return {
+      sessionId: refreshToken.slice(0, separator),
+      secret: refreshToken.slice(separator + 1),
+    };
+  }
+
+  private generateSecret(): { secret: string; hash: string } {
+    const secret = generateSecureToken(SESSION.REFRESH_TOKEN_BYTES);
+    return { secret, hash: hashToken(secret) };
+  }
+
+  private generateAccessToken(userId: string, email: string, sessionId: string): string {
+    const payload: JwtPayload = { sub: userId, email, sid: sessionId };
+    return this.jwtService.sign(payload);
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    const ttlDays =
+      this.configService.get<number>('sessionConfig.refreshTokenTtlDays') ??
+      SESSION.DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+    return addDays(new Date(), ttlDays);
+  }
+}
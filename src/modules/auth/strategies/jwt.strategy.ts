@@ -3,10 +3,14 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../../prisma/prisma.service';
+import { ERROR_MESSAGES, USER_PROFILE_SELECT_FIELDS } from '../../../common/constants';
+import { BusinessException } from '../../../common/exceptions';
+import { SessionsService } from '../sessions.service';
 
 export interface JwtPayload {
   sub: string;
   email: string;
+  sid: string; // Session the token was issued for
 }
 
 @Injectable()
@@ -14,6 +18,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -23,21 +28,33 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: JwtPayload) {
-    const user = await this.prisma.user.findUnique({
-      where: { id: payload.sub },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        createdAt: true,
-      },
-    });
+    // Tokens issued before sessions existed carry no session and cannot be revoked
+    if (!payload.sid) {
+      throw new UnauthorizedException(ERROR_MESSAGES.TOKEN_INVALID);
+    }
+
+    const [user, sessionActive] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: payload.sub },
+        select: { ...USER_PROFILE_SELECT_FIELDS, suspendedAt: true },
+      }),
+      this.sessionsService.isSessionActive(payload.sid, payload.sub),
+    ]);
 
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
 
-    return user;
+    if (!sessionActive) {
+      throw new UnauthorizedException(ERROR_MESSAGES.SESSION_REVOKED);
+    }
+
+    if (user.suspendedAt) {
+      throw BusinessException.accountSuspended();
+    }
+
+    const { suspendedAt, ...profile } = user;
+    return { ...profile, sessionId: payload.sid };
   }
 }
 
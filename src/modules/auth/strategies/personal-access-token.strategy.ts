@@ -0,0 +1,71 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-http-bearer';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ERROR_MESSAGES, PERSONAL_ACCESS_TOKEN } from '../../../common/constants';
+import { BusinessException } from '../../../common/exceptions';
+import { hashToken } from '../../../common/utils/string.util';
+
+@Injectable()
+export class PersonalAccessTokenStrategy extends PassportStrategy(Strategy, 'personal-access-token') {
+  constructor(private prisma: PrismaService) {
+    super();
+  }
+
+  async validate(token: string) {
+    // Not a personal access token (e.g. an expired JWT): fail without an error so
+    // the guard reports the usual 401
+    if (!token.startsWith(PERSONAL_ACCESS_TOKEN.PREFIX)) {
+      return null;
+    }
+
+    const accessToken = await this.prisma.personalAccessToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        id: true,
+        scopes: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            emailVerifiedAt: true,
+            role: true,
+            createdAt: true,
+            deletedAt: true,
+            suspendedAt: true,
+          },
+        },
+      },
+    });
+
+    const now = new Date();
+    if (
+      !accessToken ||
+      accessToken.revokedAt ||
+      (accessToken.expiresAt && accessToken.expiresAt <= now) ||
+      accessToken.user.deletedAt
+    ) {
+      throw new UnauthorizedException(ERROR_MESSAGES.TOKEN_INVALID);
+    }
+
+    if (accessToken.user.suspendedAt) {
+      throw BusinessException.accountSuspended();
+    }
+
+    // Throttled so busy scripts do not write on every request
+    const lastUsedAt = accessToken.lastUsedAt?.getTime() ?? 0;
+    if (now.getTime() - lastUsedAt > PERSONAL_ACCESS_TOKEN.LAST_USED_UPDATE_INTERVAL_MS) {
+      await this.prisma.personalAccessToken.update({
+        where: { id: accessToken.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    const { deletedAt, suspendedAt, ...user } = accessToken.user;
+    return { ...user, tokenId: accessToken.id, scopes: accessToken.scopes };
+  }
+}
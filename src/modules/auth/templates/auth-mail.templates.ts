@@ -0,0 +1,146 @@
+import { IMailMessage } from '../../../common/interfaces/mailer.interface';
+import { escapeHtml } from '../../../common/utils/string.util';
+
+/**
+ * Email asking a new user to confirm their address
+ */
+export function verificationEmail(
+  to: string,
+  name: string | null,
+  link: string,
+  ttlHours: number,
+): IMailMessage {
+  const greeting = `Hi ${name || 'there'},`;
+  return {
+    to,
+    subject: 'Verify your email address',
+    text:
+      `${greeting}\n\nPlease confirm your email address by opening the link below:\n${link}\n\n` +
+      `The link expires in ${ttlHours} hours.`,
+    html:
+      `<p>${escapeHtml(greeting)}</p>` +
+      `<p>Please confirm your email address by opening the link below:</p>` +
+      `<p><a href="${escapeHtml(link)}">Verify email</a></p>` +
+      `<p>The link expires in ${ttlHours} hours.</p>`,
+  };
+}
+
+/**
+ * Email with a link to choose a new password
+ */
+export function passwordResetEmail(
+  to: string,
+  name: string | null,
+  link: string,
+  ttlMinutes: number,
+): IMailMessage {
+  const greeting = `Hi ${name || 'there'},`;
+  return {
+    to,
+    subject: 'Reset your password',
+    text:
+      `${greeting}\n\nWe received a request to reset your password. Open the link below to choose a new one:\n${link}\n\n` +
+      `The link expires in ${ttlMinutes} minutes. If you did not request this, you can ignore this email.`,
+    html:
+      `<p>${escapeHtml(greeting)}</p>` +
+      `<p>We received a request to reset your password. Open the link below to choose a new one:</p>` +
+      `<p><a href="${escapeHtml(link)}">Reset password</a></p>` +
+      `<p>The link expires in ${ttlMinutes} minutes. If you did not request this, you can ignore this email.</p>`,
+  };
+}
+
+/**
+ * Email sent when repeated failed logins lock the account
+ */
+export function accountLockedEmail(
+  to: string,
+  name: string | null,
+  link: string,
+  lockoutMinutes: number,
+): IMailMessage {
+  const greeting = `Hi ${name || 'there'},`;
+  return {
+    to,
+    subject: 'Your account has been temporarily locked',
+    text:
+      `${greeting}\n\nWe locked your account for ${lockoutMinutes} minutes after several failed login attempts. ` +
+      `If this was you, open the link below to unlock it now:\n${link}\n\n` +
+      `If it was not you, consider resetting your password.`,
+    html:
+      `<p>${escapeHtml(greeting)}</p>` +
+      `<p>We locked your account for ${lockoutMinutes} minutes after several failed login attempts. ` +
+      `If this was you, open the link below to unlock it now:</p>` +
+      `<p><a href="${escapeHtml(link)}">Unlock account</a></p>` +
+      `<p>If it was not you, consider resetting your password.</p>`,
+  };
+}
+
+/**
+ * Email to the new address asking the user to confirm an email change
+ */
+export function emailChangeEmail(
+  to: string,
+  name: string | null,
+  link: string,
+  ttlHours: number,
+): IMailMessage {
+  const greeting = `Hi ${name || 'there'},`;
+  return {
+    to,
+    subject: 'Confirm your new email address',
+    text:
+      `${greeting}\n\nPlease confirm that you want to use this address for your account by opening the link below:\n${link}\n\n` +
+      `The link expires in ${ttlHours} hours. Until then your current address stays in use.`,
+    html:
+      `<p>${escapeHtml(greeting)}</p>` +
+      `<p>Please confirm that you want to use this address for your account by opening the link below:</p>` +
+      `<p><a href="${escapeHtml(link)}">Confirm email address</a></p>` +
+      `<p>The link expires in ${ttlHours} hours. Until then your current address stays in use.</p>`,
+  };
+}
+
+/**
+ * Notice to the current address that a change to another address was requested
+ */
+export function emailChangeNoticeEmail(
+  to: string,
+  name: string | null,
+  newEmail: string,
+): IMailMessage {
+  const greeting = `Hi ${name || 'there'},`;
+  return {
+    to,
+    subject: 'Your email address is being changed',
+    text:
+      `${greeting}\n\nA request was made to change the email address of your account to ${newEmail}. ` +
+      `If this was not you, change your password right away.`,
+    html:
+      `<p>${escapeHtml(greeting)}</p>` +
+      `<p>A request was made to change the email address of your account to ${escapeHtml(newEmail)}. ` +
+      `If this was not you, change your password right away.</p>`,
+  };
+}
+
+/**
+ * Email confirming an account deletion, with a link to undo it during the grace period
+ */
+export function accountDeletionEmail(
+  to: string,
+  name: string | null,
+  link: string,
+  graceDays: number,
+): IMailMessage {
+  const greeting = `Hi ${name || 'there'},`;
+  return {
+    to,
+    subject: 'Your account has been deleted',
+    text:
+      `${greeting}\n\nYour account and all of your files will be permanently removed in ${graceDays} days. ` +
+      `Changed your mind? Open the link below to restore your account before then:\n${link}`,
+    html:
+      `<p>${escapeHtml(greeting)}</p>` +
+      `<p>Your account and all of your files will be permanently removed in ${graceDays} days. ` +
+      `Changed your mind? Open the link below to restore your account before then:</p>` +
+      `<p><a href="${escapeHtml(link)}">Restore account</a></p>`,
+  };
+}
@@ -0,0 +1,69 @@
+import { Controller, Get, Post, Body, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { TwoFactorService } from './two-factor.service';
+import { PasswordConfirmationDto, TwoFactorCodeDto } from './dto/two-factor.dto';
+import {
+  RecoveryCodesResponseDto,
+  TwoFactorSetupResponseDto,
+  TwoFactorStatusResponseDto,
+} from './dto/two-factor-response.dto';
+import { BaseResponseDto } from '../../common/dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { SUCCESS_MESSAGES } from '../../common/constants';
+
+@ApiTags('Authentication')
+@Controller('auth/2fa')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get two-factor authentication status' })
+  async getStatus(@CurrentUser() user: any): Promise<BaseResponseDto<TwoFactorStatusResponseDto>> {
+    const data = await this.twoFactorService.getStatus(user.id);
+    return new BaseResponseDto(data, 'Two-factor status retrieved successfully');
+  }
+
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start enrollment: returns a secret and otpauth URI for the authenticator app' })
+  async beginSetup(@CurrentUser() user: any): Promise<BaseResponseDto<TwoFactorSetupResponseDto>> {
+    const data = await this.twoFactorService.beginSetup(user.id);
+    return new BaseResponseDto(data, 'Scan the QR code and confirm with a code from your app');
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm enrollment with a first code; returns recovery codes' })
+  async confirmSetup(
+    @Body() dto: TwoFactorCodeDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<RecoveryCodesResponseDto>> {
+    const data = await this.twoFactorService.confirmSetup(user.id, dto.code);
+    return new BaseResponseDto(data, SUCCESS_MESSAGES.TWO_FACTOR_ENABLED);
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Turn two-factor authentication off (requires the password)' })
+  async disable(
+    @Body() dto: PasswordConfirmationDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.twoFactorService.disable(user.id, dto.password);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.TWO_FACTOR_DISABLED);
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace all recovery codes (requires the password)' })
+  async regenerateRecoveryCodes(
+    @Body() dto: PasswordConfirmationDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<RecoveryCodesResponseDto>> {
+    const data = await this.twoFactorService.regenerateRecoveryCodes(user.id, dto.password);
+    return new BaseResponseDto(data, SUCCESS_MESSAGES.RECOVERY_CODES_REGENERATED);
+  }
+}
@@ -0,0 +1,388 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { randomInt } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService, LogContext } from '../../common/logger/logger.service';
+import { SUCCESS_MESSAGES, SYSTEM, TWO_FACTOR } from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import {
+  buildOtpauthUri,
+  decryptSecret,
+  encryptSecret,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../common/utils/otp.util';
+import { deriveSecret } from '../../common/utils/crypto.util';
+import {
+  RecoveryCodesResponseDto,
+  TwoFactorSetupResponseDto,
+  TwoFactorStatusResponseDto,
+} from './dto/two-factor-response.dto';
+
+// Unambiguous characters for recovery codes (no 0/o, 1/l/i)
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+interface ChallengePayload {
+  sub: string;
+  purpose: string;
+}
+
+/**
+ * Opt-in TOTP two-factor authentication: enrollment, recovery codes and the
+ * short-lived challenge token used between the password step and the code step of login
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Whether 2FA is on and how many recovery codes are left
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatusResponseDto> {
+    const [user, remainingRecoveryCodes] = await Promise.all([
+      this.findUser(userId),
+      this.prisma.recoveryCode.count({ where: { userId, usedAt: null } }),
+    ]);
+
+    return {
+      enabled: !!user.twoFactorEnabledAt,
+      enabledAt: user.twoFactorEnabledAt,
+      remainingRecoveryCodes,
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret. 2FA only turns on once a code generated
+   * from this secret is confirmed; starting again replaces an unconfirmed secret.
+   */
+  async beginSetup(userId: string): Promise<TwoFactorSetupResponseDto> {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw BusinessException.twoFactorAlreadyEnabled();
+    }
+
+    const secret = generateTotpSecret(TWO_FACTOR.SECRET_BYTES);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: encryptSecret(secret, this.getEncryptionKey()) },
+    });
+
+    this.logger.logAuth('Two-factor setup started', userId);
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR.ISSUER, {
+        digits: TWO_FACTOR.DIGITS,
+        periodSeconds: TWO_FACTOR.PERIOD_SECONDS,
+      }),
+    };
+  }
+
+  /**
+   * Turn 2FA on with a first code from the authenticator app
+   * @returns Recovery codes, shown to the user only this once
+   */
+  async confirmSetup(userId: string, code: string): Promise<RecoveryCodesResponseDto> {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw BusinessException.twoFactorAlreadyEnabled();
+    }
+    if (!user.twoFactorSecret) {
+      throw BusinessException.twoFactorSetupRequired();
+    }
+
+    const step = await this.matchCode(userId, user.twoFactorSecret, code);
+    if (step === null) {
+      this.logger.warn('Two-factor confirmation failed: invalid code', {
+        context: LogContext.AUTH,
+        userId,
+        errorCode: 'AUTH_2FA_CODE_INVALID',
+      });
+      throw BusinessException.twoFactorCodeInvalid();
+    }
+
+    const { codes, hashes } = await this.generateRecoveryCodes();
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+      }),
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.recoveryCode.createMany({
+        data: hashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+
+    this.logger.logAuth(SUCCESS_MESSAGES.TWO_FACTOR_ENABLED, userId);
+
+    return { recoveryCodes: codes };
+  }
+
+  /**
+   * Turn 2FA off after re-checking the password
+   */
+  async disable(userId: string, password: string): Promise<void> {
+    const user = await this.findUser(userId);
+    await this.assertPassword(user, password);
+
+    if (!user.twoFactorEnabledAt) {
+      throw BusinessException.twoFactorNotEnabled();
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+      }),
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    this.logger.logAuth(SUCCESS_MESSAGES.TWO_FACTOR_DISABLED, userId);
+  }
+
+  /**
+   * Replace all recovery codes after re-checking the password
+   */
+  async regenerateRecoveryCodes(userId: string, password: string): Promise<RecoveryCodesResponseDto> {
+    const user = await this.findUser(userId);
+    await this.assertPassword(user, password);
+
+    if (!user.twoFactorEnabledAt) {
+      throw BusinessException.twoFactorNotEnabled();
+    }
+
+    const { codes, hashes } = await this.generateRecoveryCodes();
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.recoveryCode.createMany({
+        data: hashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+
+    this.logger.logAuth(SUCCESS_MESSAGES.RECOVERY_CODES_REGENERATED, userId);
+
+    return { recoveryCodes: codes };
+  }
+
+  /**
+   * Issue the token proving the password step of login succeeded
+   */
+  createChallenge(userId: string): string {
+    const payload: ChallengePayload = { sub: userId, purpose: TWO_FACTOR.CHALLENGE_PURPOSE };
+    return this.jwtService.sign(payload, { expiresIn: TWO_FACTOR.CHALLENGE_EXPIRES_IN });
+  }
+
+  /**
+   * Validate a challenge token
+   * @returns The user the challenge was issued to
+   */
+  verifyChallenge(challengeToken: string): string {
+    try {
+      const payload = this.jwtService.verify<ChallengePayload>(challengeToken);
+      if (payload.purpose === TWO_FACTOR.CHALLENGE_PURPOSE && payload.sub) {
+        return payload.sub;
+      }
+    } catch {
+      // Fall through: expired or tampered tokens are rejected below
+    }
+
+    throw BusinessException.twoFactorChallengeInvalid();
+  }
+
+  /**
+   * Check the second factor at login: a current TOTP code or an unused recovery code
+   */
+  async verifyLoginFactor(
+    userId: string,
+    factor: { code?: string; recoveryCode?: string },
+  ): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabledAt || !user.twoFactorSecret) {
+      throw BusinessException.twoFactorChallengeInvalid();
+    }
+
+    const accepted = factor.code
+      ? await this.acceptCode(userId, user.twoFactorSecret, factor.code)
+      : await this.consumeRecoveryCode(userId, factor.recoveryCode ?? '');
+
+    if (!accepted) {
+      this.logger.warn('Two-factor login failed: invalid code', {
+        context: LogContext.AUTH,
+        userId,
+        method: factor.code ? 'totp' : 'recovery_code',
+        errorCode: 'AUTH_2FA_CODE_INVALID',
+      });
+      throw BusinessException.twoFactorCodeInvalid();
+    }
+  }
+
+  /**
+   * Accept a TOTP code once: its time step must be newer than the last accepted one
+   */
+  private async acceptCode(userId: string, encryptedSecret: string, code: string): Promise<boolean> {
+    const step = await this.matchCode(userId, encryptedSecret, code);
+    if (step === null) {
+      return false;
+    }
+
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Use up a recovery code
+   */
+  private async consumeRecoveryCode(userId: string, recoveryCode: string): Promise<boolean> {
+    const normalized = this.normalizeRecoveryCode(recoveryCode);
+    if (!normalized) {
+      return false;
+    }
+
+    const candidates = await this.prisma.recoveryCode.findMany({
+      where: { userId, usedAt: null },
+      select: { id: true, codeHash: true },
+    });
+
+    for (const candidate of candidates) {
+      if (await bcrypt.compare(normalized, candidate.codeHash)) {
+        // Conditional update so a code cannot be used twice concurrently
+        const { count } = await this.prisma.recoveryCode.updateMany({
+          where: { id: candidate.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (count > 0) {
+          this.logger.logAuth('Recovery code used', userId, {
+            remaining: candidates.length - 1,
+          });
+        }
+        return count > 0;
+      }
+    }
+
+    return false;
+  }
+
+  private async matchCode(
+    userId: string,
+    encryptedSecret: string,
+    code: string,
+  ): Promise<number | null> {
+    const { secret, legacy } = this.decrypt(encryptedSecret);
+    const step = verifyTotp(secret, code.trim(), {
+      digits: TWO_FACTOR.DIGITS,
+      periodSeconds: TWO_FACTOR.PERIOD_SECONDS,
+      window: TWO_FACTOR.WINDOW,
+    });
+
+    // Move a secret still encrypted with JWT_SECRET itself to the derived key
+    if (step !== null && legacy) {
+      await this.prisma.user.updateMany({
+        where: { id: userId, twoFactorSecret: encryptedSecret },
+        data: { twoFactorSecret: encryptSecret(secret, this.getEncryptionKey()) },
+      });
+    }
+    return step;
+  }
+
+  /**
+   * Decrypt a TOTP secret. Without a dedicated key, secrets encrypted before the key was
+   * derived from JWT_SECRET are still read with JWT_SECRET itself.
+   */
+  private decrypt(encryptedSecret: string): { secret: string; legacy: boolean } {
+    try {
+      return { secret: decryptSecret(encryptedSecret, this.getEncryptionKey()), legacy: false };
+    } catch (error) {
+      const jwtSecret = this.configService.get<string>('JWT_SECRET');
+      if (this.configService.get<string>('authConfig.twoFactorEncryptionKey') || !jwtSecret) {
+        throw error;
+      }
+      return { secret: decryptSecret(encryptedSecret, jwtSecret), legacy: true };
+    }
+  }
+
+  /**
+   * Generate recovery codes formatted as `xxxxx-xxxxx`, with their hashes
+   */
+  private async generateRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+    const codes = Array.from({ length: TWO_FACTOR.RECOVERY_CODE_COUNT }, () => {
+      const raw = Array.from(
+        { length: TWO_FACTOR.RECOVERY_CODE_LENGTH },
+        () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)],
+      ).join('');
+      const half = TWO_FACTOR.RECOVERY_CODE_LENGTH / 2;
+      return `${raw.slice(0, half)}-${raw.slice(half)}`;
+    });
+
+    const hashes = await Promise.all(
+      codes.map((code) => bcrypt.hash(this.normalizeRecoveryCode(code), SYSTEM.BCRYPT_ROUNDS)),
+    );
+
+    return { codes, hashes };
+  }
+
+  /**
+   * Ignore case, spaces and dashes so codes can be typed loosely
+   */
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+  }
+
+  private async assertPassword(user: { id: string; password: string }, password: string): Promise<void> {
+    if (!(await bcrypt.compare(password, user.password))) {
+      this.logger.warn('Password confirmation failed', {
+        context: LogContext.AUTH,
+        userId: user.id,
+        errorCode: 'AUTH_PASSWORD_INCORRECT',
+      });
+      throw BusinessException.passwordIncorrect();
+    }
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        password: true,
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+      },
+    });
+
+    if (!user) {
+      throw BusinessException.userNotFound(userId);
+    }
+    return user;
+  }
+
+  private getEncryptionKey(): string {
+    return (
+      this.configService.get<string>('authConfig.twoFactorEncryptionKey') ||
+      deriveSecret(
+        this.configService.get<string>('JWT_SECRET') ?? '',
+        TWO_FACTOR.ENCRYPTION_KEY_PURPOSE,
+      )
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { UserTokenType } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { USER_TOKEN } from '../../common/constants';
+import { generateSecureToken, hashToken } from '../../common/utils/string.util';
+
+/**
+ * Single-use tokens delivered by email (verification, password reset, account unlock,
+ * email change, account restore).
+ * Only the SHA-256 of a token is stored; the raw value exists solely in the email.
+ */
+@Injectable()
+export class UserTokensService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Issue a new token, invalidating any unused token of the same type
+   * @returns The raw token to embed in the email
+   */
+  async issue(userId: string, type: UserTokenType, ttlMs: number): Promise<string> {
+    const token = generateSecureToken(USER_TOKEN.TOKEN_BYTES);
+
+    await this.prisma.$transaction([
+      this.prisma.userToken.deleteMany({ where: { userId, type, usedAt: null } }),
+      this.prisma.userToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + ttlMs),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Mark a token as used if it is valid, unused and not expired
+   * @returns The owning user ID, or null when the token cannot be used
+   */
+  async consume(token: string, type: UserTokenType): Promise<string | null> {
+    const tokenHash = hashToken(token);
+
+    // Conditional update so two concurrent requests cannot both use the token
+    const { count } = await this.prisma.userToken.updateMany({
+      where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const { userId } = await this.prisma.userToken.findUniqueOrThrow({
+      where: { tokenHash },
+      select: { userId: true },
+    });
+    return userId;
+  }
+}
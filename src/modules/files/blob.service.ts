@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { formatFileSize } from '../../common/utils/file.util';
+
+/**
+ * Stored content referenced by a file or version
+ */
+export interface StoredContent {
+  contentHash: string | null;
+  path: string;
+}
+
+/**
+ * Content-addressed storage: identical bytes are stored once and shared through
+ * reference-counted `Blob` rows. Every file and version row holding a `contentHash`
+ * owns one reference.
+ */
+@Injectable()
+export class BlobService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  /**
+   * Take a reference on the blob for this content, storing it only when it is new.
+   * The caller must persist a row holding `hash`, or call `release` if that fails.
+   * @param store - Uploads the local copy and returns its stored path
+   * @param discard - Removes the local copy when an identical blob is reused
+   */
+  async acquire(
+    hash: string,
+    size: number,
+    store: () => Promise<string>,
+    discard: () => Promise<void>,
+  ): Promise<{ path: string; deduplicated: boolean }> {
+    const existing = await this.addReference(hash);
+    if (existing) {
+      await discard();
+      this.logger.log('Upload deduplicated', {
+        context: 'BlobService',
+        hash,
+        size: formatFileSize(size),
+      });
+      return { path: existing.path, deduplicated: true };
+    }
+
+    const path = await store();
+
+    try {
+      await this.prisma.blob.create({ data: { hash, size, path, refCount: 1 } });
+      return { path, deduplicated: false };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        await this.storageService.deleteFile(this.storageService.extractStorageKey(path));
+        throw error;
+      }
+
+      // A concurrent upload of the same content won the race: keep its copy
+      const winner = await this.addReference(hash);
+      if (!winner) {
+        throw error;
+      }
+      await this.storageService.deleteFile(this.storageService.extractStorageKey(path));
+      return { path: winner.path, deduplicated: true };
+    }
+  }
+
+  /**
+   * Drop one reference and delete the stored object once nothing references it.
+   * Content stored before deduplication (no hash) is deleted directly.
+   * Must be called after the referencing row has been removed or repointed.
+   */
+  async release(content: StoredContent): Promise<void> {
+    if (!content.contentHash) {
+      await this.storageService.deleteFile(this.storageService.extractStorageKey(content.path));
+      return;
+    }
+
+    const hash = content.contentHash;
+    let blob: { refCount: number; path: string };
+    try {
+      blob = await this.prisma.blob.update({
+        where: { hash },
+        data: { refCount: { decrement: 1 } },
+        select: { refCount: true, path: true },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        this.logger.warn('Released blob does not exist', { context: 'BlobService', hash });
+        return;
+      }
+      throw error;
+    }
+
+    if (blob.refCount > 0) {
+      return;
+    }
+
+    // Conditional delete: a concurrent acquire may have taken a new reference meanwhile
+    const { count } = await this.prisma.blob.deleteMany({ where: { hash, refCount: { lte: 0 } } });
+    if (count > 0) {
+      await this.storageService.deleteFile(this.storageService.extractStorageKey(blob.path));
+      this.logger.debug('Unreferenced blob deleted', { context: 'BlobService', hash });
+    }
+  }
+
+  /**
+   * Logical size of the user's content (what quota charges) against the size of the
+   * distinct blobs backing it
+   */
+  async getUserDeduplicationStats(
+    userId: string,
+  ): Promise<{ logicalSize: number; physicalSize: number; savedSize: number }> {
+    const [row] = await this.prisma.$queryRaw<{ logicalSize: bigint; physicalSize: bigint }[]>`
+      WITH refs AS (
+        SELECT f."contentHash" AS hash, f.size FROM "File" f
+        WHERE f."userId" = ${userId} AND f."contentHash" IS NOT NULL
+        UNION ALL
+        SELECT v."contentHash", v.size FROM "FileVersion" v
+        JOIN "File" f ON f.id = v."fileId"
+        WHERE f."userId" = ${userId} AND v."contentHash" IS NOT NULL
+      )
+      SELECT
+        COALESCE((SELECT SUM(size) FROM refs), 0)::bigint AS "logicalSize",
+        COALESCE((SELECT SUM(b.size) FROM "Blob" b WHERE b.hash IN (SELECT hash FROM refs)), 0)::bigint AS "physicalSize"
+    `;
+
+    const logicalSize = Number(row?.logicalSize ?? 0);
+    const physicalSize = Number(row?.physicalSize ?? 0);
+    return { logicalSize, physicalSize, savedSize: logicalSize - physicalSize };
+  }
+
+  /**
+   * Increment the reference count of an existing blob
+   * @returns The blob, or null when no blob has this hash
+   */
+  private async addReference(hash: string): Promise<{ path: string } | null> {
+    try {
+      return await this.prisma.blob.update({
+        where: { hash },
+        data: { refCount: { increment: 1 } },
+        select: { path: true },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
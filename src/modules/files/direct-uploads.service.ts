@@ -0,0 +1,431 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, UploadSessionStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { IMultipartUploadPart } from '../../common/interfaces/storage.interface';
+import {
+  DIRECT_UPLOAD,
+  DIRECT_UPLOAD_SELECT_FIELDS,
+  FILE_UPLOAD,
+  UPLOAD_SESSION,
+} from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { addDays } from '../../common/utils/date.util';
+import { formatFileSize } from '../../common/utils/file.util';
+import { FilesService } from './files.service';
+import { ReservationKey, StorageQuotaService } from './storage-quota.service';
+import { DirectUploadDto, PresignUploadDto } from './dto/direct-upload.dto';
+import { FileResponseDto } from './dto/file-response.dto';
+
+type DirectUploadRecord = Prisma.DirectUploadGetPayload<{
+  select: typeof DIRECT_UPLOAD_SELECT_FIELDS;
+}>;
+
+/**
+ * Uploads sent by the client straight to S3 through presigned URLs, so the content
+ * never passes through the server.
+ *
+ * Presigning checks the file against the owner's plan and reserves its size like an
+ * upload session does. Files above DIRECT_UPLOAD.MULTIPART_THRESHOLD are sent as the
+ * parts of a multipart upload. Smaller files are sent in one PUT whose URL only accepts
+ * the declared size and SHA-256; it targets a staging key that is copied to the file's
+ * key on confirm, so the URL cannot replace the file afterwards. Confirming checks the
+ * stored object against what was declared before the file is created.
+ */
+@Injectable()
+export class DirectUploadsService {
+  private isRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly filesService: FilesService,
+    private readonly storageQuotaService: StorageQuotaService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  /**
+   * Open a direct upload and return the presigned URLs to send the file to
+   */
+  async presign(userId: string, dto: PresignUploadDto): Promise<DirectUploadDto> {
+    if (!this.storageService.isS3Available()) {
+      throw BusinessException.directUploadUnavailable();
+    }
+    if (!FILE_UPLOAD.ALLOWED_MIME_TYPES.includes(dto.mimeType as any)) {
+      throw BusinessException.fileTypeNotAllowed(dto.mimeType);
+    }
+
+    const ownerId = await this.filesService.resolveUploadOwner(userId, dto.folderId);
+    await this.storageQuotaService.assertCanStore(ownerId, dto.mimeType, dto.size);
+
+    const uploadId = randomUUID();
+    const reservation = this.getReservationKey(userId, uploadId);
+    const storageKey = this.filesService.generateStorageKey(ownerId, dto.fileName);
+
+    let partSize: number | null = null;
+    let totalParts: number | null = null;
+    if (dto.size > DIRECT_UPLOAD.MULTIPART_THRESHOLD) {
+      // S3 accepts at most S3_MAX_PARTS parts
+      partSize = Math.max(
+        DIRECT_UPLOAD.DEFAULT_PART_SIZE,
+        Math.ceil(dto.size / UPLOAD_SESSION.S3_MAX_PARTS),
+      );
+      totalParts = Math.ceil(dto.size / partSize);
+    }
+
+    await this.storageQuotaService.reserve(ownerId, reservation, dto.size);
+
+    let multipartId: string | null = null;
+    let upload: DirectUploadRecord;
+
+    try {
+      if (totalParts) {
+        multipartId = await this.storageService
+          .createMultipartUpload(storageKey, dto.mimeType)
+          .catch((error) => {
+            throw BusinessException.fileUploadFailed(error.message);
+          });
+      }
+
+      upload = await this.prisma.directUpload.create({
+        data: {
+          id: uploadId,
+          userId,
+          folderId: dto.folderId ?? null,
+          fileName: dto.fileName,
+          mimeType: dto.mimeType,
+          size: BigInt(dto.size),
+          storageKey,
+          multipartId,
+          partSize,
+          totalParts,
+          sha256: dto.sha256?.toLowerCase() ?? null,
+          expiresAt: this.storageQuotaService.getReservationExpiry(),
+        },
+        select: DIRECT_UPLOAD_SELECT_FIELDS,
+      });
+
+      this.logger.log('Direct upload created', {
+        context: 'DirectUploadsService',
+        userId,
+        uploadId,
+        fileName: dto.fileName,
+        size: formatFileSize(dto.size),
+        totalParts,
+      });
+    } catch (error) {
+      if (multipartId) {
+        await this.storageService.abortMultipartUpload(storageKey, multipartId);
+      }
+      await this.storageQuotaService.releaseReservation(reservation);
+      throw error;
+    }
+
+    return this.toResponse(upload);
+  }
+
+  /**
+   * Create the file once the client has uploaded it. The stored object must have the
+   * declared size and type; until everything is uploaded the client can retry.
+   */
+  async confirm(uploadId: string, userId: string): Promise<FileResponseDto> {
+    const upload = await this.findUpload(uploadId, userId);
+    this.assertActive(upload);
+
+    // Check that everything arrived before claiming the upload
+    let parts: IMultipartUploadPart[] | null = null;
+    if (upload.multipartId) {
+      parts = await this.getUploadedParts(upload);
+    } else if (!(await this.storageService.getObjectInfo(this.getStagingKey(upload)))) {
+      throw BusinessException.directUploadIncomplete(uploadId);
+    }
+
+    // Claim the upload so a concurrent confirm cannot act on it too
+    const reservation = this.getReservationKey(userId, uploadId);
+    const expiresAt = this.storageQuotaService.getReservationExpiry();
+    const { count } = await this.prisma.directUpload.updateMany({
+      where: { id: uploadId, status: UploadSessionStatus.ACTIVE },
+      data: { status: UploadSessionStatus.COMPLETING, expiresAt },
+    });
+    if (count === 0) {
+      const current = await this.findUpload(uploadId, userId);
+      throw BusinessException.uploadSessionNotActive(uploadId, current.status);
+    }
+    await this.storageQuotaService.extendReservation(reservation, expiresAt);
+
+    let multipartCompleted = false;
+
+    try {
+      if (parts) {
+        await this.storageService.completeMultipartUpload(
+          upload.storageKey,
+          upload.multipartId,
+          parts,
+        );
+        multipartCompleted = true;
+      } else {
+        // Out of reach of the upload URL, which stays valid for a while
+        const stagingKey = this.getStagingKey(upload);
+        await this.storageService.copyObject(stagingKey, upload.storageKey);
+        await this.storageService.deleteFile(stagingKey);
+      }
+
+      const object = await this.storageService.getObjectInfo(upload.storageKey);
+      const size = Number(upload.size);
+      if (!object) {
+        throw BusinessException.directUploadIncomplete(uploadId);
+      }
+      if (object.size !== size) {
+        throw BusinessException.directUploadInvalid(
+          `Uploaded object is ${object.size} bytes but ${size} bytes were declared`,
+          { sessionId: uploadId, actualSize: object.size, declaredSize: size },
+        );
+      }
+      if (object.contentType !== upload.mimeType) {
+        throw BusinessException.directUploadInvalid(
+          `Uploaded object is ${object.contentType ?? 'untyped'} but ${upload.mimeType} was declared`,
+          { sessionId: uploadId, actualType: object.contentType, declaredType: upload.mimeType },
+        );
+      }
+
+      const file = await this.filesService.saveDirectUpload(
+        {
+          uploadId,
+          storageKey: upload.storageKey,
+          fileName: upload.fileName,
+          mimeType: upload.mimeType,
+          size,
+          folderId: upload.folderId,
+          sha256: upload.sha256,
+        },
+        userId,
+      );
+
+      await this.prisma.directUpload.update({
+        where: { id: uploadId },
+        data: { status: UploadSessionStatus.COMPLETED, fileId: file.id },
+      });
+
+      this.logger.log('Direct upload confirmed', {
+        context: 'DirectUploadsService',
+        userId,
+        uploadId,
+        fileId: file.id,
+      });
+
+      return file;
+    } catch (error) {
+      // The object cannot be confirmed again once checked, so free what it holds
+      await this.prisma.directUpload.update({
+        where: { id: uploadId },
+        data: { status: UploadSessionStatus.FAILED },
+      });
+      await this.discardUpload(userId, upload, multipartCompleted);
+      throw error;
+    }
+  }
+
+  /**
+   * Expire uploads not confirmed within the reservation TTL and remove finished ones
+   * past retention
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'direct-upload-expiry' })
+  async handleExpiredUploads(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Direct upload expiry skipped: previous run still in progress', {
+        context: 'DirectUploadsService',
+      });
+      return;
+    }
+
+    this.isRunning = true;
+    let expiredCount = 0;
+
+    try {
+      const now = new Date();
+      let batch = await this.findExpiredUploads(now);
+
+      while (batch.length > 0) {
+        for (const upload of batch) {
+          // Skip uploads that changed status since the lookup
+          const { count } = await this.prisma.directUpload.updateMany({
+            where: { id: upload.id, status: upload.status, expiresAt: { lte: now } },
+            data: { status: UploadSessionStatus.EXPIRED },
+          });
+
+          if (count > 0) {
+            await this.discardUpload(upload.userId, upload);
+            expiredCount++;
+          }
+        }
+
+        batch = await this.findExpiredUploads(now);
+      }
+
+      const { count: removedCount } = await this.prisma.directUpload.deleteMany({
+        where: {
+          status: { notIn: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+          updatedAt: { lt: addDays(now, -UPLOAD_SESSION.RETENTION_DAYS) },
+        },
+      });
+
+      this.logger.log('Direct upload expiry completed', {
+        context: 'DirectUploadsService',
+        expiredCount,
+        removedCount,
+      });
+    } catch (error) {
+      this.logger.error('Direct upload expiry failed', error.stack, {
+        context: 'DirectUploadsService',
+        expiredCount,
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async findUpload(uploadId: string, userId: string): Promise<DirectUploadRecord> {
+    const upload = await this.prisma.directUpload.findFirst({
+      where: { id: uploadId, userId },
+      select: DIRECT_UPLOAD_SELECT_FIELDS,
+    });
+
+    if (!upload) {
+      throw BusinessException.uploadSessionNotFound(uploadId);
+    }
+    return upload;
+  }
+
+  private assertActive(upload: DirectUploadRecord): void {
+    if (upload.status !== UploadSessionStatus.ACTIVE) {
+      throw BusinessException.uploadSessionNotActive(upload.id, upload.status);
+    }
+    // Not yet picked up by the expiry job, but no longer reserved
+    if (upload.expiresAt <= new Date()) {
+      throw BusinessException.uploadSessionNotActive(upload.id, UploadSessionStatus.EXPIRED);
+    }
+  }
+
+  /**
+   * Parts of a multipart upload, checked to be complete and correctly sized so the
+   * client can still re-send a part before the upload is claimed
+   */
+  private async getUploadedParts(upload: DirectUploadRecord): Promise<IMultipartUploadPart[]> {
+    const uploaded = await this.storageService.listParts(upload.storageKey, upload.multipartId);
+    const byNumber = new Map(uploaded.map((part) => [part.partNumber, part]));
+    const parts: IMultipartUploadPart[] = [];
+    const missingParts: number[] = [];
+
+    for (let partNumber = 1; partNumber <= upload.totalParts; partNumber++) {
+      const part = byNumber.get(partNumber);
+      if (!part) {
+        missingParts.push(partNumber);
+        continue;
+      }
+
+      const expectedSize =
+        partNumber < upload.totalParts
+          ? upload.partSize
+          : Number(upload.size) - upload.partSize * (upload.totalParts - 1);
+      if (part.size !== expectedSize) {
+        throw BusinessException.directUploadInvalid(
+          `Part ${partNumber} must be ${expectedSize} bytes, got ${part.size}`,
+          { sessionId: upload.id, partNumber, expectedSize, actualSize: part.size },
+        );
+      }
+      parts.push({ partNumber, etag: part.etag });
+    }
+
+    if (missingParts.length > 0) {
+      throw BusinessException.directUploadIncomplete(upload.id, missingParts);
+    }
+    return parts;
+  }
+
+  private findExpiredUploads(now: Date) {
+    return this.prisma.directUpload.findMany({
+      where: {
+        status: { in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+        expiresAt: { lte: now },
+      },
+      select: { id: true, userId: true, status: true, storageKey: true, multipartId: true },
+      take: UPLOAD_SESSION.CLEANUP_BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Release the quota held by an upload and remove what the client sent
+   * @param multipartCompleted - Whether the parts were already combined into the object
+   */
+  private async discardUpload(
+    userId: string,
+    upload: Pick<DirectUploadRecord, 'id' | 'storageKey' | 'multipartId'>,
+    multipartCompleted = false,
+  ): Promise<void> {
+    await this.storageQuotaService.releaseReservation(this.getReservationKey(userId, upload.id));
+
+    if (upload.multipartId && !multipartCompleted) {
+      await this.storageService.abortMultipartUpload(upload.storageKey, upload.multipartId);
+      return;
+    }
+
+    // A single PUT may have been copied to the file's key already
+    if (!upload.multipartId) {
+      await this.storageService.deleteFile(this.getStagingKey(upload));
+    }
+    await this.storageService.deleteFile(upload.storageKey);
+  }
+
+  /**
+   * Key a single PUT is sent to, away from the file's key
+   */
+  private getStagingKey(upload: Pick<DirectUploadRecord, 'id'>): string {
+    return `${DIRECT_UPLOAD.STAGING_PREFIX}/${upload.id}`;
+  }
+
+  private getReservationKey(userId: string, uploadId: string): ReservationKey {
+    return { uploaderId: userId, uploadId };
+  }
+
+  private async toResponse(upload: DirectUploadRecord): Promise<DirectUploadDto> {
+    const expiresIn = upload.multipartId
+      ? DIRECT_UPLOAD.URL_EXPIRES_IN
+      : DIRECT_UPLOAD.SINGLE_URL_EXPIRES_IN;
+    const response: DirectUploadDto = {
+      sessionId: upload.id,
+      method: upload.multipartId ? 'multipart' : 'single',
+      urlsExpireAt: new Date(Date.now() + expiresIn * 1000),
+      expiresAt: upload.expiresAt,
+    };
+
+    if (upload.multipartId) {
+      response.partSize = upload.partSize;
+      response.parts = await Promise.all(
+        Array.from({ length: upload.totalParts }, async (_, index) => ({
+          partNumber: index + 1,
+          url: await this.storageService.generatePresignedPartUrl(
+            upload.storageKey,
+            upload.multipartId,
+            index + 1,
+            expiresIn,
+          ),
+        })),
+      );
+    } else {
+      const checksum = Buffer.from(upload.sha256, 'hex').toString('base64');
+      response.uploadUrl = await this.storageService.generatePresignedUploadUrl(
+        this.getStagingKey(upload),
+        expiresIn,
+        upload.mimeType,
+        Number(upload.size),
+        checksum,
+      );
+      response.headers = { 'Content-Type': upload.mimeType, 'x-amz-checksum-sha256': checksum };
+    }
+
+    return response;
+  }
+}
@@ -1,98 +1,158 @@
-import { IsString, IsNumber, IsNotEmpty, Min } from 'class-validator';
+import {
+  IsString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsHexadecimal,
+  Length,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { UploadSessionStatus } from '@prisma/client';
+import { FILE_UPLOAD, UPLOAD_SESSION } from '../../../common/constants';
 
-export class UploadChunkDto {
+export class InitUploadDto {
   @ApiProperty({
-    description: 'Unique file identifier for this upload session',
-    example: 'abc-123-def-456',
+    description: 'Original filename',
+    example: 'vacation-video.mp4',
   })
   @IsString()
   @IsNotEmpty()
-  fileId: string;
+  @MaxLength(FILE_UPLOAD.MAX_FILENAME_LENGTH)
+  fileName: string;
 
   @ApiProperty({
-    description: 'Original filename',
-    example: 'vacation-video.mp4',
+    description: 'File MIME type',
+    example: 'video/mp4',
   })
   @IsString()
   @IsNotEmpty()
-  originalFilename: string;
+  mimeType: string;
+
+  @ApiProperty({
+    description: 'Total file size in bytes, reserved against the storage quota until the upload ends',
+    example: 104857600,
+  })
+  @IsInt()
+  @Min(1)
+  totalSize: number;
+
+  @ApiProperty({
+    description: 'Size of every chunk but the last, in bytes. With S3 storage it is raised to at least 5MB (the minimum multipart part size); use the chunkSize returned.',
+    example: UPLOAD_SESSION.DEFAULT_CHUNK_SIZE,
+    minimum: UPLOAD_SESSION.MIN_CHUNK_SIZE,
+    maximum: UPLOAD_SESSION.MAX_CHUNK_SIZE,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(UPLOAD_SESSION.MIN_CHUNK_SIZE)
+  @Max(UPLOAD_SESSION.MAX_CHUNK_SIZE)
+  chunkSize?: number;
+
+  @ApiProperty({
+    description: 'Target folder ID (omit to upload to the root)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  folderId?: string;
+}
+
+export class UploadChunkDto {
+  @ApiProperty({
+    description: 'Upload session ID returned by upload/init',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  sessionId: string;
 
   @ApiProperty({
     description: 'Index of this chunk (0-based)',
     example: 0,
   })
-  @IsNumber()
+  @IsInt()
   @Min(0)
   chunkIndex: number;
+}
 
+export class CompleteUploadDto {
   @ApiProperty({
-    description: 'Total number of chunks',
-    example: 10,
+    description: 'Upload session ID returned by upload/init',
+    example: '123e4567-e89b-12d3-a456-426614174000',
   })
-  @IsNumber()
-  @Min(1)
-  totalChunks: number;
+  @IsUUID()
+  sessionId: string;
 
   @ApiProperty({
-    description: 'Total file size in bytes',
-    example: 104857600,
+    description: 'SHA-256 of the whole file (hex); the upload fails if the assembled file differs',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    required: false,
   })
-  @IsNumber()
-  @Min(1)
-  totalFileSize: number;
+  @IsOptional()
+  @IsHexadecimal()
+  @Length(64, 64)
+  sha256?: string;
 }
 
-export class CompleteUploadDto {
+export class UploadSessionDto {
   @ApiProperty({
-    description: 'Unique file identifier',
-    example: 'abc-123-def-456',
+    description: 'Upload session ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
   })
-  @IsString()
-  @IsNotEmpty()
-  fileId: string;
+  sessionId: string;
 
   @ApiProperty({
-    description: 'Original filename',
-    example: 'vacation-video.mp4',
+    description: 'Session status',
+    enum: UploadSessionStatus,
+    example: UploadSessionStatus.ACTIVE,
   })
-  @IsString()
-  @IsNotEmpty()
-  originalFilename: string;
+  status: UploadSessionStatus;
 
   @ApiProperty({
-    description: 'Total file size in bytes',
-    example: 104857600,
+    description: 'Original filename',
+    example: 'vacation-video.mp4',
   })
-  @IsNumber()
-  @Min(1)
-  totalFileSize: number;
+  fileName: string;
 
   @ApiProperty({
     description: 'File MIME type',
     example: 'video/mp4',
   })
-  @IsString()
-  @IsNotEmpty()
   mimeType: string;
-}
 
-export class ChunkUploadStatusDto {
   @ApiProperty({
-    description: 'File ID',
-    example: 'abc-123-def-456',
+    description: 'Target folder ID, null for the root',
+    example: null,
+    nullable: true,
   })
-  fileId: string;
+  folderId: string | null;
+
+  @ApiProperty({
+    description: 'Total file size in bytes',
+    example: 104857600,
+  })
+  totalSize: number;
+
+  @ApiProperty({
+    description: 'Size of every chunk but the last, in bytes',
+    example: 5242880,
+  })
+  chunkSize: number;
 
   @ApiProperty({
     description: 'Total chunks expected',
-    example: 10,
+    example: 20,
   })
   totalChunks: number;
 
   @ApiProperty({
     description: 'Chunks received so far',
-    example: 7,
+    example: 14,
   })
   chunksReceived: number;
 
@@ -109,8 +169,27 @@ export class ChunkUploadStatusDto {
   progress: number;
 
   @ApiProperty({
-    description: 'Whether upload is complete',
+    description: 'Whether every chunk has been received',
     example: false,
   })
   isComplete: boolean;
+
+  @ApiProperty({
+    description: 'Created file ID once the upload is completed',
+    example: null,
+    nullable: true,
+  })
+  fileId: string | null;
+
+  @ApiProperty({
+    description: 'When the session expires unless more chunks arrive',
+    example: '2024-02-17T00:00:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Creation date',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  createdAt: Date;
 }
@@ -0,0 +1,135 @@
+import {
+  IsString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsHexadecimal,
+  Length,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { DIRECT_UPLOAD, FILE_UPLOAD } from '../../../common/constants';
+
+export class PresignUploadDto {
+  @ApiProperty({
+    description: 'Original filename',
+    example: 'vacation-video.mp4',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(FILE_UPLOAD.MAX_FILENAME_LENGTH)
+  fileName: string;
+
+  @ApiProperty({
+    description: 'File MIME type, also the Content-Type the upload must be sent with',
+    example: 'video/mp4',
+  })
+  @IsString()
+  @IsNotEmpty()
+  mimeType: string;
+
+  @ApiProperty({
+    description: 'File size in bytes, reserved against the storage quota until the upload is confirmed',
+    example: 104857600,
+  })
+  @IsInt()
+  @Min(1)
+  size: number;
+
+  @ApiProperty({
+    description: 'SHA-256 of the file (hex). Required for files sent in a single PUT, which S3 rejects unless they match; optional for multipart uploads.',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    required: false,
+  })
+  @ValidateIf(
+    (dto: PresignUploadDto) =>
+      dto.sha256 !== undefined || dto.size <= DIRECT_UPLOAD.MULTIPART_THRESHOLD,
+  )
+  @IsHexadecimal()
+  @Length(64, 64)
+  sha256?: string;
+
+  @ApiProperty({
+    description: 'Target folder ID (omit to upload to the root)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  folderId?: string;
+}
+
+export class PresignedPartDto {
+  @ApiProperty({
+    description: 'Part number (1-based)',
+    example: 1,
+  })
+  partNumber: number;
+
+  @ApiProperty({
+    description: 'Presigned URL to PUT the part to',
+    example: 'https://my-bucket.s3.ap-southeast-1.amazonaws.com/users/...?partNumber=1&uploadId=...',
+  })
+  url: string;
+}
+
+export class DirectUploadDto {
+  @ApiProperty({
+    description: 'Direct upload session ID, to confirm the upload with',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  sessionId: string;
+
+  @ApiProperty({
+    description: 'single: PUT the whole file to uploadUrl. multipart: PUT each part to its URL.',
+    enum: ['single', 'multipart'],
+    example: 'single',
+  })
+  method: 'single' | 'multipart';
+
+  @ApiProperty({
+    description: 'Presigned URL to PUT the file to (single method). It only accepts a body of the declared size and SHA-256.',
+    example: 'https://my-bucket.s3.ap-southeast-1.amazonaws.com/users/...?X-Amz-Signature=...',
+    required: false,
+  })
+  uploadUrl?: string;
+
+  @ApiProperty({
+    description: 'Headers the PUT request must send (single method)',
+    example: {
+      'Content-Type': 'video/mp4',
+      'x-amz-checksum-sha256': 'n4bQgYhMfWWaL+qgxVrQFaO/TxsrC4Is0V1sFbDwCgg=',
+    },
+    required: false,
+  })
+  headers?: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Size of every part but the last, in bytes (multipart method)',
+    example: 10485760,
+    required: false,
+  })
+  partSize?: number;
+
+  @ApiProperty({
+    description: 'Presigned URL of every part (multipart method)',
+    type: [PresignedPartDto],
+    required: false,
+  })
+  parts?: PresignedPartDto[];
+
+  @ApiProperty({
+    description: 'When the presigned URLs stop working',
+    example: '2024-02-16T01:00:00.000Z',
+  })
+  urlsExpireAt: Date;
+
+  @ApiProperty({
+    description: 'When the upload must be confirmed by, after which its reservation is released',
+    example: '2024-02-17T00:00:00.000Z',
+  })
+  expiresAt: Date;
+}
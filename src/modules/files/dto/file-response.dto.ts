@@ -31,6 +31,13 @@ export class FileResponseDto {
   })
   path: string;
 
+  @ApiProperty({
+    description: 'SHA-256 of the content (hex), to verify downloads; null for files stored before it was recorded',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    nullable: true,
+  })
+  contentHash: string | null;
+
   @ApiProperty({
     description: 'File URL for download/preview',
     example: 'http://localhost:7001/files/view/123e4567-e89b-12d3-a456-426614174000',
@@ -57,11 +64,30 @@ export class FileResponseDto {
   })
   userId: string;
 
+  @ApiProperty({
+    description: 'Folder containing the file (null for the root)',
+    example: null,
+    nullable: true,
+  })
+  folderId: string | null;
+
+  @ApiProperty({
+    description: 'Whether the file can be viewed without authentication at /files/view/:id',
+    example: false,
+  })
+  isPublic: boolean;
+
   @ApiProperty({
     description: 'File upload date',
     example: '2024-02-16T00:00:00.000Z',
   })
   createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last time the file content or metadata changed',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  updatedAt: Date;
 }
 
 
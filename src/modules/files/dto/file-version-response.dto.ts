@@ -0,0 +1,73 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class FileVersionResponseDto {
+  @ApiProperty({
+    description: 'Version ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'File this version belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  fileId: string;
+
+  @ApiProperty({
+    description: 'Size of this version in bytes',
+    example: 1024,
+  })
+  size: number;
+
+  @ApiProperty({
+    description: 'MIME type of this version',
+    example: 'application/pdf',
+  })
+  mimeType: string;
+
+  @ApiProperty({
+    description: 'Storage path of this version (internal)',
+    example: 'users/123/2024/02/1708041600000-123456789-document.pdf',
+  })
+  path: string;
+
+  @ApiProperty({
+    description: 'SHA-256 of this version\'s content (hex), null if not recorded',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    nullable: true,
+  })
+  contentHash: string | null;
+
+  @ApiProperty({
+    description: 'Thumbnail path of this version (internal)',
+    required: false,
+    nullable: true,
+  })
+  thumbnailPath: string | null;
+
+  @ApiProperty({
+    description: 'Video duration in seconds',
+    required: false,
+    nullable: true,
+  })
+  duration: number | null;
+
+  @ApiProperty({
+    description: 'User who uploaded this version',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  uploadedById: string | null;
+
+  @ApiProperty({
+    description: 'When this version was uploaded',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When this version was replaced by newer content',
+    example: '2024-02-17T00:00:00.000Z',
+  })
+  archivedAt: Date;
+}
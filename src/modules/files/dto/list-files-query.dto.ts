@@ -0,0 +1,116 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { FILE_LISTING, PAGINATION } from '../../../common/constants';
+
+export type FileSortField = (typeof FILE_LISTING.SORT_FIELDS)[number];
+
+export class ListFilesQueryDto {
+  @ApiProperty({
+    description: 'Cursor returned as `meta.nextCursor` by the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Number of files per page',
+    default: PAGINATION.DEFAULT_LIMIT,
+    maximum: PAGINATION.MAX_LIMIT,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(PAGINATION.MAX_LIMIT)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Field to sort by',
+    enum: FILE_LISTING.SORT_FIELDS,
+    default: FILE_LISTING.DEFAULT_SORT_BY,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(FILE_LISTING.SORT_FIELDS)
+  sortBy?: FileSortField;
+
+  @ApiProperty({
+    description: 'Sort direction',
+    enum: ['asc', 'desc'],
+    default: FILE_LISTING.DEFAULT_ORDER,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @ApiProperty({
+    description: 'Filter by file type',
+    enum: ['video', 'image', 'document', 'archive'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['video', 'image', 'document', 'archive'])
+  type?: string;
+
+  @ApiProperty({ description: 'Minimum size in bytes', example: 1024, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minSize?: number;
+
+  @ApiProperty({ description: 'Maximum size in bytes', example: 10485760, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxSize?: number;
+
+  @ApiProperty({
+    description: 'Only files uploaded at or after this date',
+    example: '2024-01-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  createdAfter?: string;
+
+  @ApiProperty({
+    description: 'Only files uploaded before this date',
+    example: '2024-02-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  createdBefore?: string;
+
+  @ApiProperty({
+    description: 'Comma-separated file extensions, without dots',
+    example: 'pdf,docx',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(,[a-z0-9]+)*$/i, { message: 'extension must be a comma-separated list' })
+  extension?: string;
+
+  @ApiProperty({
+    description: `Only files directly inside this folder ("${FILE_LISTING.ROOT_FOLDER}" for the root)`,
+    example: FILE_LISTING.ROOT_FOLDER,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== FILE_LISTING.ROOT_FOLDER)
+  @IsUUID()
+  folderId?: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID, ValidateIf } from 'class-validator';
+
+export class MoveFileDto {
+  @ApiProperty({
+    description: 'Target folder ID (null moves the file to the root)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  folderId: string | null;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min, MinLength } from 'class-validator';
+import { SEARCH } from '../../../common/constants';
+import { FileResponseDto } from './file-response.dto';
+
+export class SearchFilesQueryDto {
+  @ApiProperty({
+    description: 'Search terms; supports "quoted phrases", OR and -exclusions',
+    example: 'quarterly report',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(SEARCH.MIN_QUERY_LENGTH)
+  @MaxLength(200)
+  q: string;
+
+  @ApiProperty({
+    description: 'Maximum number of results',
+    default: SEARCH.DEFAULT_LIMIT,
+    maximum: SEARCH.MAX_LIMIT,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(SEARCH.MAX_LIMIT)
+  limit?: number;
+}
+
+export class FileSearchResultDto extends FileResponseDto {
+  @ApiProperty({ description: 'Relevance score (higher is better)', example: 0.4 })
+  rank: number;
+
+  @ApiProperty({
+    description: 'HTML-escaped file name with matches wrapped in <mark> tags',
+    example: 'Q3 <mark>report</mark>.pdf',
+  })
+  nameHighlight: string;
+
+  @ApiProperty({
+    description: 'HTML-escaped content excerpt with matches wrapped in <mark> tags (null when only the name matched)',
+    example: '… revenue for the <mark>quarterly</mark> <mark>report</mark> grew …',
+    nullable: true,
+  })
+  snippet: string | null;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PermissionRole } from '@prisma/client';
+import { FileResponseDto } from './file-response.dto';
+
+export class SharedFileResponseDto extends FileResponseDto {
+  @ApiProperty({
+    description: 'Access the current user has been granted',
+    enum: PermissionRole,
+  })
+  role: PermissionRole;
+}
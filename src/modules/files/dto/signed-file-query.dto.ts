@@ -0,0 +1,28 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SignedFileQueryDto {
+  @ApiProperty({
+    description: 'Expiry of the URL (Unix time, seconds)',
+    example: 1708045200,
+  })
+  @IsInt()
+  expires: number;
+
+  @ApiProperty({
+    description: 'Content-Type the file is served with',
+    example: 'image/png',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @ApiProperty({
+    description: 'HMAC signature of the path, expiry and type',
+    example: 'q0J0k7n8bq9p0m1vXo9Jm3v8oZk9W0iC4n1Zq2lqXw8',
+  })
+  @IsString()
+  @IsNotEmpty()
+  signature: string;
+}
@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StoragePlanSummaryDto {
+  @ApiProperty({
+    description: 'Plan ID, null when no plan is configured and built-in limits apply',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  id: string | null;
+
+  @ApiProperty({ description: 'Plan name', example: 'Free' })
+  name: string;
+}
+
+export class StorageQuotaDto {
+  @ApiProperty({ description: 'Plan the limits come from', type: StoragePlanSummaryDto })
+  plan: StoragePlanSummaryDto;
+
+  @ApiProperty({
+    description: 'Storage quota in bytes (per-user override or the plan quota)',
+    example: 10737418240,
+  })
+  storageQuota: number;
+
+  @ApiProperty({ description: 'Storage quota, human readable', example: '10 GB' })
+  storageQuotaFormatted: string;
+
+  @ApiProperty({
+    description: 'Bytes used, including trashed files and previous versions',
+    example: 1073741824,
+  })
+  usedBytes: number;
+
+  @ApiProperty({ description: 'Bytes used, human readable', example: '1 GB' })
+  usedFormatted: string;
+
+  @ApiProperty({ description: 'Bytes held by unfinished chunked uploads', example: 0 })
+  reservedBytes: number;
+
+  @ApiProperty({ description: 'Bytes held by unfinished chunked uploads, human readable', example: '0 Bytes' })
+  reservedFormatted: string;
+
+  @ApiProperty({ description: 'Bytes still available', example: 9663676416 })
+  availableBytes: number;
+
+  @ApiProperty({ description: 'Bytes still available, human readable', example: '9 GB' })
+  availableFormatted: string;
+
+  @ApiProperty({ description: 'Share of the quota used or reserved', example: 10 })
+  usedPercent: number;
+
+  @ApiProperty({ description: 'Largest file that can be uploaded, in bytes', example: 524288000 })
+  maxFileSize: number;
+
+  @ApiProperty({ description: 'Largest file that can be uploaded, human readable', example: '500 MB' })
+  maxFileSizeFormatted: string;
+
+  @ApiProperty({ description: 'Previous versions kept per file', example: 10 })
+  maxVersions: number;
+
+  @ApiProperty({
+    description: 'File type groups that can be uploaded',
+    example: ['image', 'video', 'document', 'archive'],
+  })
+  allowedFileTypes: string[];
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FileResponseDto } from './file-response.dto';
+
+export class TrashedFileResponseDto extends FileResponseDto {
+  @ApiProperty({
+    description: 'When the file was moved to the trash',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  deletedAt: Date;
+
+  @ApiProperty({
+    description: 'When the file will be permanently deleted',
+    example: '2024-03-17T00:00:00.000Z',
+  })
+  purgeAt: Date;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class UpdateFileVisibilityDto {
+  @ApiProperty({
+    description: 'Whether anyone with the file ID may view it at /files/view/:id',
+    example: false,
+  })
+  @IsBoolean()
+  isPublic: boolean;
+}
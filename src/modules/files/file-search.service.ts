@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { SEARCH } from '../../common/constants';
+import { escapeHtml } from '../../common/utils/string.util';
+
+// Control characters used as highlight markers so the text can be escaped before
+// the markers are turned into <mark> tags
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+/**
+ * A ranked search match, before file details are loaded
+ */
+export interface FileSearchHit {
+  id: string;
+  rank: number;
+  nameHighlight: string;
+  snippet: string | null;
+}
+
+@Injectable()
+export class FileSearchService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Full-text search over the names and extracted content of files the user can view:
+   * their own files, files shared with them and files inside folders shared with them.
+   * Trashed files are excluded.
+   */
+  async search(userId: string, query: string, limit: number): Promise<FileSearchHit[]> {
+    const config = SEARCH.TEXT_SEARCH_CONFIG;
+    const headlineOptions =
+      `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` +
+      'MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "';
+    const nameHeadlineOptions =
+      `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+    // Rank and limit first; ts_headline is expensive so it only runs on the returned page
+    const rows = await this.prisma.$queryRaw<
+      { id: string; rank: number; nameHighlight: string; snippet: string | null }[]
+    >(Prisma.sql`
+      WITH RECURSIVE shared_folders AS (
+        SELECT "folderId" AS id FROM "FolderPermission" WHERE "userId" = ${userId}
+        UNION
+        SELECT child.id FROM "Folder" child JOIN shared_folders parent ON child."parentId" = parent.id
+      ),
+      matches AS (
+        SELECT f.id, f.name, f."contentText", ts_rank_cd(f."searchVector", query) AS rank, query
+        FROM "File" f, websearch_to_tsquery(${config}::regconfig, ${query}) query
+        WHERE f."deletedAt" IS NULL
+          AND f."searchVector" @@ query
+          -- Files of deleted accounts stay hidden during the deletion grace period
+          AND EXISTS (SELECT 1 FROM "User" u WHERE u.id = f."userId" AND u."deletedAt" IS NULL)
+          AND (
+            f."userId" = ${userId}
+            OR EXISTS (
+              SELECT 1 FROM "FilePermission" p WHERE p."fileId" = f.id AND p."userId" = ${userId}
+            )
+            OR f."folderId" IN (SELECT id FROM shared_folders)
+          )
+        ORDER BY rank DESC, f.id
+        LIMIT ${limit}
+      )
+      SELECT
+        id,
+        rank::float8 AS rank,
+        ts_headline(${config}::regconfig, name, query, ${nameHeadlineOptions}) AS "nameHighlight",
+        CASE WHEN "contentText" IS NULL THEN NULL
+          ELSE ts_headline(${config}::regconfig, "contentText", query, ${headlineOptions})
+        END AS snippet
+      FROM matches
+      ORDER BY rank DESC, id
+    `);
+
+    this.logger.debug('File search completed', {
+      context: 'FileSearchService',
+      userId,
+      query,
+      resultCount: rows.length,
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      rank: Number(row.rank),
+      nameHighlight: this.toHtmlHighlight(row.nameHighlight),
+      snippet: row.snippet && row.snippet.includes(HIGHLIGHT_START)
+        ? this.toHtmlHighlight(row.snippet)
+        : null,
+    }));
+  }
+
+  /**
+   * Escape the text and turn highlight markers into <mark> tags
+   */
+  private toHtmlHighlight(text: string): string {
+    return escapeHtml(text)
+      .split(HIGHLIGHT_START)
+      .join('<mark>')
+      .split(HIGHLIGHT_STOP)
+      .join('</mark>');
+  }
+}
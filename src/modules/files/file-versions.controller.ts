@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Req,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { FilesService } from './files.service';
+import { FileVersionsService } from './file-versions.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { BaseResponseDto } from '../../common/dto';
+import { TOKEN_SCOPES } from '../../common/constants';
+import { StorageService } from '../../common/storage/storage.service';
+import { FileResponseDto } from './dto/file-response.dto';
+import { FileVersionResponseDto } from './dto/file-version-response.dto';
+import { streamStoredFile } from './helpers/file-stream.helper';
+
+@ApiTags('Files')
+@Controller('files/:id/versions')
+@UseGuards(JwtAuthGuard, ScopesGuard)
+@RequireScopes(TOKEN_SCOPES.FILES_READ)
+@ApiBearerAuth()
+export class FileVersionsController {
+  constructor(
+    private readonly filesService: FilesService,
+    private readonly fileVersionsService: FileVersionsService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List previous versions of a file' })
+  async getVersions(
+    @Param('id') fileId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FileVersionResponseDto[]>> {
+    const versions = await this.fileVersionsService.getVersions(fileId, user.id);
+    return new BaseResponseDto(versions, 'File versions retrieved successfully');
+  }
+
+  @Get(':versionId/download')
+  @ApiOperation({
+    summary: 'Download a previous version of a file',
+    description: 'Force download with attachment content-disposition. Requires authentication.',
+  })
+  async downloadVersion(
+    @Param('id') fileId: string,
+    @Param('versionId') versionId: string,
+    @CurrentUser() user: any,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const version = await this.fileVersionsService.getVersion(fileId, versionId, user.id);
+
+    return streamStoredFile(req, res, version, {
+      disposition: 'attachment',
+      storage: this.storageService,
+    });
+  }
+
+  @Post(':versionId/restore')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore a previous version',
+    description: 'The current content is kept as a new version, so restoring is reversible.',
+  })
+  async restoreVersion(
+    @Param('id') fileId: string,
+    @Param('versionId') versionId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FileResponseDto>> {
+    await this.fileVersionsService.restoreVersion(fileId, versionId, user.id);
+    const file = await this.filesService.getFileById(fileId, user.id);
+    return new BaseResponseDto(file, 'File version restored successfully');
+  }
+}
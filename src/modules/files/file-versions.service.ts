@@ -0,0 +1,333 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionRole, Prisma } from '@prisma/client';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { withTrashed } from '../../prisma/extensions';
+import { LoggerService } from '../../common/logger/logger.service';
+import { StorageService } from '../../common/storage/storage.service';
+import {
+  FILE_SELECT_FIELDS,
+  FILE_VERSION,
+  FILE_VERSION_SELECT_FIELDS,
+  SUCCESS_MESSAGES,
+} from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { addDays } from '../../common/utils/date.util';
+import { formatFileSize } from '../../common/utils/file.util';
+import { FileVersionResponseDto } from './dto/file-version-response.dto';
+import { AccessPolicyService, AccessRole } from '../permissions/access-policy.service';
+import { BlobService } from './blob.service';
+import { StorageQuotaService } from './storage-quota.service';
+
+/**
+ * New content replacing the current content of a file
+ */
+export interface FileContent {
+  size: number;
+  mimeType: string;
+  path: string;
+  contentHash: string | null;
+  thumbnailPath: string | null;
+  duration: number | null;
+  contentText: string | null;
+}
+
+/**
+ * Stored objects of a version that are cleaned up when it is removed
+ */
+interface VersionObjects {
+  id: string;
+  path: string;
+  contentHash: string | null;
+  thumbnailPath: string | null;
+}
+
+@Injectable()
+export class FileVersionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService,
+    private readonly accessPolicy: AccessPolicyService,
+    private readonly blobService: BlobService,
+    private readonly storageQuotaService: StorageQuotaService,
+  ) {}
+
+  /**
+   * Archive the current content of a file as a version and replace it with new content.
+   * Runs in the caller's transaction; prune with pruneVersionsSafely once it has committed.
+   */
+  async replaceContent(
+    tx: Prisma.TransactionClient,
+    fileId: string,
+    content: FileContent,
+    uploadedById: string,
+  ) {
+    await this.archiveCurrentContent(tx, fileId);
+
+    const file = await tx.file.update({
+      where: { id: fileId },
+      data: { ...content, uploadedById },
+      select: FILE_SELECT_FIELDS,
+    });
+
+    this.logger.log(SUCCESS_MESSAGES.FILE_VERSION_CREATED, {
+      context: 'FileVersionsService',
+      fileId,
+      uploadedById,
+      newSize: formatFileSize(content.size),
+    });
+
+    return file;
+  }
+
+  /**
+   * List the previous versions of a file, newest first
+   */
+  async getVersions(fileId: string, userId: string): Promise<FileVersionResponseDto[]> {
+    await this.accessPolicy.assertFileAccess(fileId, userId, PermissionRole.VIEWER);
+
+    return this.prisma.fileVersion.findMany({
+      where: { fileId },
+      select: FILE_VERSION_SELECT_FIELDS,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get a single version, requiring at least the given role on its file (viewer by default)
+   */
+  async getVersion(
+    fileId: string,
+    versionId: string,
+    userId: string,
+    requiredRole: AccessRole = PermissionRole.VIEWER,
+  ): Promise<FileVersionResponseDto & { name: string }> {
+    await this.accessPolicy.assertFileAccess(fileId, userId, requiredRole);
+
+    const [file, version] = await Promise.all([
+      this.prisma.file.findUniqueOrThrow({ where: { id: fileId }, select: { name: true } }),
+      this.prisma.fileVersion.findFirst({
+        where: { id: versionId, fileId },
+        select: FILE_VERSION_SELECT_FIELDS,
+      }),
+    ]);
+
+    if (!version) {
+      this.logger.warn('File version not found', {
+        context: 'FileVersionsService',
+        userId,
+        fileId,
+        versionId,
+        errorCode: 'FILE_VERSION_NOT_FOUND',
+      });
+      throw BusinessException.fileVersionNotFound(fileId, versionId);
+    }
+
+    return { ...version, name: file.name };
+  }
+
+  /**
+   * Make a previous version the current content. The content being replaced is archived
+   * as a new version, so restoring never loses data.
+   */
+  async restoreVersion(fileId: string, versionId: string, userId: string): Promise<void> {
+    const version = await this.getVersion(fileId, versionId, userId, PermissionRole.EDITOR);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.archiveCurrentContent(tx, fileId);
+
+      // Extracted text and content hash are not part of the public version fields
+      const { contentText, contentHash } = await tx.fileVersion.findUniqueOrThrow({
+        where: { id: version.id },
+        select: { contentText: true, contentHash: true },
+      });
+
+      await tx.file.update({
+        where: { id: fileId },
+        data: {
+          size: version.size,
+          mimeType: version.mimeType,
+          path: version.path,
+          contentHash,
+          thumbnailPath: version.thumbnailPath,
+          duration: version.duration,
+          contentText,
+          uploadedById: version.uploadedById,
+        },
+      });
+
+      // The restored content now belongs to the file itself
+      await tx.fileVersion.delete({ where: { id: version.id } });
+    });
+
+    this.logger.log(SUCCESS_MESSAGES.FILE_VERSION_RESTORED, {
+      context: 'FileVersionsService',
+      userId,
+      fileId,
+      versionId,
+    });
+
+    await this.pruneVersionsSafely(fileId);
+  }
+
+  /**
+   * Apply the max-versions / max-age policy to a single file. The number of versions
+   * kept comes from the plan of the file owner.
+   * @returns Number of versions removed
+   */
+  async pruneVersions(fileId: string): Promise<number> {
+    const { maxAgeDays } = this.getRetentionPolicy();
+    const cutoff = addDays(new Date(), -maxAgeDays);
+
+    const { userId } = await this.prisma.file.findUniqueOrThrow({
+      where: { id: fileId, ...withTrashed() },
+      select: { userId: true },
+    });
+    const { maxVersions } = await this.storageQuotaService.getLimits(userId);
+
+    const versions = await this.prisma.fileVersion.findMany({
+      where: { fileId },
+      select: { id: true, path: true, contentHash: true, thumbnailPath: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const expired = versions.filter(
+      (version, index) => index >= maxVersions || version.createdAt < cutoff,
+    );
+
+    await this.removeVersions(expired);
+    return expired.length;
+  }
+
+  /**
+   * Remove every version of a file, including stored objects (used on permanent delete)
+   */
+  async deleteAllVersions(fileId: string): Promise<void> {
+    const versions = await this.prisma.fileVersion.findMany({
+      where: { fileId },
+      select: { id: true, path: true, contentHash: true, thumbnailPath: true },
+    });
+
+    await this.removeVersions(versions);
+  }
+
+  /**
+   * Daily sweep of versions older than the configured max age
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'file-version-expiry' })
+  async handleVersionExpiry(): Promise<void> {
+    const { maxAgeDays } = this.getRetentionPolicy();
+    const cutoff = addDays(new Date(), -maxAgeDays);
+
+    try {
+      const expired = await this.prisma.fileVersion.findMany({
+        where: { createdAt: { lt: cutoff } },
+        select: { id: true, path: true, contentHash: true, thumbnailPath: true },
+      });
+
+      await this.removeVersions(expired);
+
+      this.logger.log('File version expiry completed', {
+        context: 'FileVersionsService',
+        maxAgeDays,
+        removedCount: expired.length,
+      });
+    } catch (error) {
+      this.logger.error('File version expiry failed', error.stack, {
+        context: 'FileVersionsService',
+        maxAgeDays,
+      });
+    }
+  }
+
+  /**
+   * Copy the current content of a file into a new version row
+   */
+  private async archiveCurrentContent(tx: Prisma.TransactionClient, fileId: string): Promise<void> {
+    const current = await tx.file.findUniqueOrThrow({
+      where: { id: fileId },
+      select: {
+        size: true,
+        mimeType: true,
+        path: true,
+        contentHash: true,
+        thumbnailPath: true,
+        duration: true,
+        contentText: true,
+        userId: true,
+        uploadedById: true,
+        updatedAt: true,
+      },
+    });
+
+    await tx.fileVersion.create({
+      data: {
+        fileId,
+        size: current.size,
+        mimeType: current.mimeType,
+        path: current.path,
+        contentHash: current.contentHash,
+        thumbnailPath: current.thumbnailPath,
+        duration: current.duration,
+        contentText: current.contentText,
+        uploadedById: current.uploadedById ?? current.userId,
+        // The archived content was uploaded when the file was last written
+        createdAt: current.updatedAt,
+      },
+    });
+  }
+
+  /**
+   * Prune after new content was committed; a failure here must not undo the write
+   */
+  async pruneVersionsSafely(fileId: string): Promise<void> {
+    try {
+      await this.pruneVersions(fileId);
+    } catch (error) {
+      this.logger.warn('File version pruning failed', {
+        context: 'FileVersionsService',
+        fileId,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Delete version rows, then release their content blobs and thumbnails.
+   * Rows go first so a blob is never released while a version still points at it.
+   */
+  private async removeVersions(versions: VersionObjects[]): Promise<void> {
+    if (versions.length === 0) {
+      return;
+    }
+
+    await this.prisma.fileVersion.deleteMany({
+      where: { id: { in: versions.map((version) => version.id) } },
+    });
+
+    for (const version of versions) {
+      await this.blobService.release(version);
+      if (version.thumbnailPath) {
+        await this.storageService.deleteFile(
+          this.storageService.extractStorageKey(version.thumbnailPath),
+        );
+      }
+    }
+
+    this.logger.debug('File versions removed', {
+      context: 'FileVersionsService',
+      count: versions.length,
+    });
+  }
+
+  private getRetentionPolicy(): { maxAgeDays: number } {
+    return {
+      maxAgeDays:
+        this.configService.get<number>('fileVersionConfig.maxAgeDays') ??
+        FILE_VERSION.DEFAULT_MAX_AGE_DAYS,
+    };
+  }
+}
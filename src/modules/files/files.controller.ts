@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Delete,
   Param,
   Query,
@@ -12,9 +13,10 @@ import {
   HttpCode,
   HttpStatus,
   BadRequestException,
+  Req,
   Res,
+  Headers,
   StreamableFile,
-  NotFoundException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -23,31 +25,58 @@ import {
   ApiBody,
   ApiQuery,
   ApiOperation,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
-import { extname, join } from 'path';
-import { createReadStream, existsSync } from 'fs';
-import { Response } from 'express';
+import { extname } from 'path';
+import { Request, Response } from 'express';
 import { FilesService } from './files.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { VerifiedEmailGuard } from '../../common/guards/verified-email.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { Public } from '../../common/decorators/public.decorator';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
 import { FileResponseDto } from './dto/file-response.dto';
 import { BaseResponseDto } from '../../common/dto';
-import { FILE_UPLOAD } from '../../common/constants';
+import { FILE_UPLOAD, PLAN, SUCCESS_MESSAGES, TOKEN_SCOPES, UPLOAD_SESSION } from '../../common/constants';
+import { StorageService } from '../../common/storage/storage.service';
 import { UploadRecommendationService } from './upload-recommendation.service';
+import { StorageQuotaService } from './storage-quota.service';
+import { UploadSessionsService } from './upload-sessions.service';
+import { DirectUploadsService } from './direct-uploads.service';
 import { UploadRecommendationQueryDto } from './dto/upload-recommendation.dto';
-import { UploadChunkDto, CompleteUploadDto, ChunkUploadStatusDto } from './dto/chunk-upload.dto';
+import {
+  InitUploadDto,
+  UploadChunkDto,
+  CompleteUploadDto,
+  UploadSessionDto,
+} from './dto/chunk-upload.dto';
+import { DirectUploadDto, PresignUploadDto } from './dto/direct-upload.dto';
+import { UploadFileDto } from './dto/upload-file.dto';
+import { MoveFileDto } from './dto/move-file.dto';
+import { TrashedFileResponseDto } from './dto/trashed-file-response.dto';
+import { SharedFileResponseDto } from './dto/shared-file-response.dto';
+import { ListFilesQueryDto } from './dto/list-files-query.dto';
+import { FileSearchResultDto, SearchFilesQueryDto } from './dto/search-files.dto';
+import { UpdateFileVisibilityDto } from './dto/update-file-visibility.dto';
+import { streamStoredFile } from './helpers/file-stream.helper';
+import { parseContentChecksum } from './helpers/checksum.helper';
 
 @ApiTags('Files')
 @Controller('files')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ScopesGuard)
+@RequireScopes(TOKEN_SCOPES.FILES_READ)
 @ApiBearerAuth()
 export class FilesController {
   constructor(
     private readonly filesService: FilesService,
     private readonly recommendationService: UploadRecommendationService,
+    private readonly storageQuotaService: StorageQuotaService,
+    private readonly uploadSessionsService: UploadSessionsService,
+    private readonly directUploadsService: DirectUploadsService,
+    private readonly storageService: StorageService,
   ) {}
 
   // ============ Upload Recommendation Endpoint ============
@@ -94,7 +123,7 @@ export class FilesController {
   }
 
   @Get('upload/limits')
-  @ApiOperation({ summary: 'Get upload size limits' })
+  @ApiOperation({ summary: "Get upload size limits of the current user's plan" })
   @ApiQuery({
     name: 'mimeType',
     type: String,
@@ -103,15 +132,19 @@ export class FilesController {
     example: 'video/mp4',
   })
   async getUploadLimits(
+    @CurrentUser() user: any,
     @Query('mimeType') mimeType?: string,
   ): Promise<BaseResponseDto<any>> {
-    const limits = this.recommendationService.getUploadLimits(mimeType);
+    const planLimits = await this.storageQuotaService.getLimits(user.id);
+    const limits = this.recommendationService.getUploadLimits(planLimits, mimeType);
     return new BaseResponseDto(limits, 'Upload limits retrieved');
   }
 
   // ============ Regular Upload Endpoint ============
 
   @Post('upload')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @UseGuards(VerifiedEmailGuard)
   @ApiOperation({ summary: 'Upload a file (image, video, document, archive)' })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -125,6 +158,11 @@ export class FilesController {
           format: 'binary',
           description: 'File to upload (images, videos, documents, archives)',
         },
+        folderId: {
+          type: 'string',
+          format: 'uuid',
+          description: 'Target folder ID (omit to upload to the root)',
+        },
       },
     },
   })
@@ -139,33 +177,58 @@ export class FilesController {
           callback(null, filename);
         },
       }),
+      // The user's plan limit is enforced once the file is on disk; this only
+      // stops uploads larger than any plan can allow
       limits: {
-        fileSize: FILE_UPLOAD.MAX_VIDEO_SIZE,
+        fileSize: PLAN.MAX_FILE_SIZE_LIMIT,
       },
     }),
   )
   async uploadFile(
     @UploadedFile() file: Express.Multer.File,
+    @Body() dto: UploadFileDto,
     @CurrentUser() user: any,
   ): Promise<BaseResponseDto<FileResponseDto>> {
-    const uploadedFile = await this.filesService.uploadFile(file, user.id);
+    const uploadedFile = await this.filesService.uploadFile(file, user.id, dto.folderId);
     return new BaseResponseDto(uploadedFile, 'File uploaded successfully');
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all user files with optional filtering' })
-  @ApiQuery({
-    name: 'type',
-    required: false,
-    enum: ['video', 'image', 'document', 'archive'],
-    description: 'Filter by file type',
+  @ApiOperation({
+    summary: 'List user files with cursor pagination, sorting and filters',
+    description: 'Pass `meta.nextCursor` as `cursor` to fetch the next page. Cursors are tied to the sort they were issued for.',
   })
   async getUserFiles(
     @CurrentUser() user: any,
-    @Query('type') fileType?: string,
+    @Query() query: ListFilesQueryDto,
   ): Promise<BaseResponseDto<FileResponseDto[]>> {
-    const files = await this.filesService.getUserFiles(user.id, fileType);
-    return new BaseResponseDto(files, 'Files retrieved successfully');
+    const { items, meta } = await this.filesService.getUserFiles(user.id, query);
+    return new BaseResponseDto(items, 'Files retrieved successfully', meta);
+  }
+
+  @Get('search')
+  @ApiOperation({
+    summary: 'Search files by name and content',
+    description: 'Full-text search over file names and the text of PDF, DOCX, TXT and CSV files. Covers owned files and files shared with the user.',
+  })
+  async searchFiles(
+    @CurrentUser() user: any,
+    @Query() query: SearchFilesQueryDto,
+  ): Promise<BaseResponseDto<FileSearchResultDto[]>> {
+    const results = await this.filesService.searchFiles(user.id, query);
+    return new BaseResponseDto(results, 'Search completed successfully');
+  }
+
+  @Get('shared-with-me')
+  @ApiOperation({
+    summary: 'List files other users have shared with me',
+    description: 'Files inside shared folders are listed through GET /folders/shared-with-me.',
+  })
+  async getSharedWithMe(
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<SharedFileResponseDto[]>> {
+    const files = await this.filesService.getSharedWithMe(user.id);
+    return new BaseResponseDto(files, 'Shared files retrieved successfully');
   }
 
   @Get('stats')
@@ -182,74 +245,86 @@ export class FilesController {
     return new BaseResponseDto(info, 'Storage info retrieved successfully');
   }
 
+  // ============ Trash Endpoints ============
+
+  @Get('trash')
+  @ApiOperation({ summary: 'List files in the trash' })
+  async getTrashedFiles(
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<TrashedFileResponseDto[]>> {
+    const files = await this.filesService.getTrashedFiles(user.id);
+    return new BaseResponseDto(files, 'Trashed files retrieved successfully');
+  }
+
+  @Delete('trash/:id')
+  @RequireScopes(TOKEN_SCOPES.FILES_DELETE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Permanently delete a trashed file',
+    description: 'Removes the stored file and its metadata. This cannot be undone.',
+  })
+  async permanentlyDeleteFile(
+    @Param('id') fileId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.filesService.permanentlyDeleteFile(fileId, user.id);
+    return new BaseResponseDto(null, 'File permanently deleted');
+  }
+
+  @Post(':id/restore')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore a file from the trash',
+    description: 'If a file with the same name now exists in the folder, the restored file is renamed "name (restored).ext".',
+  })
+  async restoreFile(
+    @Param('id') fileId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FileResponseDto>> {
+    const file = await this.filesService.restoreFile(fileId, user.id);
+    return new BaseResponseDto(file, 'File restored successfully');
+  }
+
   @Public()
   @Get('view/:id')
   @ApiOperation({ 
     summary: 'View/preview file (public, no auth required)',
-    description: 'Stream file with inline content-disposition for browser preview. Images/videos display directly.'
+    description: 'Stream file with inline content-disposition for browser preview. Supports Range requests (seeking) and conditional GET (ETag, Last-Modified). Only available for files the owner has made public via PATCH /files/:id/visibility.'
   })
   async viewFile(
     @Param('id') fileId: string,
+    @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ): Promise<StreamableFile> {
     const file = await this.filesService.getFileByIdPublic(fileId);
-    
-    // For S3 files, redirect to S3 URL
-    if (file.path.startsWith('http://') || file.path.startsWith('https://')) {
-      res.redirect(file.path);
-      return;
-    }
-    
-    // For local files, stream them
-    const filePath = join(process.cwd(), file.path);
-    
-    if (!existsSync(filePath)) {
-      throw new NotFoundException('File not found on disk');
-    }
-    
-    // Set proper headers for file viewing
-    res.setHeader('Content-Type', file.mimeType);
-    res.setHeader('Content-Disposition', 'inline'); // Display in browser
-    res.setHeader('Access-Control-Allow-Origin', '*'); // CORS
-    res.setHeader('Cache-Control', 'public, max-age=31536000'); // Cache 1 year
-    res.setHeader('Content-Length', file.size.toString());
-    
-    const fileStream = createReadStream(filePath);
-    return new StreamableFile(fileStream);
+
+    return streamStoredFile(req, res, file, {
+      disposition: 'inline', // Display in browser
+      headers: {
+        'Access-Control-Allow-Origin': '*', // CORS
+        'Cache-Control': 'public, max-age=31536000', // Cache 1 year
+      },
+      storage: this.storageService,
+    });
   }
 
   @Get('download/:id')
   @ApiOperation({ 
     summary: 'Download file (authenticated)',
-    description: 'Force download with attachment content-disposition. Requires authentication.'
+    description: 'Force download with attachment content-disposition. Supports Range requests (resumable downloads) and conditional GET. Requires authentication.'
   })
   async downloadFile(
     @Param('id') fileId: string,
     @CurrentUser() user: any,
+    @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ): Promise<StreamableFile> {
     const file = await this.filesService.getFileById(fileId, user.id);
-    
-    // For S3 files, redirect to S3 URL
-    if (file.path.startsWith('http://') || file.path.startsWith('https://')) {
-      res.redirect(file.path);
-      return;
-    }
-    
-    // For local files, stream them
-    const filePath = join(process.cwd(), file.path);
-    
-    if (!existsSync(filePath)) {
-      throw new NotFoundException('File not found on disk');
-    }
-    
-    // Set proper headers for file download
-    res.setHeader('Content-Type', file.mimeType);
-    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(file.name)}"`);
-    res.setHeader('Content-Length', file.size.toString());
-    
-    const fileStream = createReadStream(filePath);
-    return new StreamableFile(fileStream);
+    return streamStoredFile(req, res, file, {
+      disposition: 'attachment',
+      storage: this.storageService,
+    });
   }
 
   @Get(':id')
@@ -262,20 +337,49 @@ export class FilesController {
     return new BaseResponseDto(file, 'File retrieved successfully');
   }
 
+  @Patch(':id/visibility')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @ApiOperation({
+    summary: 'Enable or disable the raw public view route for a file',
+    description: 'Prefer share links for controlled sharing; this exposes the file at /files/view/:id to anyone.',
+  })
+  async updateFileVisibility(
+    @Param('id') fileId: string,
+    @Body() dto: UpdateFileVisibilityDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FileResponseDto>> {
+    const file = await this.filesService.setFilePublic(fileId, user.id, dto.isPublic);
+    return new BaseResponseDto(file, 'File visibility updated successfully');
+  }
+
+  @Patch(':id/move')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @ApiOperation({ summary: 'Move a file into another folder' })
+  async moveFile(
+    @Param('id') fileId: string,
+    @Body() dto: MoveFileDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FileResponseDto>> {
+    const file = await this.filesService.moveFile(fileId, user.id, dto.folderId);
+    return new BaseResponseDto(file, 'File moved successfully');
+  }
+
   @Delete(':id')
+  @RequireScopes(TOKEN_SCOPES.FILES_DELETE)
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Delete a file' })
+  @ApiOperation({ summary: 'Move a file to the trash' })
   async deleteFile(
     @Param('id') fileId: string,
     @CurrentUser() user: any,
   ): Promise<BaseResponseDto<null>> {
     await this.filesService.deleteFile(fileId, user.id);
-    return new BaseResponseDto(null, 'File deleted successfully');
+    return new BaseResponseDto(null, 'File moved to trash');
   }
 
   @Post('delete-multiple')
+  @RequireScopes(TOKEN_SCOPES.FILES_DELETE)
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Delete multiple files' })
+  @ApiOperation({ summary: 'Move multiple files to the trash' })
   @ApiBody({
     schema: {
       type: 'object',
@@ -304,132 +408,166 @@ export class FilesController {
 
   // ============ Chunked Upload Endpoints ============
 
+  @Post('upload/init')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @UseGuards(VerifiedEmailGuard)
+  @ApiOperation({
+    summary: 'Start a chunked upload',
+    description: 'Open an upload session for a large file. The file is checked against the plan and its size is reserved against the storage quota until the upload completes, is cancelled or expires. Chunks are then sent to upload/chunk with the returned sessionId.'
+  })
+  async initChunkedUpload(
+    @Body() dto: InitUploadDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<UploadSessionDto>> {
+    const session = await this.uploadSessionsService.init(user.id, dto);
+    return new BaseResponseDto(session, SUCCESS_MESSAGES.UPLOAD_SESSION_CREATED);
+  }
+
   @Post('upload/chunk')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @UseGuards(VerifiedEmailGuard)
   @ApiOperation({ 
     summary: 'Upload a file chunk',
-    description: 'Upload a single chunk of a large file. Use this for files > 100MB. Chunks will be assembled after all parts are uploaded.'
+    description: 'Upload a single chunk of an upload session. Every chunk must be exactly chunkSize bytes except the last, which holds the remainder. Chunks can be sent in any order and re-sent. Send Content-Digest (sha-256 or sha-512) or Content-MD5 with the checksum of the chunk data to have it verified before it is stored.'
+  })
+  @ApiHeader({
+    name: 'Content-Digest',
+    description: 'Checksum of the chunk data (RFC 9530), e.g. sha-256=:<base64>:',
+    required: false,
+  })
+  @ApiHeader({
+    name: 'Content-MD5',
+    description: 'Base64 MD5 of the chunk data, used when Content-Digest is absent',
+    required: false,
   })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
     description: 'File chunk with metadata',
     schema: {
       type: 'object',
-      required: ['chunk', 'fileId', 'originalFilename', 'chunkIndex', 'totalChunks', 'totalFileSize'],
+      required: ['chunk', 'sessionId', 'chunkIndex'],
       properties: {
         chunk: {
           type: 'string',
           format: 'binary',
           description: 'File chunk binary data',
         },
-        fileId: {
-          type: 'string',
-          description: 'Unique identifier for this upload session (generate on frontend)',
-          example: 'abc-123-def-456',
-        },
-        originalFilename: {
+        sessionId: {
           type: 'string',
-          description: 'Original filename',
-          example: 'vacation-video.mp4',
+          format: 'uuid',
+          description: 'Upload session ID returned by upload/init',
         },
         chunkIndex: {
           type: 'number',
           description: 'Index of this chunk (0-based)',
           example: 0,
         },
-        totalChunks: {
-          type: 'number',
-          description: 'Total number of chunks',
-          example: 10,
-        },
-        totalFileSize: {
-          type: 'number',
-          description: 'Total file size in bytes',
-          example: 104857600,
-        },
       },
     },
   })
   @UseInterceptors(
     FileInterceptor('chunk', {
       limits: {
-        fileSize: 50 * 1024 * 1024, // 50MB max per chunk
+        fileSize: UPLOAD_SESSION.MAX_CHUNK_SIZE,
       },
     }),
   )
   async uploadChunk(
     @UploadedFile() chunk: Express.Multer.File,
     @Body() dto: UploadChunkDto,
+    @Headers('content-digest') contentDigest: string | undefined,
+    @Headers('content-md5') contentMd5: string | undefined,
     @CurrentUser() user: any,
-  ): Promise<BaseResponseDto<{ chunkIndex: number; totalChunks: number; progress: number }>> {
+  ): Promise<BaseResponseDto<UploadSessionDto>> {
     if (!chunk) {
       throw new BadRequestException('No chunk provided');
     }
 
-    await this.filesService.saveChunk(
-      dto.fileId,
+    const session = await this.uploadSessionsService.saveChunk(
+      dto.sessionId,
       dto.chunkIndex,
-      dto.totalChunks,
       chunk,
       user.id,
+      parseContentChecksum({ contentDigest, contentMd5 }),
     );
 
-    const progress = Math.round(((dto.chunkIndex + 1) / dto.totalChunks) * 100);
-
-    return new BaseResponseDto(
-      {
-        chunkIndex: dto.chunkIndex,
-        totalChunks: dto.totalChunks,
-        progress,
-      },
-      `Chunk ${dto.chunkIndex + 1}/${dto.totalChunks} uploaded successfully`,
-    );
+    return new BaseResponseDto(session, SUCCESS_MESSAGES.UPLOAD_CHUNK_RECEIVED);
   }
 
   @Post('upload/complete')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @UseGuards(VerifiedEmailGuard)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: 'Complete chunked upload',
-    description: 'After all chunks are uploaded, call this endpoint to assemble them into the final file.'
+    description: 'After all chunks are uploaded, call this endpoint to assemble them into the final file. Send sha256 to have the assembled file verified; the file returned carries its contentHash either way.'
   })
   async completeChunkedUpload(
     @Body() dto: CompleteUploadDto,
     @CurrentUser() user: any,
   ): Promise<BaseResponseDto<FileResponseDto>> {
-    const file = await this.filesService.assembleChunks(
-      dto.fileId,
-      dto.originalFilename,
-      dto.totalFileSize,
-      dto.mimeType,
-      user.id,
-    );
-
+    const file = await this.uploadSessionsService.complete(dto.sessionId, user.id, dto.sha256);
     return new BaseResponseDto(file, 'File assembled and uploaded successfully');
   }
 
-  @Get('upload/status/:fileId')
+  @Get('upload/status/:sessionId')
   @ApiOperation({ 
     summary: 'Get chunked upload status',
-    description: 'Check the status of an ongoing chunked upload. Useful for resume functionality.'
+    description: 'Check the status of an upload session and which chunks it has received. Useful for resume functionality.'
   })
   async getChunkUploadStatus(
-    @Param('fileId') fileId: string,
+    @Param('sessionId') sessionId: string,
     @CurrentUser() user: any,
-  ): Promise<BaseResponseDto<ChunkUploadStatusDto>> {
-    const status = await this.filesService.getChunkUploadStatus(fileId, user.id);
-    return new BaseResponseDto(status, 'Upload status retrieved');
+  ): Promise<BaseResponseDto<UploadSessionDto>> {
+    const session = await this.uploadSessionsService.getStatus(sessionId, user.id);
+    return new BaseResponseDto(session, 'Upload status retrieved');
   }
 
-  @Delete('upload/cancel/:fileId')
+  @Delete('upload/cancel/:sessionId')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: 'Cancel chunked upload',
-    description: 'Cancel an ongoing chunked upload and clean up temporary files.'
+    description: 'Cancel an active upload session, releasing its storage reservation and cleaning up temporary files.'
   })
   async cancelChunkedUpload(
-    @Param('fileId') fileId: string,
+    @Param('sessionId') sessionId: string,
     @CurrentUser() user: any,
   ): Promise<BaseResponseDto<null>> {
-    await this.filesService.cancelChunkedUpload(fileId, user.id);
-    return new BaseResponseDto(null, 'Upload cancelled successfully');
+    await this.uploadSessionsService.cancel(sessionId, user.id);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.UPLOAD_SESSION_CANCELLED);
+  }
+
+  // ============ Direct Upload Endpoints (S3) ============
+
+  @Post('upload/presign')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @UseGuards(VerifiedEmailGuard)
+  @ApiOperation({
+    summary: 'Start a direct upload to S3',
+    description: 'Returns presigned URLs to upload the file straight to S3 without going through the server: a single PUT URL (sha256 required, the URL only accepts that content), or one URL per part for files above 100MB. The file is checked against the plan and its size is reserved against the storage quota. Call upload/presign/:sessionId/confirm once the upload is done. Only available with S3 storage.'
+  })
+  async presignUpload(
+    @Body() dto: PresignUploadDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<DirectUploadDto>> {
+    const upload = await this.directUploadsService.presign(user.id, dto);
+    return new BaseResponseDto(upload, SUCCESS_MESSAGES.DIRECT_UPLOAD_CREATED);
+  }
+
+  @Post('upload/presign/:sessionId/confirm')
+  @RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+  @UseGuards(VerifiedEmailGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm a direct upload',
+    description: 'Checks the uploaded object against the declared size and type, completing the multipart upload first if any, then reads the object back to hash it (checked against the declared sha256, and deduplicated against stored content) and extract searchable text before creating the file. Video thumbnails are generated in the background. Until every part is uploaded this returns DIRECT_UPLOAD_INCOMPLETE and can be retried.'
+  })
+  async confirmDirectUpload(
+    @Param('sessionId') sessionId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FileResponseDto>> {
+    const file = await this.directUploadsService.confirm(sessionId, user.id);
+    return new BaseResponseDto(file, SUCCESS_MESSAGES.FILE_UPLOADED);
   }
 }
@@ -1,16 +1,62 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import * as path from 'path';
 import { FilesController } from './files.controller';
+import { FileVersionsController } from './file-versions.controller';
+import { TusController } from './tus.controller';
+import { LocalFilesController } from './local-files.controller';
 import { FilesService } from './files.service';
 import { UploadRecommendationService } from './upload-recommendation.service';
 import { ThumbnailService } from './thumbnail.service';
+import { TrashPurgeService } from './trash-purge.service';
+import { FileVersionsService } from './file-versions.service';
+import { TextExtractionService } from './text-extraction.service';
+import { FileSearchService } from './file-search.service';
+import { BlobService } from './blob.service';
+import { StorageQuotaService } from './storage-quota.service';
+import { UploadSessionsService } from './upload-sessions.service';
+import { TusService } from './tus.service';
+import { DirectUploadsService } from './direct-uploads.service';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { UPLOAD_SESSION } from '../../common/constants';
 
 @Module({
-  imports: [PrismaModule, ConfigModule],
-  controllers: [FilesController],
-  providers: [FilesService, UploadRecommendationService, ThumbnailService],
-  exports: [FilesService],
+  imports: [
+    PrismaModule,
+    ConfigModule,
+    PermissionsModule,
+    // Uploads go to disk rather than memory unless an interceptor sets its own storage
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        dest: path.resolve(
+          process.cwd(),
+          configService.get<string>('uploadConfig.tempDirectory') ??
+            UPLOAD_SESSION.DEFAULT_TEMP_DIRECTORY,
+          UPLOAD_SESSION.INCOMING_DIRECTORY,
+        ),
+      }),
+    }),
+  ],
+  controllers: [FilesController, FileVersionsController, TusController, LocalFilesController],
+  providers: [
+    FilesService,
+    UploadRecommendationService,
+    ThumbnailService,
+    TrashPurgeService,
+    FileVersionsService,
+    TextExtractionService,
+    FileSearchService,
+    BlobService,
+    StorageQuotaService,
+    UploadSessionsService,
+    TusService,
+    DirectUploadsService,
+  ],
+  exports: [FilesService, StorageQuotaService],
 })
 export class FilesModule {}
 
@@ -1,25 +1,93 @@
 import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { PermissionRole, Prisma } from '@prisma/client';
 import * as path from 'path';
 import { join } from 'path';
 import { promises as fs } from 'fs';
 import { createWriteStream, createReadStream } from 'fs';
+import { Writable } from 'stream';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
 import { PrismaService } from '../../prisma/prisma.service';
 import { LoggerService } from '../../common/logger/logger.service';
 import { StorageService } from '../../common/storage/storage.service';
+import { IMultipartUploadPart } from '../../common/interfaces/storage.interface';
 import { ThumbnailService } from './thumbnail.service';
-import { SUCCESS_MESSAGES, FILE_UPLOAD, FILE_SELECT_FIELDS } from '../../common/constants';
-import { BusinessException } from '../../common/exceptions';
+import { FileVersionsService } from './file-versions.service';
+import { TextExtractionService } from './text-extraction.service';
+import { FileSearchService } from './file-search.service';
+import { BlobService } from './blob.service';
+import { ReservationKey, StorageQuotaService } from './storage-quota.service';
+import { AccessPolicyService, AccessRole } from '../permissions/access-policy.service';
+import {
+  SUCCESS_MESSAGES,
+  FILE_UPLOAD,
+  SEARCH,
+  FILE_SELECT_FIELDS,
+  FILE_LISTING,
+  TRASH,
+  TRASH_PURGE_SELECT_FIELDS,
+  UPLOAD_SESSION,
+} from '../../common/constants';
+import { AppException, BusinessException } from '../../common/exceptions';
+import { onlyTrashed, withTrashed } from '../../prisma/extensions';
+import { addDays } from '../../common/utils/date.util';
 import {
   formatFileSize,
   getFileExtension,
   getFileTypeCategory,
-  bytesToMB,
-  bytesToGB,
-  getMaxFileSize,
+  hashFile,
 } from '../../common/utils/file.util';
+import {
+  PaginatedResult,
+  calculatePagination,
+  decodeCursor,
+  encodeCursor,
+  sanitizePaginationParams,
+} from '../../common/utils/pagination.util';
 import { FileResponseDto } from './dto/file-response.dto';
-import { ChunkUploadStatusDto } from './dto/chunk-upload.dto';
+import { TrashedFileResponseDto } from './dto/trashed-file-response.dto';
+import { SharedFileResponseDto } from './dto/shared-file-response.dto';
+import { ListFilesQueryDto } from './dto/list-files-query.dto';
+import { FileSearchResultDto, SearchFilesQueryDto } from './dto/search-files.dto';
+
+/**
+ * An object the client uploaded straight to S3, verified against its upload
+ */
+export interface DirectUploadedObject {
+  /** Direct upload ID, also the key of the upload's quota reservation */
+  uploadId: string;
+  storageKey: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  folderId: string | null;
+  /** SHA-256 (hex, lowercase) declared by the client, verified against the object */
+  sha256: string | null;
+}
+
+/**
+ * A chunked upload whose chunks have all been received
+ */
+export interface ChunkedUpload {
+  /** Upload session or tus upload ID, also the key of the upload's quota reservation */
+  uploadId: string;
+  chunkDir: string;
+  /** Chunk files in assembly order, empty for a multipart upload */
+  chunkPaths: string[];
+  fileName: string;
+  mimeType: string;
+  totalSize: number;
+  folderId: string | null;
+  /** SHA-256 (hex) the client expects for the whole file */
+  sha256?: string;
+  /** Set when the chunks were uploaded to S3 as the parts of a multipart upload */
+  multipart?: {
+    storageKey: string;
+    multipartId: string;
+    parts: IMultipartUploadPart[];
+  };
+}
 
 @Injectable()
 export class FilesService {
@@ -29,12 +97,22 @@ export class FilesService {
     private readonly storageService: StorageService,
     private readonly configService: ConfigService,
     private readonly thumbnailService: ThumbnailService,
+    private readonly fileVersionsService: FileVersionsService,
+    private readonly accessPolicy: AccessPolicyService,
+    private readonly textExtractionService: TextExtractionService,
+    private readonly fileSearchService: FileSearchService,
+    private readonly blobService: BlobService,
+    private readonly storageQuotaService: StorageQuotaService,
   ) {}
 
   /**
    * Upload a file and store metadata
    */
-  async uploadFile(file: Express.Multer.File, userId: string): Promise<FileResponseDto> {
+  async uploadFile(
+    file: Express.Multer.File,
+    userId: string,
+    folderId?: string,
+  ): Promise<FileResponseDto> {
     if (!file) throw new BadRequestException('No file provided');
 
     const fileType = getFileTypeCategory(file.mimetype);
@@ -51,20 +129,40 @@ export class FilesService {
       fileType,
       extension: fileExtension,
       storageType,
+      folderId,
     });
 
     try {
       // Validate file
       this.validateFile(file);
 
-      // Check user storage quota
-      await this.checkUserStorageQuota(userId, file.size);
+      // Uploads into a shared folder belong to the folder owner and count against their quota
+      const ownerId = await this.resolveUploadOwner(userId, folderId);
 
-      // Generate storage key
-      const storageKey = this.generateStorageKey(userId, file.originalname);
+      // Check the owner's plan limits and storage quota
+      await this.storageQuotaService.assertCanStore(ownerId, file.mimetype, file.size);
 
-      // Upload to storage (S3 or Local based on configuration)
-      const uploadResult = await this.storageService.uploadFile(file, storageKey);
+      // Generate storage key
+      const storageKey = this.generateStorageKey(ownerId, file.originalname);
+
+      // Extract searchable text while the upload is still on local disk
+      const contentText = await this.textExtractionService.extractText(file.path, file.mimetype);
+
+      // Hash the upload while it is still on local disk; identical content is stored once
+      const contentHash = await hashFile(file.path);
+      let uploadedStorageType: string = storageType;
+
+      // Upload to storage (S3 or Local based on configuration) unless the content already exists
+      const stored = await this.blobService.acquire(
+        contentHash,
+        file.size,
+        async () => {
+          const uploadResult = await this.storageService.uploadFile(file, storageKey);
+          uploadedStorageType = uploadResult.storageType;
+          return uploadResult.url;
+        },
+        () => fs.unlink(file.path).catch(() => {}),
+      );
 
       let thumbnailPath: string | null = null;
       let duration: number | null = null;
@@ -72,7 +170,7 @@ export class FilesService {
       // Generate thumbnail for videos (only for local storage)
       if (fileType === 'video' && storageType === 'local') {
         try {
-          const videoPath = join(process.cwd(), uploadResult.url);
+          const videoPath = join(process.cwd(), stored.path);
           const thumbnailDir = path.dirname(videoPath);
           const baseFilename = path.basename(storageKey, path.extname(storageKey));
 
@@ -92,7 +190,7 @@ export class FilesService {
 
           this.logger.log('Video thumbnail generated', {
             context: 'FilesService',
-            videoPath: uploadResult.url,
+            videoPath: stored.path,
             thumbnailPath,
             duration,
           });
@@ -106,19 +204,19 @@ export class FilesService {
         }
       }
 
-      // Store file metadata in database
-      const uploadedFile = await this.prisma.file.create({
-        data: {
-          name: file.originalname,
-          size: file.size,
-          mimeType: file.mimetype,
-          path: uploadResult.url, // Store the URL/path returned by storage
-          thumbnailPath,
-          duration,
-          userId,
-        },
-        select: FILE_SELECT_FIELDS,
-      });
+      // Store file metadata in database (re-uploads become a new version)
+      const uploadedFile = await this.saveFileRecord({
+        name: file.originalname,
+        size: file.size,
+        mimeType: file.mimetype,
+        path: stored.path, // Store the URL/path returned by storage
+        contentHash,
+        thumbnailPath,
+        duration,
+        contentText,
+        userId: ownerId,
+        folderId: folderId ?? null,
+      }, userId);
 
       this.logger.log(SUCCESS_MESSAGES.FILE_UPLOADED, {
         context: 'FilesService',
@@ -127,8 +225,9 @@ export class FilesService {
         fileName: uploadedFile.name,
         fileType,
         fileSize: formatFileSize(uploadedFile.size),
-        storageType: uploadResult.storageType,
+        storageType: uploadedStorageType,
         storageKey,
+        deduplicated: stored.deduplicated,
         hasThumbnail: !!thumbnailPath,
       });
 
@@ -144,8 +243,8 @@ export class FilesService {
       });
 
       // Storage service handles cleanup
-      // Re-throw if it's already a BusinessException
-      if (error instanceof BusinessException || error instanceof BadRequestException) {
+      // Re-throw if it's already a business or validation error
+      if (error instanceof AppException || error instanceof BadRequestException) {
         throw error;
       }
 
@@ -153,10 +252,80 @@ export class FilesService {
     }
   }
 
+  /**
+   * Persist metadata for uploaded content. When a file with the same name already exists
+   * in the same folder, its current content is archived as a version instead of creating
+   * a duplicate file. The quota reservation of a chunked upload is consumed.
+   */
+  private async saveFileRecord(
+    data: {
+      name: string;
+      size: number;
+      mimeType: string;
+      path: string;
+      contentHash: string | null;
+      thumbnailPath: string | null;
+      duration: number | null;
+      contentText: string | null;
+      userId: string;
+      folderId: string | null;
+    },
+    uploadedById: string,
+    reservation?: ReservationKey,
+  ) {
+    try {
+      // The quota is enforced in the same transaction that writes the record
+      const { file, replaced } = await this.storageQuotaService.runWithinQuota(
+        data.userId,
+        data.size,
+        async (tx) => {
+          const existing = await tx.file.findFirst({
+            where: { userId: data.userId, folderId: data.folderId, name: data.name },
+            select: { id: true },
+          });
+
+          if (existing) {
+            const replacedFile = await this.fileVersionsService.replaceContent(
+              tx,
+              existing.id,
+              {
+                size: data.size,
+                mimeType: data.mimeType,
+                path: data.path,
+                contentHash: data.contentHash,
+                thumbnailPath: data.thumbnailPath,
+                duration: data.duration,
+                contentText: data.contentText,
+              },
+              uploadedById,
+            );
+            return { file: replacedFile, replaced: true };
+          }
+
+          const createdFile = await tx.file.create({
+            data: { ...data, uploadedById },
+            select: FILE_SELECT_FIELDS,
+          });
+          return { file: createdFile, replaced: false };
+        },
+        reservation,
+      );
+
+      if (replaced) {
+        await this.fileVersionsService.pruneVersionsSafely(file.id);
+      }
+      return file;
+    } catch (error) {
+      // The blob reference taken for this content was never persisted
+      await this.blobService.release({ contentHash: data.contentHash, path: data.path });
+      throw error;
+    }
+  }
+
   /**
    * Generate a unique storage key for the file
    */
-  private generateStorageKey(userId: string, originalFilename: string): string {
+  generateStorageKey(userId: string, originalFilename: string): string {
     const timestamp = Date.now();
     const random = Math.round(Math.random() * 1e9);
     const ext = getFileExtension(originalFilename);
@@ -174,7 +343,8 @@ export class FilesService {
   }
 
   /**
-   * Validate uploaded file
+   * Validate uploaded file. Size and type limits of the owner's plan are checked by
+   * StorageQuotaService.
    */
   private validateFile(file: Express.Multer.File): void {
     // Validate MIME type
@@ -188,28 +358,6 @@ export class FilesService {
       throw BusinessException.fileTypeNotAllowed(file.mimetype);
     }
 
-    // Validate file size based on type
-    const maxSize = getMaxFileSize(file.mimetype);
-
-    if (file.size > maxSize) {
-      const maxSizeMB = Math.round(maxSize / (1024 * 1024));
-      const actualSizeMB = bytesToMB(file.size);
-      const fileType = getFileTypeCategory(file.mimetype);
-
-      this.logger.warn('File size exceeds limit', {
-        context: 'FilesService',
-        fileName: file.originalname,
-        fileSize: file.size,
-        maxSize,
-        fileType,
-        errorCode: 'FILE_TOO_LARGE',
-      });
-
-      throw BusinessException.fileTooLarge(
-        `File size (${actualSizeMB}MB) exceeds maximum allowed size of ${maxSizeMB}MB for ${fileType === 'video' ? 'videos' : 'images/documents'}`,
-      );
-    }
-
     // Validate file name length
     if (file.originalname.length > FILE_UPLOAD.MAX_FILENAME_LENGTH) {
       throw BusinessException.fileUploadFailed(
@@ -219,124 +367,247 @@ export class FilesService {
   }
 
   /**
-   * Check user storage quota
+   * Owner of the files uploaded by a user into a folder: the folder owner,
+   * provided the uploader may edit the folder
    */
-  private async checkUserStorageQuota(userId: string, newFileSize: number): Promise<void> {
-    try {
-      // Get total size of user's files
-      const result = await this.prisma.file.aggregate({
-        where: { userId },
-        _sum: {
-          size: true,
-        },
-      });
+  async resolveUploadOwner(userId: string, folderId?: string): Promise<string> {
+    if (!folderId) {
+      return userId;
+    }
 
-      const currentTotalSize = result._sum.size || 0;
-      const maxStorageSize = FILE_UPLOAD.MAX_STORAGE_QUOTA;
+    const folder = await this.accessPolicy.assertFolderAccess(
+      folderId,
+      userId,
+      PermissionRole.EDITOR,
+    );
+    return folder.userId;
+  }
 
-      if (currentTotalSize + newFileSize > maxStorageSize) {
-        const currentSizeGB = bytesToGB(currentTotalSize);
-        const maxSizeGB = bytesToGB(maxStorageSize);
+  /**
+   * List the user's files one page at a time, with sorting and filters
+   */
+  async getUserFiles(
+    userId: string,
+    query: ListFilesQueryDto = {},
+  ): Promise<PaginatedResult<FileResponseDto>> {
+    const { cursor, limit } = sanitizePaginationParams(query);
+    const sortBy = query.sortBy ?? FILE_LISTING.DEFAULT_SORT_BY;
+    const order = query.order ?? FILE_LISTING.DEFAULT_ORDER;
+    const sortKey = `${sortBy}:${order}`;
 
-        this.logger.warn('Storage quota exceeded', {
-          context: 'FilesService',
-          userId,
-          currentTotalSize,
-          newFileSize,
-          maxStorageSize,
-          errorCode: 'STORAGE_QUOTA_EXCEEDED',
-        });
+    this.logger.debug('Fetching user files', {
+      context: 'FilesService',
+      userId,
+      query,
+    });
 
-        throw BusinessException.fileUploadFailed(
-          `Storage quota exceeded. Current usage: ${currentSizeGB}GB / ${maxSizeGB}GB`,
-        );
-      }
+    const where = this.buildFileListingWhere(userId, query);
 
-      this.logger.debug('Storage quota check passed', {
-        context: 'FilesService',
-        userId,
-        currentSize: formatFileSize(currentTotalSize),
-        newFileSize: formatFileSize(newFileSize),
-        totalAfterUpload: formatFileSize(currentTotalSize + newFileSize),
-      });
-    } catch (error) {
-      // If it's already a BusinessException, re-throw it
-      if (error instanceof BusinessException) {
-        throw error;
+    // Keyset condition: rows after the cursor in (sort field, id) order. The id tiebreak
+    // is ascending because SortExtension appends `id: 'asc'` to every findMany.
+    let cursorWhere: Prisma.FileWhereInput | undefined;
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      if (!position || position.sort !== sortKey) {
+        throw BusinessException.invalidCursor();
       }
 
-      // Log but don't fail the upload if quota check fails
-      this.logger.error('Storage quota check failed', error.stack, {
-        context: 'FilesService',
-        userId,
-      });
+      const value = sortBy === 'createdAt' ? new Date(position.value) : position.value;
+      cursorWhere = {
+        OR: [
+          { [sortBy]: { [order === 'desc' ? 'lt' : 'gt']: value } },
+          { [sortBy]: value, id: { gt: position.id } },
+        ],
+      };
     }
-  }
 
-  /**
-   * Get all files for a user with optional filtering
-   */
-  async getUserFiles(userId: string, fileType?: string): Promise<FileResponseDto[]> {
-    this.logger.debug('Fetching user files', {
+    const [rows, totalCount] = await Promise.all([
+      this.prisma.file.findMany({
+        where: cursorWhere ? { AND: [where, cursorWhere] } : where,
+        select: FILE_SELECT_FIELDS,
+        orderBy: { [sortBy]: order },
+        take: limit + 1,
+      }),
+      this.prisma.file.count({ where }),
+    ]);
+
+    const page = calculatePagination(rows, limit, totalCount, (last) =>
+      encodeCursor({
+        sort: sortKey,
+        value: last[sortBy] instanceof Date ? last[sortBy].toISOString() : last[sortBy],
+        id: last.id,
+      }),
+    );
+
+    this.logger.debug(`Retrieved ${page.items.length} files`, {
       context: 'FilesService',
       userId,
-      fileType,
+      fileCount: page.items.length,
+      totalCount,
+      hasNextPage: page.meta.hasNextPage,
     });
 
-    // Build where clause
-    const where: any = { userId };
+    return { items: page.items.map((file) => this.addFileUrls(file)), meta: page.meta };
+  }
+
+  /**
+   * Translate listing filters into a where clause
+   */
+  private buildFileListingWhere(userId: string, query: ListFilesQueryDto): Prisma.FileWhereInput {
+    const conditions: Prisma.FileWhereInput[] = [{ userId }];
 
     // Filter by file type if provided
-    if (fileType) {
-      switch (fileType.toLowerCase()) {
-        case 'video':
-          where.mimeType = { startsWith: 'video/' };
-          break;
-        case 'image':
-          where.mimeType = { startsWith: 'image/' };
-          break;
-        case 'document':
-          where.mimeType = {
-            in: FILE_UPLOAD.DOCUMENT_MIME_TYPES,
-          };
-          break;
-        case 'archive':
-          where.mimeType = 'application/zip';
-          break;
-      }
+    switch (query.type?.toLowerCase()) {
+      case 'video':
+        conditions.push({ mimeType: { startsWith: 'video/' } });
+        break;
+      case 'image':
+        conditions.push({ mimeType: { startsWith: 'image/' } });
+        break;
+      case 'document':
+        conditions.push({ mimeType: { in: [...FILE_UPLOAD.DOCUMENT_MIME_TYPES] } });
+        break;
+      case 'archive':
+        conditions.push({ mimeType: 'application/zip' });
+        break;
+    }
+
+    if (query.minSize !== undefined || query.maxSize !== undefined) {
+      conditions.push({ size: { gte: query.minSize, lte: query.maxSize } });
     }
 
+    if (query.createdAfter || query.createdBefore) {
+      conditions.push({
+        createdAt: {
+          gte: query.createdAfter ? new Date(query.createdAfter) : undefined,
+          lt: query.createdBefore ? new Date(query.createdBefore) : undefined,
+        },
+      });
+    }
+
+    if (query.extension) {
+      conditions.push({
+        OR: query.extension.split(',').map((extension) => ({
+          name: { endsWith: `.${extension}`, mode: 'insensitive' as const },
+        })),
+      });
+    }
+
+    if (query.folderId) {
+      conditions.push({
+        folderId: query.folderId === FILE_LISTING.ROOT_FOLDER ? null : query.folderId,
+      });
+    }
+
+    return { AND: conditions };
+  }
+
+
+  /**
+   * Get the files placed directly inside a folder (null for the root)
+   */
+  async getFolderFiles(userId: string, folderId: string | null): Promise<FileResponseDto[]> {
     const files = await this.prisma.file.findMany({
-      where,
+      where: { userId, folderId },
       select: FILE_SELECT_FIELDS,
       orderBy: {
-        createdAt: 'desc',
+        name: 'asc',
       },
     });
 
-    // Add URLs to each file
-    const filesWithUrls = files.map((file) => this.addFileUrls(file));
+    return files.map((file) => this.addFileUrls(file));
+  }
 
-    // Calculate statistics
-    const totalSize = filesWithUrls.reduce((sum, file) => sum + file.size, 0);
-    const fileTypeBreakdown = filesWithUrls.reduce(
-      (acc, file) => {
-        const type = getFileTypeCategory(file.mimeType);
-        acc[type] = (acc[type] || 0) + 1;
-        return acc;
-      },
-      {} as Record<string, number>,
+  /**
+   * Full-text search over every file the user can view, best matches first
+   */
+  async searchFiles(userId: string, query: SearchFilesQueryDto): Promise<FileSearchResultDto[]> {
+    const hits = await this.fileSearchService.search(
+      userId,
+      query.q.trim(),
+      query.limit ?? SEARCH.DEFAULT_LIMIT,
     );
 
-    this.logger.debug(`Retrieved ${filesWithUrls.length} files`, {
+    if (hits.length === 0) {
+      return [];
+    }
+
+    const files = await this.prisma.file.findMany({
+      where: { id: { in: hits.map((hit) => hit.id) } },
+      select: FILE_SELECT_FIELDS,
+    });
+    const filesById = new Map(files.map((file) => [file.id, file]));
+
+    // Keep the ranking order from the search query
+    return hits
+      .filter((hit) => filesById.has(hit.id))
+      .map(({ id, ...highlights }) => ({
+        ...this.addFileUrls(filesById.get(id)),
+        ...highlights,
+      }));
+  }
+
+  /**
+   * List the files other users have shared directly with the user, most recent first
+   */
+  async getSharedWithMe(userId: string): Promise<SharedFileResponseDto[]> {
+    const permissions = await this.prisma.filePermission.findMany({
+      // Files of deleted accounts stay hidden during the deletion grace period
+      where: { userId, file: { deletedAt: null, user: { deletedAt: null } } },
+      select: { role: true, file: { select: FILE_SELECT_FIELDS } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return permissions.map(({ role, file }) => ({ ...this.addFileUrls(file), role }));
+  }
+
+  /**
+   * Move a file into another folder (null moves it to the root)
+   */
+  async moveFile(fileId: string, userId: string, folderId: string | null): Promise<FileResponseDto> {
+    const file = await this.getFileById(fileId, userId, 'OWNER');
+
+    if (folderId) {
+      await this.accessPolicy.assertFolderAccess(folderId, userId, 'OWNER');
+    }
+
+    const movedFile = await this.prisma.file.update({
+      where: { id: file.id },
+      data: { folderId },
+      select: FILE_SELECT_FIELDS,
+    });
+
+    this.logger.log('File moved', {
       context: 'FilesService',
       userId,
-      fileCount: filesWithUrls.length,
-      totalSize: formatFileSize(totalSize),
-      fileTypeBreakdown,
+      fileId,
+      fromFolderId: file.folderId,
+      toFolderId: folderId,
     });
 
-    return filesWithUrls;
+    return this.addFileUrls(movedFile);
+  }
+
+  /**
+   * Toggle whether a file can be viewed without authentication at /files/view/:id
+   */
+  async setFilePublic(fileId: string, userId: string, isPublic: boolean): Promise<FileResponseDto> {
+    const file = await this.getFileById(fileId, userId, 'OWNER');
+
+    const updatedFile = await this.prisma.file.update({
+      where: { id: file.id },
+      data: { isPublic },
+      select: FILE_SELECT_FIELDS,
+    });
+
+    this.logger.log('File visibility updated', {
+      context: 'FilesService',
+      userId,
+      fileId,
+      isPublic,
+    });
+
+    return this.addFileUrls(updatedFile);
   }
 
   /**
@@ -347,19 +618,42 @@ export class FilesService {
     totalSize: number;
     totalSizeFormatted: string;
     filesByType: Record<string, { count: number; size: number; sizeFormatted: string }>;
+    trash: { count: number; size: number; sizeFormatted: string };
+    versions: { count: number; size: number; sizeFormatted: string };
+    deduplication: {
+      logicalSize: number;
+      physicalSize: number;
+      savedSize: number;
+      savedSizeFormatted: string;
+    };
+    reserved: { size: number; sizeFormatted: string };
   }> {
     this.logger.debug('Fetching user storage statistics', {
       context: 'FilesService',
       userId,
     });
 
-    const files = await this.prisma.file.findMany({
-      where: { userId },
-      select: {
-        size: true,
-        mimeType: true,
-      },
-    });
+    const [files, trashed, versions, deduplication, usage] = await Promise.all([
+      this.prisma.file.findMany({
+        where: { userId },
+        select: {
+          size: true,
+          mimeType: true,
+        },
+      }),
+      this.prisma.file.aggregate({
+        where: { userId, ...onlyTrashed() },
+        _count: { _all: true },
+        _sum: { size: true },
+      }),
+      this.prisma.fileVersion.aggregate({
+        where: { file: { userId } },
+        _count: { _all: true },
+        _sum: { size: true },
+      }),
+      this.blobService.getUserDeduplicationStats(userId),
+      this.storageQuotaService.getUsageBreakdown(userId),
+    ]);
 
     const totalSize = files.reduce((sum, file) => sum + file.size, 0);
 
@@ -383,6 +677,25 @@ export class FilesService {
       totalSize,
       totalSizeFormatted: formatFileSize(totalSize),
       filesByType,
+      trash: {
+        count: trashed._count._all,
+        size: trashed._sum.size || 0,
+        sizeFormatted: formatFileSize(trashed._sum.size || 0),
+      },
+      versions: {
+        count: versions._count._all,
+        size: versions._sum.size || 0,
+        sizeFormatted: formatFileSize(versions._sum.size || 0),
+      },
+      deduplication: {
+        ...deduplication,
+        savedSizeFormatted: formatFileSize(deduplication.savedSize),
+      },
+      // Held against the quota by chunked uploads still in progress
+      reserved: {
+        size: usage.reservedBytes,
+        sizeFormatted: formatFileSize(usage.reservedBytes),
+      },
     };
 
     this.logger.debug('Storage statistics calculated', {
@@ -395,9 +708,13 @@ export class FilesService {
   }
 
   /**
-   * Get file by ID with ownership check
+   * Get file by ID, requiring at least the given role (viewer by default)
    */
-  async getFileById(fileId: string, userId: string): Promise<FileResponseDto> {
+  async getFileById(
+    fileId: string,
+    userId: string,
+    requiredRole: AccessRole = PermissionRole.VIEWER,
+  ): Promise<FileResponseDto> {
     this.logger.debug('Fetching file by ID', {
       context: 'FilesService',
       userId,
@@ -419,17 +736,7 @@ export class FilesService {
       throw BusinessException.fileNotFound(fileId);
     }
 
-    // Check ownership
-    if (file.userId !== userId) {
-      this.logger.warn('File access denied: Not file owner', {
-        context: 'FilesService',
-        userId,
-        fileId,
-        ownerId: file.userId,
-        errorCode: 'FILE_NOT_OWNER',
-      });
-      throw BusinessException.fileNotOwner(fileId, userId);
-    }
+    await this.accessPolicy.authorizeFile(file, userId, requiredRole);
 
     return this.addFileUrls(file);
   }
@@ -444,11 +751,13 @@ export class FilesService {
     });
 
     const file = await this.prisma.file.findUnique({
-      where: { id: fileId },
+      // Files of deleted accounts stay hidden during the deletion grace period
+      where: { id: fileId, user: { deletedAt: null } },
       select: FILE_SELECT_FIELDS,
     });
 
-    if (!file) {
+    // Only files explicitly made public are reachable without a share link
+    if (!file || !file.isPublic) {
       this.logger.warn('File not found (public access)', {
         context: 'FilesService',
         fileId,
@@ -461,7 +770,8 @@ export class FilesService {
   }
 
   /**
-   * Delete a file (with ownership check)
+   * Move a file to the trash (owner or editor). The file stays in the owner's trash
+   * and the stored bytes are kept until purge.
    */
   async deleteFile(fileId: string, userId: string): Promise<void> {
     this.logger.log('File deletion initiated', {
@@ -470,16 +780,16 @@ export class FilesService {
       fileId,
     });
 
-    // Find file and check ownership
+    // Find file and check access
     const file = await this.prisma.file.findUnique({
       where: { id: fileId },
       select: {
         id: true,
-        path: true,
         name: true,
         size: true,
         mimeType: true,
         userId: true,
+        folderId: true,
       },
     });
 
@@ -493,41 +803,16 @@ export class FilesService {
       throw BusinessException.fileNotFound(fileId);
     }
 
-    // Check if user owns the file
-    if (file.userId !== userId) {
-      this.logger.warn('File deletion failed: Not file owner', {
-        context: 'FilesService',
-        userId,
-        fileId,
-        ownerId: file.userId,
-        errorCode: 'FILE_NOT_OWNER',
-      });
-      throw BusinessException.fileNotOwner(fileId, userId);
-    }
+    await this.accessPolicy.authorizeFile(file, userId, PermissionRole.EDITOR);
 
     try {
-      // Extract storage key from path
-      const storageKey = this.extractStorageKey(file.path);
-
-      // Delete file from storage (S3 or Local)
-      const deleted = await this.storageService.deleteFile(storageKey);
-
-      if (!deleted) {
-        this.logger.warn('File not found in storage, continuing with database deletion', {
-          context: 'FilesService',
-          fileId,
-          filePath: file.path,
-          storageKey,
-        });
-      }
-
-      // Delete from database (soft delete)
+      // Soft delete: the file stays in storage and can be restored from the trash
       await this.prisma.file.update({
         where: { id: fileId },
         data: { deletedAt: new Date() },
       });
 
-      this.logger.log(SUCCESS_MESSAGES.FILE_DELETED, {
+      this.logger.log(SUCCESS_MESSAGES.FILE_TRASHED, {
         context: 'FilesService',
         userId,
         fileId,
@@ -548,17 +833,244 @@ export class FilesService {
   }
 
   /**
-   * Extract storage key from file path/URL
+   * ========================================
+   * TRASH METHODS
+   * ========================================
+   */
+
+  /**
+   * List the user's trashed files, most recently deleted first
+   */
+  async getTrashedFiles(userId: string): Promise<TrashedFileResponseDto[]> {
+    this.logger.debug('Fetching trashed files', {
+      context: 'FilesService',
+      userId,
+    });
+
+    const files = await this.prisma.file.findMany({
+      where: { userId, ...onlyTrashed() },
+      select: { ...FILE_SELECT_FIELDS, deletedAt: true },
+      orderBy: {
+        deletedAt: 'desc',
+      },
+    });
+
+    const retentionDays = this.getTrashRetentionDays();
+
+    return files.map((file) => ({
+      ...this.addFileUrls(file),
+      deletedAt: file.deletedAt,
+      purgeAt: addDays(file.deletedAt, retentionDays),
+    }));
+  }
+
+  /**
+   * Restore a file from the trash. Files whose folder no longer exists come back at the root.
+   * A file uploaded under the same name since then keeps it: the restored file is
+   * renamed "name (restored).ext", so re-uploads still map to a single file.
+   */
+  async restoreFile(fileId: string, userId: string): Promise<FileResponseDto> {
+    const file = await this.findTrashedFile(fileId, userId);
+    const name = await this.findRestoreName(file.userId, file.folderId, file.name);
+
+    const restoredFile = await this.prisma.file.update({
+      where: { id: file.id },
+      data: { deletedAt: null, name },
+      select: FILE_SELECT_FIELDS,
+    });
+
+    this.logger.log(SUCCESS_MESSAGES.FILE_RESTORED, {
+      context: 'FilesService',
+      userId,
+      fileId,
+      folderId: restoredFile.folderId,
+      ...(name !== file.name && { renamedFrom: file.name, name }),
+    });
+
+    return this.addFileUrls(restoredFile);
+  }
+
+  /**
+   * Permanently delete a trashed file and its stored objects
+   */
+  async permanentlyDeleteFile(fileId: string, userId: string): Promise<void> {
+    const file = await this.findTrashedFile(fileId, userId);
+
+    try {
+      await this.purgeFile(file);
+
+      this.logger.log(SUCCESS_MESSAGES.FILE_PERMANENTLY_DELETED, {
+        context: 'FilesService',
+        userId,
+        fileId,
+        fileName: file.name,
+        fileSize: formatFileSize(file.size),
+      });
+    } catch (error) {
+      this.logger.error('Permanent file deletion failed', error.stack, {
+        context: 'FilesService',
+        userId,
+        fileId,
+        errorCode: 'FILE_DELETE_FAILED',
+      });
+      throw BusinessException.fileDeleteFailed(error.message);
+    }
+  }
+
+  /**
+   * Permanently delete every file trashed before the cutoff, in batches
+   * @returns Number of files purged
    */
-  private extractStorageKey(path: string): string {
-    // If it's an S3 URL, extract the key
-    if (path.includes('s3.amazonaws.com') || path.includes('cloudfront.net')) {
-      const url = new URL(path);
-      return url.pathname.substring(1); // Remove leading slash
+  async purgeTrashedFiles(cutoff: Date, batchSize: number = 100): Promise<number> {
+    let purgedCount = 0;
+
+    while (true) {
+      const files = await this.prisma.file.findMany({
+        where: { deletedAt: { not: null, lt: cutoff } },
+        select: TRASH_PURGE_SELECT_FIELDS,
+        take: batchSize,
+      });
+
+      if (files.length === 0) break;
+
+      let batchPurged = 0;
+      for (const file of files) {
+        try {
+          await this.purgeFile(file);
+          batchPurged++;
+        } catch (error) {
+          this.logger.errorFile('Failed to purge trashed file', error, {
+            fileId: file.id,
+            userId: file.userId,
+          });
+        }
+      }
+
+      purgedCount += batchPurged;
+
+      // Stop when nothing in the batch could be purged to avoid looping forever on bad rows
+      if (batchPurged === 0 || files.length < batchSize) break;
+    }
+
+    return purgedCount;
+  }
+
+  /**
+   * Permanently delete every file of a user, trashed or not (account purge)
+   * @returns Number of files purged
+   */
+  async purgeUserFiles(userId: string): Promise<number> {
+    const files = await this.prisma.file.findMany({
+      where: { userId, ...withTrashed() },
+      select: TRASH_PURGE_SELECT_FIELDS,
+    });
+
+    for (const file of files) {
+      await this.purgeFile(file);
     }
 
-    // For local storage, return the path
-    return path;
+    return files.length;
+  }
+
+  /**
+   * Permanently delete a file, trashed or not, regardless of who owns it (administration)
+   */
+  async forceDeleteFile(fileId: string): Promise<{ id: string; userId: string; name: string }> {
+    const file = await this.prisma.file.findUnique({
+      where: { id: fileId, ...withTrashed() },
+      select: TRASH_PURGE_SELECT_FIELDS,
+    });
+
+    if (!file) {
+      this.logger.warn('File not found', {
+        context: 'FilesService',
+        fileId,
+        errorCode: 'FILE_NOT_FOUND',
+      });
+      throw BusinessException.fileNotFound(fileId);
+    }
+
+    await this.purgeFile(file);
+
+    return { id: file.id, userId: file.userId, name: file.name };
+  }
+
+  /**
+   * Find a trashed file and make sure it belongs to the user
+   */
+  private async findTrashedFile(fileId: string, userId: string) {
+    const file = await this.prisma.file.findUnique({
+      where: { id: fileId, ...onlyTrashed() },
+      select: TRASH_PURGE_SELECT_FIELDS,
+    });
+
+    if (!file) {
+      this.logger.warn('Trashed file not found', {
+        context: 'FilesService',
+        userId,
+        fileId,
+        errorCode: 'FILE_NOT_FOUND',
+      });
+      throw BusinessException.fileNotFound(fileId);
+    }
+
+    // The trash belongs to the owner, even when a collaborator trashed the file
+    await this.accessPolicy.authorizeFile(file, userId, 'OWNER');
+
+    return file;
+  }
+
+  /**
+   * First name free among the live files of a folder: the original one, then
+   * "name (restored).ext", "name (restored 2).ext", ...
+   */
+  private async findRestoreName(
+    userId: string,
+    folderId: string | null,
+    name: string,
+  ): Promise<string> {
+    const extension = path.extname(name);
+    const baseName = path.basename(name, extension);
+
+    let candidate = name;
+    for (let attempt = 1; ; attempt++) {
+      const existing = await this.prisma.file.findFirst({
+        where: { userId, folderId, name: candidate },
+        select: { id: true },
+      });
+      if (!existing) {
+        return candidate;
+      }
+      candidate = `${baseName} (restored${attempt > 1 ? ` ${attempt}` : ''})${extension}`;
+    }
+  }
+
+  /**
+   * Remove a file's stored objects (file, thumbnail and versions) and its database row
+   */
+  private async purgeFile(file: {
+    id: string;
+    path: string;
+    contentHash: string | null;
+    thumbnailPath: string | null;
+  }): Promise<void> {
+    await this.fileVersionsService.deleteAllVersions(file.id);
+    await this.prisma.file.delete({ where: { id: file.id } });
+
+    // Shared content is only deleted from storage once its last reference is gone
+    await this.blobService.release(file);
+
+    if (file.thumbnailPath) {
+      await this.storageService.deleteFile(this.storageService.extractStorageKey(file.thumbnailPath));
+    }
+  }
+
+
+  /**
+   * Number of days a file stays in the trash before it is purged
+   */
+  getTrashRetentionDays(): number {
+    return this.configService.get<number>('trashConfig.retentionDays') || TRASH.DEFAULT_RETENTION_DAYS;
   }
 
   /**
@@ -628,19 +1140,8 @@ export class FilesService {
    * Add file URLs (view URL and thumbnail URL) to file object
    */
   private addFileUrls(file: any): FileResponseDto {
-    const baseUrl = this.configService.get<string>('BASE_URL') || 
-      `http://localhost:${this.configService.get<number>('PORT', 7001)}`;
-    
-    let url: string;
-    
-    // S3 files: use S3 URL directly
-    if (file.path.startsWith('http://') || file.path.startsWith('https://')) {
-      url = file.path;
-    } else {
-      // Local files: use direct static path for better performance
-      // Format: http://localhost:7001/uploads/users/.../file.png
-      url = `${baseUrl}/${file.path}`;
-    }
+    // S3 files use their stored URL, local files a signed URL that expires
+    const url = this.storageService.getSignedFileUrl(file.path, file.mimeType);
     
     // Generate thumbnail URL for images and videos
     let thumbnailUrl: string | undefined;
@@ -648,10 +1149,8 @@ export class FilesService {
     
     if (fileType === 'image' || fileType === 'video') {
       if (file.thumbnailPath) {
-        // If thumbnail exists, use it
-        thumbnailUrl = file.thumbnailPath.startsWith('http://') || file.thumbnailPath.startsWith('https://')
-          ? file.thumbnailPath
-          : `${baseUrl}/${file.thumbnailPath}`;
+        // If thumbnail exists, use it (thumbnails are always JPEG)
+        thumbnailUrl = this.storageService.getSignedFileUrl(file.thumbnailPath, 'image/jpeg');
       } else {
         // For images, use the image itself as thumbnail
         // For videos without thumbnail, use a placeholder or the video URL
@@ -678,199 +1177,136 @@ export class FilesService {
    */
 
   /**
-   * Save uploaded chunk to temporary storage
-   */
-  async saveChunk(
-    fileId: string,
-    chunkIndex: number,
-    totalChunks: number,
-    chunk: Express.Multer.File,
-    userId: string,
-  ): Promise<void> {
-    const chunkDir = join(process.cwd(), 'uploads', 'temp', userId, fileId);
-    
-    try {
-      // Ensure chunk directory exists
-      await fs.mkdir(chunkDir, { recursive: true });
-
-      // Save chunk with padded index for proper sorting
-      const paddedIndex = chunkIndex.toString().padStart(5, '0');
-      const chunkPath = join(chunkDir, `chunk-${paddedIndex}`);
-      
-      await fs.writeFile(chunkPath, chunk.buffer);
-
-      this.logger.log('Chunk saved', {
-        context: 'FilesService',
-        userId,
-        fileId,
-        chunkIndex,
-        totalChunks,
-        chunkSize: formatFileSize(chunk.size),
-        progress: `${chunkIndex + 1}/${totalChunks}`,
-      });
-    } catch (error) {
-      this.logger.error('Failed to save chunk', error.stack, {
-        context: 'FilesService',
-        userId,
-        fileId,
-        chunkIndex,
-        error: error.message,
-      });
-      throw new BadRequestException(`Failed to save chunk ${chunkIndex}`);
-    }
-  }
-
-  /**
-   * Get upload status for a chunked upload
-   */
-  async getChunkUploadStatus(fileId: string, userId: string): Promise<ChunkUploadStatusDto> {
-    const chunkDir = join(process.cwd(), 'uploads', 'temp', userId, fileId);
-
-    try {
-      // Check if directory exists
-      await fs.access(chunkDir);
-      
-      // List all chunks
-      const files = await fs.readdir(chunkDir);
-      const chunkFiles = files.filter(f => f.startsWith('chunk-'));
-      
-      // Extract chunk indices
-      const receivedChunkIndices = chunkFiles
-        .map(f => parseInt(f.replace('chunk-', '')))
-        .sort((a, b) => a - b);
-
-      // Read metadata if exists
-      const metadataPath = join(chunkDir, 'metadata.json');
-      let totalChunks = receivedChunkIndices.length;
-      
-      try {
-        const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
-        totalChunks = metadata.totalChunks || totalChunks;
-      } catch {
-        // Metadata not found, use current chunk count
-      }
-
-      const chunksReceived = receivedChunkIndices.length;
-      const progress = totalChunks > 0 ? Math.round((chunksReceived / totalChunks) * 100) : 0;
-      const isComplete = chunksReceived === totalChunks && totalChunks > 0;
-
-      return {
-        fileId,
-        totalChunks,
-        chunksReceived,
-        receivedChunkIndices,
-        progress,
-        isComplete,
-      };
-    } catch (error) {
-      // Directory doesn't exist - no chunks uploaded yet
-      return {
-        fileId,
-        totalChunks: 0,
-        chunksReceived: 0,
-        receivedChunkIndices: [],
-        progress: 0,
-        isComplete: false,
-      };
-    }
-  }
-
-  /**
-   * Assemble chunks into final file and save to database
+   * Assemble the chunks of a finished upload into the final file and save it: local
+   * chunks are piped into one file and streamed to storage, S3 parts are combined in place.
+   * The chunks are removed once assembled; on failure the caller discards them.
    */
-  async assembleChunks(
-    fileId: string,
-    originalFilename: string,
-    totalFileSize: number,
-    mimeType: string,
-    userId: string,
-  ): Promise<FileResponseDto> {
-    const chunkDir = join(process.cwd(), 'uploads', 'temp', userId, fileId);
+  async assembleChunks(upload: ChunkedUpload, userId: string): Promise<FileResponseDto> {
+    const { uploadId, chunkDir, fileName, mimeType, totalSize } = upload;
+    const folderId = upload.folderId ?? undefined;
 
     this.logger.log('Starting chunk assembly', {
       context: 'FilesService',
       userId,
-      fileId,
-      originalFilename,
-      totalFileSize: formatFileSize(totalFileSize),
+      uploadId,
+      fileName,
+      totalSize: formatFileSize(totalSize),
+      folderId,
     });
 
-    try {
-      // List and sort chunk files
-      const files = await fs.readdir(chunkDir);
-      const chunkFiles = files
-        .filter(f => f.startsWith('chunk-'))
-        .sort((a, b) => {
-          const aIndex = parseInt(a.replace('chunk-', ''));
-          const bIndex = parseInt(b.replace('chunk-', ''));
-          return aIndex - bIndex;
-        });
-
-      if (chunkFiles.length === 0) {
-        throw new BadRequestException('No chunks found');
-      }
-
-      // Generate final file path
-      const storageKey = this.generateStorageKey(userId, originalFilename);
-      const finalPath = join(process.cwd(), storageKey);
-      const finalDir = path.dirname(finalPath);
-
-      // Ensure final directory exists
-      await fs.mkdir(finalDir, { recursive: true });
+    // Validate the target folder and the owner's plan before doing any disk work
+    const ownerId = await this.resolveUploadOwner(userId, folderId);
+    if (!FILE_UPLOAD.ALLOWED_MIME_TYPES.includes(mimeType as any)) {
+      throw BusinessException.fileTypeNotAllowed(mimeType);
+    }
+    const reservation = { uploaderId: userId, uploadId };
+    await this.storageQuotaService.assertCanStore(
+      ownerId,
+      mimeType,
+      totalSize,
+      reservation,
+    );
 
-      // Assemble chunks
-      const writeStream = createWriteStream(finalPath);
-      let assembledSize = 0;
+    // URL of the completed multipart upload until it is handed to the blob store
+    let completedUrl: string | null = null;
 
-      for (const chunkFile of chunkFiles) {
-        const chunkPath = join(chunkDir, chunkFile);
-        const chunkData = await fs.readFile(chunkPath);
-        
-        writeStream.write(chunkData);
-        assembledSize += chunkData.length;
+    try {
+      const { multipart } = upload;
+      const storageKey = multipart?.storageKey ?? this.generateStorageKey(ownerId, fileName);
+      const assembledPath = join(chunkDir, 'assembled');
+      let assembled: { contentHash: string; size: number };
+
+      if (multipart) {
+        // The parts are already on S3: combine them, then read the object back once to
+        // hash it, keeping a local copy only when text can be extracted from it
+        const completed = await this.storageService.completeMultipartUpload(
+          storageKey,
+          multipart.multipartId,
+          multipart.parts,
+        );
+        completedUrl = completed.url;
 
-        this.logger.debug('Chunk assembled', {
-          context: 'FilesService',
-          chunkFile,
-          chunkSize: formatFileSize(chunkData.length),
-          assembledSize: formatFileSize(assembledSize),
-        });
+        await fs.mkdir(chunkDir, { recursive: true });
+        assembled = await this.digestStream(
+          await this.storageService.getObjectStream(storageKey),
+          this.textExtractionService.isExtractable(mimeType) ? assembledPath : null,
+        );
+      } else {
+        // Pipe the chunks in order into one local copy
+        assembled = await this.digestStream(this.readChunks(upload.chunkPaths), assembledPath);
       }
 
-      // Close write stream
-      await new Promise<void>((resolve, reject) => {
-        writeStream.end((err) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
+      const { contentHash, size: assembledSize } = assembled;
 
       this.logger.log('Chunks assembled successfully', {
         context: 'FilesService',
         userId,
-        fileId,
-        totalChunks: chunkFiles.length,
+        uploadId,
+        totalChunks: multipart?.parts.length ?? upload.chunkPaths.length,
         assembledSize: formatFileSize(assembledSize),
-        finalPath: storageKey,
+        multipart: !!multipart,
       });
 
-      // Clean up temp chunks
+      // Limits were checked against the declared size; the assembled content must match it
+      if (assembledSize !== totalSize) {
+        throw BusinessException.uploadChunkInvalid(
+          `Assembled file is ${assembledSize} bytes but ${totalSize} bytes were declared`,
+          { uploadId, assembledSize, totalSize },
+        );
+      }
+
+      if (upload.sha256 && upload.sha256.toLowerCase() !== contentHash) {
+        throw BusinessException.uploadChecksumMismatch('sha256', { uploadId });
+      }
+
+      const contentText = await this.textExtractionService.extractText(assembledPath, mimeType);
+      let storageType = this.storageService.getStorageType();
+
+      // Store the copy unless identical content already exists; a completed multipart
+      // upload is already stored and is deleted instead when the content is reused
+      const objectUrl = completedUrl;
+      completedUrl = null;
+      const stored = await this.blobService.acquire(
+        contentHash,
+        assembledSize,
+        async () => {
+          if (objectUrl) {
+            return objectUrl;
+          }
+          const uploadResult = await this.storageService.uploadStream(
+            storageKey,
+            createReadStream(assembledPath),
+            assembledSize,
+            mimeType,
+          );
+          storageType = uploadResult.storageType;
+          return uploadResult.url;
+        },
+        async () => {
+          if (objectUrl) {
+            await this.storageService.deleteFile(storageKey);
+          }
+          await fs.rm(assembledPath, { force: true });
+        },
+      );
+
+      // Clean up temp chunks and the assembled copy
       await fs.rm(chunkDir, { recursive: true, force: true });
 
       this.logger.log('Temp chunks cleaned up', {
         context: 'FilesService',
         userId,
-        fileId,
+        uploadId,
       });
 
-      // Generate thumbnails for videos if needed
+      // Generate thumbnails for videos (only for local storage)
       let thumbnailPath: string | null = null;
       let duration: number | null = null;
       const fileType = getFileTypeCategory(mimeType);
 
-      if (fileType === 'video') {
+      if (fileType === 'video' && storageType === 'local') {
         try {
-          const videoPath = join(process.cwd(), storageKey);
+          const videoPath = join(process.cwd(), stored.path);
           const thumbnailDir = path.dirname(videoPath);
           const baseFilename = path.basename(storageKey, path.extname(storageKey));
 
@@ -889,7 +1325,7 @@ export class FilesService {
 
           this.logger.log('Video thumbnail generated after chunk assembly', {
             context: 'FilesService',
-            videoPath: storageKey,
+            videoPath: stored.path,
             thumbnailPath,
             duration,
           });
@@ -897,24 +1333,24 @@ export class FilesService {
           this.logger.warn('Failed to generate video thumbnail', {
             context: 'FilesService',
             error: error.message,
-            fileId,
+            uploadId,
           });
         }
       }
 
-      // Save to database
-      const uploadedFile = await this.prisma.file.create({
-        data: {
-          name: originalFilename,
-          size: assembledSize,
-          mimeType,
-          path: storageKey,
-          thumbnailPath,
-          duration,
-          userId,
-        },
-        select: FILE_SELECT_FIELDS,
-      });
+      // Save to database (re-uploads become a new version)
+      const uploadedFile = await this.saveFileRecord({
+        name: fileName,
+        size: assembledSize,
+        mimeType,
+        path: stored.path,
+        contentHash,
+        thumbnailPath,
+        duration,
+        contentText,
+        userId: ownerId,
+        folderId: folderId ?? null,
+      }, userId, reservation);
 
       this.logger.log('File metadata saved to database', {
         context: 'FilesService',
@@ -922,50 +1358,221 @@ export class FilesService {
         fileId: uploadedFile.id,
         fileName: uploadedFile.name,
         fileSize: formatFileSize(uploadedFile.size),
+        deduplicated: stored.deduplicated,
       });
 
       return this.addFileUrls(uploadedFile);
     } catch (error) {
+      // A completed multipart upload is not part of the upload's chunks; remove it here
+      if (completedUrl) {
+        await this.storageService.deleteFile(this.storageService.extractStorageKey(completedUrl));
+      }
+
       this.logger.error('Failed to assemble chunks', error.stack, {
         context: 'FilesService',
         userId,
-        fileId,
-        originalFilename,
+        uploadId,
+        fileName,
         error: error.message,
       });
 
-      // Clean up on error
-      try {
-        await fs.rm(chunkDir, { recursive: true, force: true });
-      } catch {
-        // Ignore cleanup errors
+      if (error instanceof AppException) {
+        throw error;
       }
-
       throw BusinessException.fileUploadFailed(error.message);
     }
   }
 
   /**
-   * Cancel chunked upload and clean up temp files
+   * ========================================
+   * DIRECT UPLOAD METHODS
+   * ========================================
+   */
+
+  /**
+   * Create the file for an object the client uploaded straight to S3. The object is
+   * read back once to hash it (deduplicating it against stored content) and, for
+   * searchable types, to extract its text; video thumbnails are generated in the
+   * background.
    */
-  async cancelChunkedUpload(fileId: string, userId: string): Promise<void> {
-    const chunkDir = join(process.cwd(), 'uploads', 'temp', userId, fileId);
+  async saveDirectUpload(upload: DirectUploadedObject, userId: string): Promise<FileResponseDto> {
+    const { uploadId, storageKey, fileName, mimeType, size } = upload;
+
+    const ownerId = await this.resolveUploadOwner(userId, upload.folderId ?? undefined);
+    const reservation = { uploaderId: userId, uploadId };
+    await this.storageQuotaService.assertCanStore(ownerId, mimeType, size, reservation);
+
+    const tempDirectory =
+      this.configService.get<string>('uploadConfig.tempDirectory') ??
+      UPLOAD_SESSION.DEFAULT_TEMP_DIRECTORY;
+    const workDir = path.resolve(process.cwd(), tempDirectory, 'direct', uploadId);
+    const copyPath = join(workDir, 'object');
 
     try {
-      await fs.rm(chunkDir, { recursive: true, force: true });
-      
-      this.logger.log('Chunked upload cancelled and cleaned up', {
+      // Keep a local copy only when text can be extracted from it
+      await fs.mkdir(workDir, { recursive: true });
+      const { contentHash } = await this.digestStream(
+        await this.storageService.getObjectStream(storageKey),
+        this.textExtractionService.isExtractable(mimeType) ? copyPath : null,
+      );
+
+      if (upload.sha256 && upload.sha256 !== contentHash) {
+        throw BusinessException.uploadChecksumMismatch('sha256', { uploadId });
+      }
+
+      const contentText = await this.textExtractionService.extractText(copyPath, mimeType);
+
+      // The object is already stored; it is deleted instead when the content is reused
+      const stored = await this.blobService.acquire(
+        contentHash,
+        size,
+        async () => this.storageService.getFileUrl(storageKey),
+        async () => {
+          await this.storageService.deleteFile(storageKey);
+        },
+      );
+
+      const uploadedFile = await this.saveFileRecord({
+        name: fileName,
+        size,
+        mimeType,
+        path: stored.path,
+        contentHash,
+        thumbnailPath: null,
+        duration: null,
+        contentText,
+        userId: ownerId,
+        folderId: upload.folderId,
+      }, userId, reservation);
+
+      this.logger.log('Direct upload saved', {
         context: 'FilesService',
         userId,
+        uploadId,
+        fileId: uploadedFile.id,
+        fileSize: formatFileSize(size),
+        deduplicated: stored.deduplicated,
+      });
+
+      if (getFileTypeCategory(mimeType) === 'video') {
+        void this.generateRemoteVideoThumbnail(
+          uploadedFile.id,
+          this.storageService.extractStorageKey(stored.path),
+        );
+      }
+
+      return this.addFileUrls(uploadedFile);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Generate the thumbnail of a video stored on S3, read by ffmpeg through a presigned
+   * URL, and upload it next to the video. Failures are only logged.
+   */
+  private async generateRemoteVideoThumbnail(fileId: string, storageKey: string): Promise<void> {
+    const tempDirectory =
+      this.configService.get<string>('uploadConfig.tempDirectory') ??
+      UPLOAD_SESSION.DEFAULT_TEMP_DIRECTORY;
+    const workDir = path.resolve(process.cwd(), tempDirectory, 'thumbnails', fileId);
+
+    try {
+      const videoUrl = await this.storageService.generatePresignedDownloadUrl(storageKey);
+      const metadata = await this.thumbnailService.getVideoMetadata(videoUrl);
+      const thumbnailFullPath = await this.thumbnailService.generateVideoThumbnail(
+        videoUrl,
+        workDir,
+        path.basename(storageKey, path.extname(storageKey)),
+      );
+
+      const thumbnailKey = path.posix.join(
+        path.posix.dirname(storageKey),
+        path.basename(thumbnailFullPath),
+      );
+      const { size } = await fs.stat(thumbnailFullPath);
+      const { url } = await this.storageService.uploadStream(
+        thumbnailKey,
+        createReadStream(thumbnailFullPath),
+        size,
+        'image/jpeg',
+      );
+
+      // The file may have been deleted meanwhile
+      const { count } = await this.prisma.file.updateMany({
+        where: { id: fileId },
+        data: { thumbnailPath: url, duration: Math.round(metadata.duration) },
+      });
+      if (count === 0) {
+        await this.storageService.deleteFile(thumbnailKey);
+        return;
+      }
+
+      this.logger.log('Video thumbnail generated for direct upload', {
+        context: 'FilesService',
         fileId,
+        thumbnailPath: url,
       });
     } catch (error) {
-      this.logger.warn('Failed to clean up cancelled upload', {
+      this.logger.warn('Failed to generate video thumbnail', {
         context: 'FilesService',
-        userId,
-        fileId,
         error: error.message,
+        fileId,
+      });
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read chunk files in order, one buffered read at a time
+   */
+  private async *readChunks(chunkPaths: string[]): AsyncGenerator<Buffer> {
+    let assembledSize = 0;
+
+    for (const chunkPath of chunkPaths) {
+      // Stream each chunk, tus uploads can send the whole file as a single one
+      let chunkSize = 0;
+      for await (const data of createReadStream(chunkPath)) {
+        chunkSize += data.length;
+        yield data;
+      }
+      assembledSize += chunkSize;
+
+      this.logger.debug('Chunk assembled', {
+        context: 'FilesService',
+        chunkFile: path.basename(chunkPath),
+        chunkSize: formatFileSize(chunkSize),
+        assembledSize: formatFileSize(assembledSize),
       });
     }
   }
+
+  /**
+   * Hash and measure streamed content, writing it to `destinationPath` when given.
+   * pipeline waits on the destination, so backpressure is honored.
+   */
+  private async digestStream(
+    source: AsyncIterable<Buffer>,
+    destinationPath: string | null,
+  ): Promise<{ contentHash: string; size: number }> {
+    const hash = createHash('sha256');
+    let size = 0;
+
+    await pipeline(
+      source,
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const data of chunks) {
+          hash.update(data);
+          size += data.length;
+          yield data;
+        }
+      },
+      destinationPath
+        ? createWriteStream(destinationPath)
+        : new Writable({ write: (_data, _encoding, callback) => callback() }),
+    );
+
+    return { contentHash: hash.digest('hex'), size };
+  }
 }
@@ -0,0 +1,62 @@
+import { BusinessException } from '../../../common/exceptions';
+import { hashFile } from '../../../common/utils/file.util';
+
+export interface ContentChecksum {
+  /** Node.js hash algorithm */
+  algorithm: string;
+  /** Base64 digest */
+  digest: string;
+}
+
+// RFC 9530 algorithm names mapped to Node.js hash algorithms
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'sha-256': 'sha256',
+  'sha-512': 'sha512',
+};
+
+/**
+ * Checksum sent by the client for a request's data, from Content-Digest
+ * (RFC 9530, e.g. `sha-256=:<base64>:`) or the older Content-MD5
+ */
+export function parseContentChecksum(headers: {
+  contentDigest?: string;
+  contentMd5?: string;
+}): ContentChecksum | undefined {
+  if (headers.contentDigest) {
+    for (const member of headers.contentDigest.split(',')) {
+      const match = /^\s*([\w-]+)=:([A-Za-z0-9+/]+={0,2}):\s*$/.exec(member);
+      if (!match) {
+        throw BusinessException.uploadChunkInvalid('Content-Digest is malformed');
+      }
+
+      const algorithm = DIGEST_ALGORITHMS[match[1].toLowerCase()];
+      if (algorithm) {
+        return { algorithm, digest: match[2] };
+      }
+    }
+
+    throw BusinessException.uploadChunkInvalid(
+      `Content-Digest has no supported algorithm (${Object.keys(DIGEST_ALGORITHMS).join(', ')})`,
+    );
+  }
+
+  if (headers.contentMd5) {
+    return { algorithm: 'md5', digest: headers.contentMd5.trim() };
+  }
+
+  return undefined;
+}
+
+export async function matchesFileChecksum(
+  filePath: string,
+  checksum: ContentChecksum,
+): Promise<boolean> {
+  return (await hashFile(filePath, checksum.algorithm, 'base64')) === checksum.digest;
+}
+
+/**
+ * Repr-Digest header value (RFC 9530) for a stored SHA-256 content hash
+ */
+export function toReprDigest(contentHash: string): string {
+  return `sha-256=:${Buffer.from(contentHash, 'hex').toString('base64')}:`;
+}
@@ -0,0 +1,262 @@
+import { NotFoundException, StreamableFile } from '@nestjs/common';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { Request, Response } from 'express';
+import { FILE_DOWNLOAD } from '../../../common/constants';
+import { BusinessException } from '../../../common/exceptions';
+import { StorageService } from '../../../common/storage/storage.service';
+import { toReprDigest } from './checksum.helper';
+import {
+  ByteRange,
+  coalesceRanges,
+  isNotModified,
+  isRangeCurrent,
+  parseHttpDate,
+  parseRangeHeader,
+} from './http-range.helper';
+
+/**
+ * What streaming needs to know about a stored file; the size is read from storage
+ */
+export interface StoredContent {
+  name: string;
+  path: string;
+  mimeType: string;
+  /** SHA-256 of the content (hex), sent as Repr-Digest so clients can verify the download */
+  contentHash?: string | null;
+}
+
+export interface StoredFile extends StoredContent {
+  size: number;
+}
+
+export interface StreamStoredFileOptions {
+  disposition: 'inline' | 'attachment';
+  /** Extra headers applied to every response (e.g. caching for public previews) */
+  headers?: Record<string, string>;
+  /** Where to send the client for remote (S3) files; defaults to the stored URL */
+  redirectUrl?: string;
+  /**
+   * Read remote (S3) files through the server instead of redirecting, forwarding the
+   * client's range and validators. Ignored when a redirectUrl is given.
+   */
+  storage?: StorageService;
+  /**
+   * Called once the response is known to carry content (not for 304 or 416), with the
+   * offset of the first byte sent, before any of it is; throwing rejects the request.
+   * Redirects count as sending the whole file.
+   */
+  beforeContent?: (firstByte: number) => Promise<void> | void;
+}
+
+/**
+ * Send a stored file to the client. Local files are streamed from disk with
+ * Range (206, multipart/byteranges) and conditional GET (ETag, Last-Modified)
+ * support; remote (S3) files are proxied when a storage service is given,
+ * otherwise redirected.
+ */
+export async function streamStoredFile(
+  req: Request,
+  res: Response,
+  file: StoredContent,
+  options: StreamStoredFileOptions,
+): Promise<StreamableFile | undefined> {
+  if (file.path.startsWith('http://') || file.path.startsWith('https://')) {
+    // Files stored on S3 before a switch to local storage can only be redirected
+    if (options.redirectUrl || options.storage?.getStorageType() !== 's3') {
+      await options.beforeContent?.(0);
+      res.redirect(options.redirectUrl ?? file.path);
+      return;
+    }
+    return streamRemoteFile(req, res, file, options);
+  }
+
+  // For local files, stream them
+  const filePath = join(process.cwd(), file.path);
+  const stats = await stat(filePath).catch(() => null);
+
+  if (!stats?.isFile()) {
+    throw new NotFoundException('File not found on disk');
+  }
+
+  const size = stats.size;
+  // The content hash identifies the bytes exactly; files stored without one
+  // fall back to their size and modification time
+  const etag = file.contentHash
+    ? `"${file.contentHash}"`
+    : `"${size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+
+  const notModified = isNotModified(req, etag, stats.mtime);
+  let ranges =
+    !notModified && isRangeCurrent(req, etag, stats.mtime)
+      ? parseRangeHeader(req.get('Range'), size)
+      : undefined;
+
+  ranges = ranges && coalesceRanges(ranges);
+  if (ranges && ranges.length > FILE_DOWNLOAD.MAX_RANGES) {
+    ranges = undefined;
+  }
+
+  // Before any header is set, so that a rejection is a plain error response
+  if (!notModified && ranges?.length !== 0) {
+    await options.beforeContent?.(ranges ? ranges[0].start : 0);
+  }
+
+  setRepresentationHeaders(res, file, options, etag, stats.mtime);
+
+  if (notModified) {
+    res.status(304);
+    return;
+  }
+
+  if (ranges?.length === 0) {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    throw BusinessException.rangeNotSatisfiable(size);
+  }
+
+  setContentHeaders(res, file, options);
+
+  if (!ranges) {
+    res.setHeader('Content-Length', size.toString());
+    return new StreamableFile(createReadStream(filePath));
+  }
+
+  res.status(206);
+
+  if (ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+    res.setHeader('Content-Length', (end - start + 1).toString());
+    return new StreamableFile(createReadStream(filePath, { start, end }));
+  }
+
+  const body = buildByteRangesBody(filePath, ranges, size, file.mimeType);
+  res.setHeader('Content-Type', `multipart/byteranges; boundary=${body.boundary}`);
+  res.setHeader('Content-Length', body.length.toString());
+  return new StreamableFile(body.stream);
+}
+
+/**
+ * Proxy an S3 object, letting GetObject answer the range and validators.
+ * S3 serves one range per request, so multi-range requests get the whole object.
+ */
+async function streamRemoteFile(
+  req: Request,
+  res: Response,
+  file: StoredContent,
+  options: StreamStoredFileOptions,
+): Promise<StreamableFile | undefined> {
+  const range = req.get('Range');
+  const ifModifiedSince = parseHttpDate(req.get('If-Modified-Since'));
+
+  const object = await options.storage.getObject(options.storage.extractStorageKey(file.path), {
+    range: range && !range.includes(',') ? range : undefined,
+    ifNoneMatch: req.get('If-None-Match'),
+    ifModifiedSince: ifModifiedSince !== undefined ? new Date(ifModifiedSince) : undefined,
+    ifRange: req.get('If-Range'),
+  });
+
+  if (object.status !== 304 && object.status !== 416) {
+    try {
+      await options.beforeContent?.(
+        object.status === 206 ? Number(/^bytes (\d+)-/.exec(object.contentRange)?.[1] ?? 0) : 0,
+      );
+    } catch (error) {
+      object.body.destroy();
+      throw error;
+    }
+  }
+
+  setRepresentationHeaders(res, file, options, object.etag, object.lastModified);
+
+  if (object.status === 304) {
+    res.status(304);
+    return;
+  }
+  if (object.status === 416) {
+    res.setHeader('Content-Range', `bytes */${object.size}`);
+    throw BusinessException.rangeNotSatisfiable(object.size);
+  }
+
+  setContentHeaders(res, file, options);
+  res.setHeader('Content-Length', object.contentLength.toString());
+  if (object.status === 206) {
+    res.status(206);
+    res.setHeader('Content-Range', object.contentRange);
+  }
+
+  return new StreamableFile(object.body);
+}
+
+/**
+ * Headers describing the representation, sent with every response including 304
+ */
+function setRepresentationHeaders(
+  res: Response,
+  file: StoredContent,
+  options: StreamStoredFileOptions,
+  etag: string | undefined,
+  lastModified: Date | undefined,
+): void {
+  res.setHeader('Accept-Ranges', 'bytes');
+  if (etag) {
+    res.setHeader('ETag', etag);
+  }
+  if (lastModified) {
+    res.setHeader('Last-Modified', lastModified.toUTCString());
+  }
+  if (file.contentHash) {
+    res.setHeader('Repr-Digest', toReprDigest(file.contentHash));
+  }
+
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+}
+
+function setContentHeaders(res: Response, file: StoredContent, options: StreamStoredFileOptions): void {
+  res.setHeader('Content-Type', file.mimeType);
+  res.setHeader(
+    'Content-Disposition',
+    options.disposition === 'attachment'
+      ? `attachment; filename="${encodeURIComponent(file.name)}"`
+      : 'inline',
+  );
+}
+
+/**
+ * multipart/byteranges body (RFC 9110 section 14.6) streaming each range from disk
+ */
+function buildByteRangesBody(
+  filePath: string,
+  ranges: ByteRange[],
+  size: number,
+  mimeType: string,
+): { boundary: string; length: number; stream: Readable } {
+  const boundary = randomBytes(16).toString('hex');
+  const partHeaders = ranges.map(
+    ({ start, end }, index) =>
+      `${index > 0 ? '\r\n' : ''}--${boundary}\r\n` +
+      `Content-Type: ${mimeType}\r\n` +
+      `Content-Range: bytes ${start}-${end}/${size}\r\n\r\n`,
+  );
+  const closing = `\r\n--${boundary}--\r\n`;
+
+  const length = ranges.reduce(
+    (total, { start, end }, index) => total + Buffer.byteLength(partHeaders[index]) + end - start + 1,
+    Buffer.byteLength(closing),
+  );
+
+  async function* generate() {
+    for (const [index, { start, end }] of ranges.entries()) {
+      yield Buffer.from(partHeaders[index]);
+      yield* createReadStream(filePath, { start, end });
+    }
+    yield Buffer.from(closing);
+  }
+
+  return { boundary, length, stream: Readable.from(generate(), { objectMode: false }) };
+}
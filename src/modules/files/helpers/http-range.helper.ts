@@ -0,0 +1,117 @@
+import { Request } from 'express';
+
+/**
+ * Inclusive byte range of a representation
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a Range header (RFC 9110 section 14.2) against a representation of `size` bytes.
+ * Returns undefined when the whole representation should be sent (no header, another
+ * unit or a malformed value) and an empty list when no range is satisfiable.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange[] | undefined {
+  const match = header ? /^\s*bytes\s*=(.+)$/i.exec(header) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of match[1].split(',')) {
+    const bounds = /^\s*(\d*)-(\d*)\s*$/.exec(spec);
+    if (!bounds || (!bounds[1] && !bounds[2])) {
+      return undefined;
+    }
+
+    // Suffix range: the last N bytes
+    if (!bounds[1]) {
+      const length = Number(bounds[2]);
+      if (length > 0 && size > 0) {
+        ranges.push({ start: Math.max(size - length, 0), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = Number(bounds[1]);
+    const end = bounds[2] ? Number(bounds[2]) : Infinity;
+    if (end < start) {
+      return undefined;
+    }
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Sort ranges and merge the overlapping or adjacent ones
+ */
+export function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+  const merged: ByteRange[] = [];
+
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Whether the client copy is still valid: If-None-Match (weak comparison) when sent,
+ * otherwise If-Modified-Since
+ */
+export function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.get('If-None-Match');
+  if (ifNoneMatch) {
+    return (
+      ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some((tag) => stripWeakPrefix(tag.trim()) === stripWeakPrefix(etag))
+    );
+  }
+
+  const since = parseHttpDate(req.get('If-Modified-Since'));
+  return since !== undefined && toHttpPrecision(lastModified) <= since;
+}
+
+/**
+ * Whether a Range request may be served partially: If-Range must name the current
+ * representation, by strong entity tag or by its exact modification date
+ */
+export function isRangeCurrent(req: Request, etag: string, lastModified: Date): boolean {
+  const ifRange = req.get('If-Range')?.trim();
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+
+  return parseHttpDate(ifRange) === toHttpPrecision(lastModified);
+}
+
+/**
+ * Parse an HTTP date header to epoch milliseconds
+ */
+export function parseHttpDate(value: string | undefined): number | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : time;
+}
+
+function stripWeakPrefix(etag: string): string {
+  return etag.startsWith('W/') ? etag.substring(2) : etag;
+}
+
+// HTTP dates have a one second resolution
+function toHttpPrecision(date: Date): number {
+  return Math.floor(date.getTime() / 1000) * 1000;
+}
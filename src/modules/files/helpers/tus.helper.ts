@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { TUS } from '../../../common/constants';
+import { BusinessException } from '../../../common/exceptions';
+import { ContentChecksum } from './checksum.helper';
+
+/**
+ * Headers describing what the server supports, returned for OPTIONS requests
+ */
+export function setTusDiscoveryHeaders(res: Response): void {
+  res.setHeader('Tus-Resumable', TUS.VERSION);
+  res.setHeader('Tus-Version', TUS.VERSION);
+  res.setHeader('Tus-Extension', TUS.EXTENSIONS.join(','));
+  res.setHeader('Tus-Checksum-Algorithm', TUS.CHECKSUM_ALGORITHMS.join(','));
+}
+
+/**
+ * Every tus response carries Tus-Resumable, and every request must use the
+ * protocol version the server speaks
+ */
+export function assertTusResumable(req: Request, res: Response): void {
+  res.setHeader('Tus-Resumable', TUS.VERSION);
+
+  const version = req.get('Tus-Resumable');
+  if (version !== TUS.VERSION) {
+    res.setHeader('Tus-Version', TUS.VERSION);
+    throw BusinessException.tusVersionUnsupported(version);
+  }
+}
+
+/**
+ * Parse a byte count header such as Upload-Length or Upload-Offset
+ */
+export function parseTusByteCount(value: string | undefined, header: string): number {
+  const parsed = value !== undefined && /^\d+$/.test(value) ? Number(value) : NaN;
+
+  if (!Number.isSafeInteger(parsed)) {
+    throw BusinessException.tusRequestInvalid(`${header} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Decode Upload-Metadata: comma separated `key base64(value)` pairs, the value being optional
+ */
+export function parseTusMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = Object.create(null);
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value, ...rest] = pair.trim().split(' ');
+    if (!key || rest.length > 0 || key in metadata) {
+      throw BusinessException.tusRequestInvalid('Upload-Metadata is malformed');
+    }
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  }
+
+  return metadata;
+}
+
+/**
+ * Parse Upload-Checksum: `<algorithm> <base64 digest>`
+ */
+export function parseTusChecksum(header: string | undefined): ContentChecksum | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const [algorithm, digest, ...rest] = header.trim().split(' ');
+  if (!algorithm || !digest || rest.length > 0) {
+    throw BusinessException.tusRequestInvalid('Upload-Checksum is malformed');
+  }
+  if (!TUS.CHECKSUM_ALGORITHMS.includes(algorithm as any)) {
+    throw BusinessException.tusRequestInvalid(`Unsupported checksum algorithm: ${algorithm}`);
+  }
+
+  return { algorithm, digest };
+}
@@ -0,0 +1,55 @@
+import { Controller, Get, Param, Query, Req, Res, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { basename } from 'path';
+import { Public } from '../../common/decorators/public.decorator';
+import { BusinessException } from '../../common/exceptions';
+import { LOCAL_STORAGE } from '../../common/constants';
+import { StorageService } from '../../common/storage/storage.service';
+import { SignedFileQueryDto } from './dto/signed-file-query.dto';
+import { streamStoredFile } from './helpers/file-stream.helper';
+
+/**
+ * Serves locally stored files to the holders of a signed URL, the local
+ * counterpart of S3 presigned download URLs (see StorageService.getSignedFileUrl)
+ */
+@ApiTags('Files')
+@Public()
+@Controller(LOCAL_STORAGE.URL_PREFIX)
+export class LocalFilesController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Get('*key')
+  @ApiOperation({
+    summary: 'Read a locally stored file through a signed URL',
+    description: 'Target of the url and thumbnailUrl returned for local files. Rejected once the URL has expired or when its signature does not match. Supports Range requests and conditional GET.',
+  })
+  async getSignedFile(
+    @Param('key') key: string[],
+    @Query() query: SignedFileQueryDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | undefined> {
+    const file = this.storageService.verifySignedFileUrl(key.join('/'), query);
+    if (!file) {
+      throw BusinessException.signedUrlInvalid();
+    }
+
+    const maxAge = Math.max(Math.floor((file.expiresAt.getTime() - Date.now()) / 1000), 0);
+
+    return streamStoredFile(
+      req,
+      res,
+      {
+        name: basename(file.path),
+        path: file.path,
+        mimeType: file.contentType ?? 'application/octet-stream',
+      },
+      {
+        disposition: 'inline',
+        // Cacheable until the URL expires
+        headers: { 'Cache-Control': `private, max-age=${maxAge}` },
+      },
+    );
+  }
+}
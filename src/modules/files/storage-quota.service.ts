@@ -0,0 +1,422 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { withTrashed } from '../../prisma/extensions';
+import { LoggerService } from '../../common/logger/logger.service';
+import { FILE_UPLOAD, FILE_VERSION, PLAN, UPLOAD_RESERVATION } from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { addHours } from '../../common/utils/date.util';
+import {
+  bytesToMB,
+  formatFileSize,
+  getFileTypeCategory,
+} from '../../common/utils/file.util';
+import { StorageQuotaDto } from './dto/storage-quota.dto';
+
+/**
+ * Limits that apply to a user: their plan (or the default plan) with per-user overrides
+ */
+export interface StorageLimits {
+  planId: string | null;
+  planName: string;
+  storageQuota: number;
+  maxFileSize: number;
+  maxVersions: number;
+  allowedFileTypes: string[];
+}
+
+/**
+ * Identifies the quota reservation of a chunked upload
+ */
+export interface ReservationKey {
+  uploaderId: string;
+  uploadId: string;
+}
+
+/**
+ * Bytes charged against a user's quota
+ */
+export interface StorageUsage {
+  /** Files, trashed or not, and their versions */
+  storedBytes: number;
+  /** Held by unfinished chunked uploads */
+  reservedBytes: number;
+}
+
+/**
+ * Resolves storage plans and enforces their limits.
+ *
+ * Usage counts the logical size of every file, trashed or not, and of every version:
+ * deduplicated content still counts in full. Chunked uploads reserve their full size
+ * when their first chunk arrives, and live reservations count as usage until the upload
+ * completes, is cancelled or expires. Checks that grant space run with the owner's row
+ * locked, so concurrent uploads of the same user are serialized and cannot overshoot
+ * the quota together.
+ */
+@Injectable()
+export class StorageQuotaService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Limits of the user's plan, the default plan when none is assigned
+   */
+  async getLimits(userId: string): Promise<StorageLimits> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId, ...withTrashed() },
+      select: {
+        storageQuota: true,
+        plan: {
+          select: {
+            id: true,
+            name: true,
+            storageQuota: true,
+            maxFileSize: true,
+            maxVersions: true,
+            allowedFileTypes: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      throw BusinessException.userNotFound(userId);
+    }
+
+    const limits = user.plan ? this.toLimits(user.plan) : await this.getDefaultLimits();
+
+    // Administrators can override the plan's quota per user
+    if (user.storageQuota !== null) {
+      limits.storageQuota = Number(user.storageQuota);
+    }
+    return limits;
+  }
+
+  /**
+   * Largest file the user may upload
+   */
+  async getMaxFileSize(userId: string): Promise<number> {
+    return (await this.getLimits(userId)).maxFileSize;
+  }
+
+  /**
+   * Bytes currently charged against the user's quota
+   * @param exclude - Reservation not to count, e.g. the one of the upload being checked
+   */
+  async getUsage(
+    userId: string,
+    client: Prisma.TransactionClient = this.prisma,
+    exclude?: ReservationKey,
+  ): Promise<number> {
+    const { storedBytes, reservedBytes } = await this.getUsageBreakdown(userId, client, exclude);
+    return storedBytes + reservedBytes;
+  }
+
+  /**
+   * Stored and reserved bytes of the user
+   */
+  async getUsageBreakdown(
+    userId: string,
+    client: Prisma.TransactionClient = this.prisma,
+    exclude?: ReservationKey,
+  ): Promise<StorageUsage> {
+    // Aggregates are not soft-delete filtered, so trashed files are counted too
+    const [fileResult, versionResult, reservationResult] = await Promise.all([
+      client.file.aggregate({ where: { userId }, _sum: { size: true } }),
+      client.fileVersion.aggregate({ where: { file: { userId } }, _sum: { size: true } }),
+      client.storageReservation.aggregate({
+        where: {
+          userId,
+          expiresAt: { gt: new Date() },
+          ...(exclude && { NOT: { uploaderId: exclude.uploaderId, uploadId: exclude.uploadId } }),
+        },
+        _sum: { bytes: true },
+      }),
+    ]);
+
+    return {
+      storedBytes: (fileResult._sum.size || 0) + (versionResult._sum.size || 0),
+      reservedBytes: Number(reservationResult._sum.bytes ?? 0),
+    };
+  }
+
+  /**
+   * Quota, usage and limits of the user
+   */
+  async getQuota(userId: string): Promise<StorageQuotaDto> {
+    const [limits, { storedBytes: usedBytes, reservedBytes }] = await Promise.all([
+      this.getLimits(userId),
+      this.getUsageBreakdown(userId),
+    ]);
+    const availableBytes = Math.max(limits.storageQuota - usedBytes - reservedBytes, 0);
+
+    return {
+      plan: { id: limits.planId, name: limits.planName },
+      storageQuota: limits.storageQuota,
+      storageQuotaFormatted: formatFileSize(limits.storageQuota),
+      usedBytes,
+      usedFormatted: formatFileSize(usedBytes),
+      reservedBytes,
+      reservedFormatted: formatFileSize(reservedBytes),
+      availableBytes,
+      availableFormatted: formatFileSize(availableBytes),
+      usedPercent:
+        limits.storageQuota > 0
+          ? Math.min(
+              Math.round(((usedBytes + reservedBytes) / limits.storageQuota) * 10000) / 100,
+              100,
+            )
+          : 100,
+      maxFileSize: limits.maxFileSize,
+      maxFileSizeFormatted: formatFileSize(limits.maxFileSize),
+      maxVersions: limits.maxVersions,
+      allowedFileTypes: limits.allowedFileTypes,
+    };
+  }
+
+  /**
+   * Reject a file the user's plan does not allow (type or size), or that no longer fits
+   * in their quota. Runs before any content is stored; the quota is checked again when
+   * the file record is written.
+   */
+  async assertCanStore(
+    userId: string,
+    mimeType: string,
+    size: number,
+    reservation?: ReservationKey,
+  ): Promise<StorageLimits> {
+    const limits = await this.getLimits(userId);
+    const fileType = getFileTypeCategory(mimeType);
+
+    if (!limits.allowedFileTypes.includes(fileType)) {
+      this.logger.warn('File type not allowed by plan', {
+        context: 'StorageQuotaService',
+        userId,
+        mimeType,
+        plan: limits.planName,
+        errorCode: 'FILE_TYPE_NOT_ALLOWED',
+      });
+      throw BusinessException.fileTypeNotAllowed(mimeType);
+    }
+
+    this.assertFileSize(userId, size, limits);
+
+    // The upload's own reservation already holds this space
+    this.assertFits(
+      userId,
+      await this.getUsage(userId, this.prisma, reservation),
+      size,
+      limits.storageQuota,
+    );
+    return limits;
+  }
+
+  /**
+   * Hold `bytes` of the owner's quota for an upload. Calling it again for the same
+   * upload only pushes the expiry back; a reservation that expired or changed size is
+   * checked against the quota again.
+   */
+  async reserve(ownerId: string, key: ReservationKey, bytes: number): Promise<void> {
+    const limits = await this.getLimits(ownerId);
+    this.assertFileSize(ownerId, bytes, limits);
+
+    const now = new Date();
+    const expiresAt = this.getReservationExpiry(now);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.lockUser(tx, ownerId);
+
+      const existing = await tx.storageReservation.findUnique({
+        where: { uploaderId_uploadId: key },
+        select: { id: true, userId: true, bytes: true, expiresAt: true },
+      });
+
+      if (
+        existing &&
+        existing.userId === ownerId &&
+        Number(existing.bytes) === bytes &&
+        existing.expiresAt > now
+      ) {
+        await tx.storageReservation.update({ where: { id: existing.id }, data: { expiresAt } });
+        return;
+      }
+
+      if (existing) {
+        await tx.storageReservation.delete({ where: { id: existing.id } });
+      }
+
+      this.assertFits(ownerId, await this.getUsage(ownerId, tx), bytes, limits.storageQuota);
+      await tx.storageReservation.create({
+        data: { userId: ownerId, ...key, bytes: BigInt(bytes), expiresAt },
+      });
+
+      this.logger.debug('Storage reserved for upload', {
+        context: 'StorageQuotaService',
+        userId: ownerId,
+        ...key,
+        bytes,
+      });
+    });
+  }
+
+  /**
+   * Give back the quota held by an upload
+   */
+  async releaseReservation(key: ReservationKey): Promise<void> {
+    await this.prisma.storageReservation.deleteMany({ where: key });
+  }
+
+  /**
+   * Keep an upload's reservation alive until the given time
+   */
+  async extendReservation(key: ReservationKey, expiresAt: Date): Promise<void> {
+    await this.prisma.storageReservation.updateMany({ where: key, data: { expiresAt } });
+  }
+
+  /**
+   * Remove reservations that expired; they no longer count as usage
+   * @returns Number of reservations removed
+   */
+  async deleteExpiredReservations(): Promise<number> {
+    const { count } = await this.prisma.storageReservation.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return count;
+  }
+
+  /**
+   * When an upload that is still receiving data expires
+   */
+  getReservationExpiry(from: Date = new Date()): Date {
+    return addHours(from, this.getReservationTtlHours());
+  }
+
+  /**
+   * Run `work` in a transaction that first locks the user and checks that `additionalBytes`
+   * more still fit in their quota. Concurrent calls for the same user wait for each other.
+   * The given reservation is consumed; it is kept if the check fails.
+   */
+  async runWithinQuota<T>(
+    userId: string,
+    additionalBytes: number,
+    work: (tx: Prisma.TransactionClient) => Promise<T>,
+    reservation?: ReservationKey,
+  ): Promise<T> {
+    const limits = await this.getLimits(userId);
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockUser(tx, userId);
+
+      // A completed upload's reservation turns into the usage of the file being written
+      if (reservation) {
+        await tx.storageReservation.deleteMany({ where: reservation });
+      }
+
+      this.assertFits(userId, await this.getUsage(userId, tx), additionalBytes, limits.storageQuota);
+      return work(tx);
+    });
+  }
+
+  /**
+   * Serialize quota checks of the user until the transaction ends
+   */
+  private async lockUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+  }
+
+  private assertFileSize(userId: string, size: number, limits: StorageLimits): void {
+    if (size <= limits.maxFileSize) {
+      return;
+    }
+
+    this.logger.warn('File size exceeds plan limit', {
+      context: 'StorageQuotaService',
+      userId,
+      fileSize: size,
+      maxFileSize: limits.maxFileSize,
+      plan: limits.planName,
+      errorCode: 'FILE_TOO_LARGE',
+    });
+    throw BusinessException.fileTooLarge(
+      `File size (${bytesToMB(size)}MB) exceeds the maximum of ${bytesToMB(limits.maxFileSize)}MB allowed by the ${limits.planName} plan`,
+    );
+  }
+
+  private assertFits(userId: string, usedBytes: number, additionalBytes: number, quota: number): void {
+    if (usedBytes + additionalBytes <= quota) {
+      return;
+    }
+
+    this.logger.warn('Storage quota exceeded', {
+      context: 'StorageQuotaService',
+      userId,
+      usedBytes,
+      additionalBytes,
+      storageQuota: quota,
+      errorCode: 'STORAGE_QUOTA_EXCEEDED',
+    });
+    throw BusinessException.storageQuotaExceeded(usedBytes, additionalBytes, quota);
+  }
+
+  /**
+   * Limits of the default plan, or the built-in limits when no plan is marked as default
+   */
+  private async getDefaultLimits(): Promise<StorageLimits> {
+    const plan = await this.prisma.plan.findFirst({
+      where: { isDefault: true },
+      select: {
+        id: true,
+        name: true,
+        storageQuota: true,
+        maxFileSize: true,
+        maxVersions: true,
+        allowedFileTypes: true,
+      },
+    });
+
+    if (plan) {
+      return this.toLimits(plan);
+    }
+
+    return {
+      planId: null,
+      planName: PLAN.FALLBACK_NAME,
+      storageQuota: FILE_UPLOAD.MAX_STORAGE_QUOTA,
+      maxFileSize: FILE_UPLOAD.MAX_VIDEO_SIZE,
+      maxVersions:
+        this.configService.get<number>('fileVersionConfig.maxVersions') ??
+        FILE_VERSION.DEFAULT_MAX_VERSIONS,
+      allowedFileTypes: [...PLAN.FILE_TYPES],
+    };
+  }
+
+  private getReservationTtlHours(): number {
+    return (
+      this.configService.get<number>('uploadConfig.reservationTtlHours') ??
+      UPLOAD_RESERVATION.DEFAULT_TTL_HOURS
+    );
+  }
+
+  private toLimits(plan: {
+    id: string;
+    name: string;
+    storageQuota: bigint;
+    maxFileSize: bigint;
+    maxVersions: number;
+    allowedFileTypes: string[];
+  }): StorageLimits {
+    return {
+      planId: plan.id,
+      planName: plan.name,
+      storageQuota: Number(plan.storageQuota),
+      // Plans saved before the cap was enforced cannot go beyond what File.size can hold
+      maxFileSize: Math.min(Number(plan.maxFileSize), PLAN.MAX_FILE_SIZE_LIMIT),
+      maxVersions: plan.maxVersions,
+      allowedFileTypes: plan.allowedFileTypes,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { PDFParse } from 'pdf-parse';
+import * as mammoth from 'mammoth';
+import { LoggerService } from '../../common/logger/logger.service';
+import { SEARCH } from '../../common/constants';
+
+@Injectable()
+export class TextExtractionService {
+  constructor(private readonly logger: LoggerService) {}
+
+  /**
+   * Whether text can be extracted from this MIME type
+   */
+  isExtractable(mimeType: string): boolean {
+    return (SEARCH.EXTRACTABLE_MIME_TYPES as readonly string[]).includes(mimeType);
+  }
+
+  /**
+   * Extract searchable text from a file on disk
+   * @param filePath - Full path to the file
+   * @returns Normalized text (truncated to the indexable length), or null when the type
+   * is not supported or extraction fails
+   */
+  async extractText(filePath: string, mimeType: string): Promise<string | null> {
+    if (!this.isExtractable(mimeType)) {
+      return null;
+    }
+
+    try {
+      const text = await this.extractRawText(filePath, mimeType);
+      const normalized = text.replace(/\s+/g, ' ').trim().slice(0, SEARCH.MAX_CONTENT_LENGTH);
+
+      this.logger.debug('Text extracted for search', {
+        context: 'TextExtractionService',
+        mimeType,
+        length: normalized.length,
+      });
+
+      return normalized || null;
+    } catch (error) {
+      this.logger.warn('Failed to extract text', {
+        context: 'TextExtractionService',
+        mimeType,
+        error: error.message,
+      });
+      // Don't fail uploads because content could not be indexed
+      return null;
+    }
+  }
+
+  private async extractRawText(filePath: string, mimeType: string): Promise<string> {
+    switch (mimeType) {
+      case 'application/pdf': {
+        const parser = new PDFParse({ data: await fs.readFile(filePath) });
+        try {
+          const result = await parser.getText({ last: SEARCH.MAX_PDF_PAGES });
+          return result.text;
+        } finally {
+          await parser.destroy();
+        }
+      }
+
+      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+        const result = await mammoth.extractRawText({ path: filePath });
+        return result.value;
+      }
+
+      // text/plain and text/csv; only read what can be indexed
+      default: {
+        const handle = await fs.open(filePath, 'r');
+        try {
+          const buffer = Buffer.alloc(SEARCH.MAX_CONTENT_LENGTH * 4);
+          const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+          return buffer.subarray(0, bytesRead).toString('utf8');
+        } finally {
+          await handle.close();
+        }
+      }
+    }
+  }
+}
@@ -18,7 +18,7 @@ export class ThumbnailService {
 
   /**
    * Generate thumbnail from video file
-   * @param videoPath - Full path to video file
+   * @param videoPath - Full path to video file, or an http(s) URL ffmpeg can read
    * @param outputDir - Directory to save thumbnail
    * @param filename - Base filename for thumbnail (without extension)
    * @returns Relative path to generated thumbnail
@@ -35,11 +35,13 @@ export class ThumbnailService {
       const thumbnailFilename = `${filename}-thumb.jpg`;
       const thumbnailPath = path.join(outputDir, thumbnailFilename);
 
-      // Check if video file exists
-      try {
-        await access(videoPath, fs.constants.R_OK);
-      } catch (error) {
-        throw new Error(`Video file not found: ${videoPath}`);
+      // Check if video file exists (remote videos are read by ffmpeg directly)
+      if (!/^https?:\/\//.test(videoPath)) {
+        try {
+          await access(videoPath, fs.constants.R_OK);
+        } catch (error) {
+          throw new Error(`Video file not found: ${videoPath}`);
+        }
       }
 
       this.logger.log('Generating video thumbnail', {
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LoggerService } from '../../common/logger/logger.service';
+import { TRASH } from '../../common/constants';
+import { addDays } from '../../common/utils/date.util';
+import { FilesService } from './files.service';
+
+@Injectable()
+export class TrashPurgeService {
+  private isRunning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+    private readonly filesService: FilesService,
+  ) {}
+
+  /**
+   * Permanently delete files that have been in the trash longer than the retention period
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'trash-purge' })
+  async handleTrashPurge(): Promise<void> {
+    if (!this.configService.get<boolean>('cronConfig.enableScheduledFileDeletion')) {
+      return;
+    }
+
+    // Skip overlapping runs when a previous purge is still working through a large backlog
+    if (this.isRunning) {
+      this.logger.warn('Trash purge skipped: previous run still in progress', {
+        context: 'TrashPurgeService',
+      });
+      return;
+    }
+
+    this.isRunning = true;
+    const retentionDays = this.filesService.getTrashRetentionDays();
+    const cutoff = addDays(new Date(), -retentionDays);
+
+    try {
+      const purgedCount = await this.filesService.purgeTrashedFiles(
+        cutoff,
+        this.configService.get<number>('trashConfig.purgeBatchSize') || TRASH.PURGE_BATCH_SIZE,
+      );
+
+      this.logger.log('Trash purge completed', {
+        context: 'TrashPurgeService',
+        retentionDays,
+        cutoff: cutoff.toISOString(),
+        purgedCount,
+      });
+    } catch (error) {
+      this.logger.error('Trash purge failed', error.stack, {
+        context: 'TrashPurgeService',
+        retentionDays,
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
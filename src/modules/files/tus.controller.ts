@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Post,
+  Head,
+  Patch,
+  Delete,
+  Param,
+  Req,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiHeader } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { TusService, TusUploadRecord } from './tus.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ScopesGuard } from '../../common/guards/scopes.guard';
+import { VerifiedEmailGuard } from '../../common/guards/verified-email.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { BusinessException } from '../../common/exceptions';
+import { TOKEN_SCOPES, TUS } from '../../common/constants';
+import {
+  assertTusResumable,
+  parseTusByteCount,
+  parseTusChecksum,
+} from './helpers/tus.helper';
+
+/**
+ * tus 1.0 resumable upload endpoint for off-the-shelf tus clients.
+ * OPTIONS (discovery) is answered in main.ts, since CORS handles OPTIONS before routing.
+ */
+@ApiTags('Files')
+@Controller('files/tus')
+@UseGuards(JwtAuthGuard, ScopesGuard)
+@RequireScopes(TOKEN_SCOPES.FILES_WRITE)
+@ApiBearerAuth()
+@ApiHeader({ name: 'Tus-Resumable', description: 'Protocol version', example: TUS.VERSION })
+export class TusController {
+  constructor(private readonly tusService: TusService) {}
+
+  @Post()
+  @UseGuards(VerifiedEmailGuard)
+  @ApiOperation({
+    summary: 'Create a tus upload',
+    description: 'Creation extension. The file is checked against the plan and Upload-Length is reserved against the storage quota. Upload-Metadata must include filename and filetype, and may include folderId.',
+  })
+  @ApiHeader({ name: 'Upload-Length', description: 'File size in bytes', required: true })
+  @ApiHeader({ name: 'Upload-Metadata', description: 'Base64 encoded key-value pairs', required: true })
+  async create(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    assertTusResumable(req, res);
+
+    const length = parseTusByteCount(req.get('Upload-Length'), 'Upload-Length');
+    const upload = await this.tusService.create(user.id, length, req.get('Upload-Metadata'));
+
+    res.setHeader('Location', `${req.baseUrl}${req.path.replace(/\/$/, '')}/${upload.id}`);
+    res.setHeader('Upload-Expires', upload.expiresAt.toUTCString());
+  }
+
+  @Head(':id')
+  @ApiOperation({
+    summary: 'Get the offset of a tus upload',
+    description: 'Returns Upload-Offset, the number of bytes received so far, to resume from.',
+  })
+  async getOffset(
+    @Param('id') uploadId: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    assertTusResumable(req, res);
+
+    const upload = await this.tusService.getUpload(uploadId, user.id);
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Upload-Length', upload.length.toString());
+    if (upload.metadata) {
+      res.setHeader('Upload-Metadata', upload.metadata);
+    }
+    this.setUploadHeaders(res, upload);
+  }
+
+  @Patch(':id')
+  @UseGuards(VerifiedEmailGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Append data to a tus upload',
+    description: 'Body is the data starting at Upload-Offset, sent as application/offset+octet-stream. The file is created once the last byte arrives; its ID is returned in X-File-Id.',
+  })
+  @ApiHeader({ name: 'Upload-Offset', description: 'Offset the body starts at', required: true })
+  @ApiHeader({ name: 'Upload-Checksum', description: 'Checksum extension: "<algorithm> <base64 digest>"', required: false })
+  async append(
+    @Param('id') uploadId: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    assertTusResumable(req, res);
+
+    const contentType = req.get('Content-Type');
+    if (contentType !== TUS.CONTENT_TYPE) {
+      throw BusinessException.tusContentTypeUnsupported(contentType);
+    }
+    const offset = parseTusByteCount(req.get('Upload-Offset'), 'Upload-Offset');
+    const checksum = parseTusChecksum(req.get('Upload-Checksum'));
+
+    const upload = await this.tusService.append(uploadId, user.id, offset, req, checksum);
+
+    this.setUploadHeaders(res, upload);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Terminate a tus upload',
+    description: 'Termination extension. Releases the storage reservation and removes the data received.',
+  })
+  async terminate(
+    @Param('id') uploadId: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    assertTusResumable(req, res);
+    await this.tusService.terminate(uploadId, user.id);
+  }
+
+  private setUploadHeaders(res: Response, upload: TusUploadRecord): void {
+    res.setHeader('Upload-Offset', upload.offset.toString());
+    if (upload.fileId) {
+      res.setHeader('X-File-Id', upload.fileId);
+    } else {
+      res.setHeader('Upload-Expires', upload.expiresAt.toUTCString());
+    }
+  }
+}
@@ -0,0 +1,456 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, UploadSessionStatus } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import {
+  FILE_UPLOAD,
+  TUS,
+  TUS_UPLOAD_SELECT_FIELDS,
+  UPLOAD_SESSION,
+} from '../../common/constants';
+import { AppException, BusinessException } from '../../common/exceptions';
+import { addDays } from '../../common/utils/date.util';
+import { formatFileSize } from '../../common/utils/file.util';
+import { FilesService } from './files.service';
+import { ReservationKey, StorageQuotaService } from './storage-quota.service';
+import { parseTusMetadata } from './helpers/tus.helper';
+import { ContentChecksum } from './helpers/checksum.helper';
+
+export type TusUploadRecord = Prisma.TusUploadGetPayload<{
+  select: typeof TUS_UPLOAD_SELECT_FIELDS;
+}>;
+
+/**
+ * Uploads through the tus 1.0 protocol (https://tus.io/protocols/resumable-upload).
+ *
+ * Creation checks the file against the owner's plan and reserves its Upload-Length like
+ * an upload session does. Every PATCH is stored as a part named after its offset; once
+ * the offset reaches the length the parts go through the same assembly as chunked uploads.
+ */
+@Injectable()
+export class TusService {
+  private isRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+    private readonly filesService: FilesService,
+    private readonly storageQuotaService: StorageQuotaService,
+  ) {}
+
+  /**
+   * Creation extension: open an upload of `length` bytes described by Upload-Metadata
+   */
+  async create(
+    userId: string,
+    length: number,
+    metadataHeader: string | undefined,
+  ): Promise<TusUploadRecord> {
+    const metadata = parseTusMetadata(metadataHeader);
+    const fileName = this.pickMetadata(metadata, TUS.METADATA_FILE_NAME_KEYS);
+    const mimeType = this.pickMetadata(metadata, TUS.METADATA_FILE_TYPE_KEYS);
+    const folderId = metadata[TUS.METADATA_FOLDER_KEY] || undefined;
+
+    if (!fileName || !mimeType) {
+      throw BusinessException.tusRequestInvalid(
+        'Upload-Metadata must include the file name (filename) and type (filetype)',
+      );
+    }
+    if (fileName.length > FILE_UPLOAD.MAX_FILENAME_LENGTH) {
+      throw BusinessException.tusRequestInvalid(
+        `File name is too long (max ${FILE_UPLOAD.MAX_FILENAME_LENGTH} characters)`,
+      );
+    }
+    if (length < 1) {
+      throw BusinessException.tusRequestInvalid('Upload-Length must be at least 1 byte');
+    }
+    if (!FILE_UPLOAD.ALLOWED_MIME_TYPES.includes(mimeType as any)) {
+      throw BusinessException.fileTypeNotAllowed(mimeType);
+    }
+
+    const ownerId = await this.filesService.resolveUploadOwner(userId, folderId);
+    await this.storageQuotaService.assertCanStore(ownerId, mimeType, length);
+
+    const uploadId = randomUUID();
+    const reservation = this.getReservationKey(userId, uploadId);
+
+    await this.storageQuotaService.reserve(ownerId, reservation, length);
+
+    try {
+      const upload = await this.prisma.tusUpload.create({
+        data: {
+          id: uploadId,
+          userId,
+          folderId: folderId ?? null,
+          fileName,
+          mimeType,
+          length: BigInt(length),
+          metadata: metadataHeader ?? null,
+          expiresAt: this.storageQuotaService.getReservationExpiry(),
+        },
+        select: TUS_UPLOAD_SELECT_FIELDS,
+      });
+
+      this.logger.log('tus upload created', {
+        context: 'TusService',
+        userId,
+        uploadId,
+        fileName,
+        length: formatFileSize(length),
+      });
+
+      return upload;
+    } catch (error) {
+      await this.storageQuotaService.releaseReservation(reservation);
+      throw error;
+    }
+  }
+
+  /**
+   * Current offset of an upload, for HEAD requests. Completed uploads keep answering
+   * so a client resuming after the last PATCH sees that nothing is left to send.
+   */
+  async getUpload(uploadId: string, userId: string): Promise<TusUploadRecord> {
+    const upload = await this.findUpload(uploadId, userId);
+
+    if (upload.status !== UploadSessionStatus.COMPLETED) {
+      this.assertAppendable(upload);
+    }
+    return upload;
+  }
+
+  /**
+   * Append a PATCH body at `offset`. When the connection drops mid-body the bytes that
+   * arrived are kept (unless a checksum was sent) so the client can resume after them.
+   * The upload is assembled into its file when the last byte arrives.
+   */
+  async append(
+    uploadId: string,
+    userId: string,
+    offset: number,
+    body: Readable,
+    checksum?: ContentChecksum,
+  ): Promise<TusUploadRecord> {
+    const upload = await this.findUpload(uploadId, userId);
+    this.assertAppendable(upload);
+
+    if (offset !== Number(upload.offset)) {
+      throw BusinessException.tusOffsetMismatch(uploadId, Number(upload.offset), offset);
+    }
+
+    const remaining = Number(upload.length) - offset;
+    const uploadDir = this.getUploadDir(uploadId);
+    const partialPath = path.join(uploadDir, `part-${offset}.${randomUUID()}.tmp`);
+    const hash = checksum ? createHash(checksum.algorithm) : null;
+    let received = 0;
+    let interrupted = false;
+
+    await fs.mkdir(uploadDir, { recursive: true });
+
+    try {
+      await pipeline(
+        body,
+        new Transform({
+          transform(data: Buffer, _encoding, callback) {
+            received += data.length;
+            if (received > remaining) {
+              callback(
+                BusinessException.tusRequestInvalid('Body exceeds the Upload-Length of the upload'),
+              );
+              return;
+            }
+            hash?.update(data);
+            callback(null, data);
+          },
+        }),
+        createWriteStream(partialPath),
+      );
+    } catch (error) {
+      // Only a dropped connection leaves usable data; a checksum needs the whole body
+      if (error instanceof AppException || checksum) {
+        await fs.rm(partialPath, { force: true });
+        throw error;
+      }
+      interrupted = true;
+    }
+
+    if (hash && hash.digest('base64') !== checksum!.digest) {
+      await fs.rm(partialPath, { force: true });
+      throw BusinessException.tusChecksumMismatch(uploadId, checksum!.algorithm);
+    }
+
+    const size = await fs.stat(partialPath).then(
+      (stats) => stats.size,
+      () => 0,
+    );
+    if (size === 0) {
+      await fs.rm(partialPath, { force: true });
+      return upload;
+    }
+
+    // Advance the offset only if no other request did in the meantime
+    const expiresAt = this.storageQuotaService.getReservationExpiry();
+    const { count } = await this.prisma.tusUpload.updateMany({
+      where: { id: uploadId, status: UploadSessionStatus.ACTIVE, offset: BigInt(offset) },
+      data: { offset: BigInt(offset + size), expiresAt },
+    });
+
+    if (count === 0) {
+      await fs.rm(partialPath, { force: true });
+      const current = await this.findUpload(uploadId, userId);
+      this.assertAppendable(current);
+      throw BusinessException.tusOffsetMismatch(uploadId, Number(current.offset), offset);
+    }
+
+    await fs.rename(partialPath, this.getPartPath(uploadId, offset));
+    await this.storageQuotaService.extendReservation(
+      this.getReservationKey(userId, uploadId),
+      expiresAt,
+    );
+
+    this.logger.debug('tus upload data received', {
+      context: 'TusService',
+      userId,
+      uploadId,
+      offset: offset + size,
+      received: formatFileSize(size),
+      interrupted,
+    });
+
+    const updated = { ...upload, offset: BigInt(offset + size), expiresAt };
+    if (offset + size < Number(upload.length)) {
+      return updated;
+    }
+
+    const fileId = await this.finish(updated, userId);
+    return { ...updated, status: UploadSessionStatus.COMPLETED, fileId };
+  }
+
+  /**
+   * Termination extension: cancel an upload, releasing its reservation and data
+   */
+  async terminate(uploadId: string, userId: string): Promise<void> {
+    const upload = await this.findUpload(uploadId, userId);
+
+    const { count } = await this.prisma.tusUpload.updateMany({
+      where: { id: uploadId, status: UploadSessionStatus.ACTIVE },
+      data: { status: UploadSessionStatus.CANCELLED },
+    });
+    if (count === 0) {
+      throw BusinessException.tusUploadGone(uploadId, upload.status);
+    }
+
+    await this.discardUpload(userId, uploadId);
+
+    this.logger.log('tus upload terminated', {
+      context: 'TusService',
+      userId,
+      uploadId,
+    });
+  }
+
+  /**
+   * Expiration extension: expire uploads that received no data within the reservation
+   * TTL and remove finished ones past retention
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'tus-upload-expiry' })
+  async handleExpiredUploads(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('tus upload expiry skipped: previous run still in progress', {
+        context: 'TusService',
+      });
+      return;
+    }
+
+    this.isRunning = true;
+    let expiredCount = 0;
+
+    try {
+      const now = new Date();
+      let batch = await this.findExpiredUploads(now);
+
+      while (batch.length > 0) {
+        for (const upload of batch) {
+          // Skip uploads that received data or changed status since the lookup
+          const { count } = await this.prisma.tusUpload.updateMany({
+            where: { id: upload.id, status: upload.status, expiresAt: { lte: now } },
+            data: { status: UploadSessionStatus.EXPIRED },
+          });
+
+          if (count > 0) {
+            await this.discardUpload(upload.userId, upload.id);
+            expiredCount++;
+          }
+        }
+
+        batch = await this.findExpiredUploads(now);
+      }
+
+      const { count: removedCount } = await this.prisma.tusUpload.deleteMany({
+        where: {
+          status: { notIn: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+          updatedAt: { lt: addDays(now, -UPLOAD_SESSION.RETENTION_DAYS) },
+        },
+      });
+
+      this.logger.log('tus upload expiry completed', {
+        context: 'TusService',
+        expiredCount,
+        removedCount,
+      });
+    } catch (error) {
+      this.logger.error('tus upload expiry failed', error.stack, {
+        context: 'TusService',
+        expiredCount,
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Assemble a fully received upload into its file
+   * @returns ID of the created file
+   */
+  private async finish(upload: TusUploadRecord, userId: string): Promise<string> {
+    const uploadId = upload.id;
+    const reservation = this.getReservationKey(userId, uploadId);
+    const expiresAt = this.storageQuotaService.getReservationExpiry();
+
+    const { count } = await this.prisma.tusUpload.updateMany({
+      where: { id: uploadId, status: UploadSessionStatus.ACTIVE },
+      data: { status: UploadSessionStatus.COMPLETING, expiresAt },
+    });
+    if (count === 0) {
+      const current = await this.findUpload(uploadId, userId);
+      throw BusinessException.tusUploadGone(uploadId, current.status);
+    }
+    await this.storageQuotaService.extendReservation(reservation, expiresAt);
+
+    try {
+      const file = await this.filesService.assembleChunks(
+        {
+          uploadId,
+          chunkDir: this.getUploadDir(uploadId),
+          chunkPaths: await this.listParts(uploadId),
+          fileName: upload.fileName,
+          mimeType: upload.mimeType,
+          totalSize: Number(upload.length),
+          folderId: upload.folderId,
+        },
+        userId,
+      );
+
+      await this.prisma.tusUpload.update({
+        where: { id: uploadId },
+        data: { status: UploadSessionStatus.COMPLETED, fileId: file.id },
+      });
+
+      this.logger.log('tus upload completed', {
+        context: 'TusService',
+        userId,
+        uploadId,
+        fileId: file.id,
+      });
+
+      return file.id;
+    } catch (error) {
+      await this.prisma.tusUpload.update({
+        where: { id: uploadId },
+        data: { status: UploadSessionStatus.FAILED },
+      });
+      await this.discardUpload(userId, uploadId);
+      throw error;
+    }
+  }
+
+  private async findUpload(uploadId: string, userId: string): Promise<TusUploadRecord> {
+    const upload = await this.prisma.tusUpload.findFirst({
+      where: { id: uploadId, userId },
+      select: TUS_UPLOAD_SELECT_FIELDS,
+    });
+
+    if (!upload) {
+      throw BusinessException.tusUploadNotFound(uploadId);
+    }
+    return upload;
+  }
+
+  private assertAppendable(upload: TusUploadRecord): void {
+    if (upload.status !== UploadSessionStatus.ACTIVE) {
+      throw BusinessException.tusUploadGone(upload.id, upload.status);
+    }
+    // Not yet picked up by the expiry job, but no longer reserved
+    if (upload.expiresAt <= new Date()) {
+      throw BusinessException.tusUploadGone(upload.id, UploadSessionStatus.EXPIRED);
+    }
+  }
+
+  private findExpiredUploads(now: Date) {
+    return this.prisma.tusUpload.findMany({
+      where: {
+        status: { in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+        expiresAt: { lte: now },
+      },
+      select: { id: true, userId: true, status: true },
+      take: UPLOAD_SESSION.CLEANUP_BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Release the quota held by an upload and remove its data
+   */
+  private async discardUpload(userId: string, uploadId: string): Promise<void> {
+    await this.storageQuotaService.releaseReservation(this.getReservationKey(userId, uploadId));
+
+    try {
+      await fs.rm(this.getUploadDir(uploadId), { recursive: true, force: true });
+    } catch (error) {
+      this.logger.warn('Failed to remove tus upload data', {
+        context: 'TusService',
+        uploadId,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Stored parts in offset order
+   */
+  private async listParts(uploadId: string): Promise<string[]> {
+    const entries = await fs.readdir(this.getUploadDir(uploadId));
+
+    return entries
+      .map((entry) => /^part-(\d+)$/.exec(entry))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .sort((a, b) => Number(a[1]) - Number(b[1]))
+      .map((match) => this.getPartPath(uploadId, Number(match[1])));
+  }
+
+  private pickMetadata(metadata: Record<string, string>, keys: readonly string[]): string | undefined {
+    return keys.map((key) => metadata[key]).find((value) => !!value);
+  }
+
+  private getReservationKey(userId: string, uploadId: string): ReservationKey {
+    return { uploaderId: userId, uploadId };
+  }
+
+  private getUploadDir(uploadId: string): string {
+    const tempDirectory =
+      this.configService.get<string>('uploadConfig.tempDirectory') ??
+      UPLOAD_SESSION.DEFAULT_TEMP_DIRECTORY;
+    return path.resolve(process.cwd(), tempDirectory, 'tus', uploadId);
+  }
+
+  private getPartPath(uploadId: string, offset: number): string {
+    return path.join(this.getUploadDir(uploadId), `part-${offset}`);
+  }
+}
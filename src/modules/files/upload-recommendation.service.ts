@@ -6,7 +6,7 @@ import {
   UploadRecommendationDto,
 } from './dto/upload-recommendation.dto';
 import { formatFileSize, getFileTypeCategory } from '../../common/utils/file.util';
-import { FILE_UPLOAD } from '../../common/constants';
+import { StorageLimits } from './storage-quota.service';
 import chunk from 'lodash/chunk';
 
 @Injectable()
@@ -87,7 +87,7 @@ export class UploadRecommendationService {
       tips.push('💡 Real-time progress tracking available');
 
       if (supportsDirectUpload) {
-        tips.push('💡 Direct S3 upload available (faster!)');
+        tips.push('💡 Direct S3 upload available via POST /files/upload/presign (faster!)');
       }
     } else {
       recommendedMethod = 'regular';
@@ -273,21 +273,26 @@ export class UploadRecommendationService {
   }
 
   /**
-   * Get upload limits based on file type
+   * Get upload limits of the user's plan, for a file type when given
    */
-  getUploadLimits(mimeType?: string): {
+  getUploadLimits(
+    limits: StorageLimits,
+    mimeType?: string,
+  ): {
     maxSize: number;
     maxSizeFormatted: string;
     fileType?: string;
+    allowed?: boolean;
+    plan: string;
   } {
     const fileType = mimeType ? getFileTypeCategory(mimeType) : undefined;
 
-    const maxSize = fileType === 'video' ? FILE_UPLOAD.MAX_VIDEO_SIZE : FILE_UPLOAD.MAX_FILE_SIZE;
-
     return {
-      maxSize,
-      maxSizeFormatted: formatFileSize(maxSize),
+      maxSize: limits.maxFileSize,
+      maxSizeFormatted: formatFileSize(limits.maxFileSize),
       fileType,
+      allowed: fileType ? limits.allowedFileTypes.includes(fileType) : undefined,
+      plan: limits.planName,
     };
   }
 
@@ -0,0 +1,548 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, UploadSessionStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { promises as fs, createReadStream } from 'fs';
+import * as path from 'path';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { StorageService } from '../../common/storage/storage.service';
+import {
+  FILE_UPLOAD,
+  UPLOAD_SESSION,
+  UPLOAD_SESSION_SELECT_FIELDS,
+} from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { addDays } from '../../common/utils/date.util';
+import { formatFileSize } from '../../common/utils/file.util';
+import { ChunkedUpload, FilesService } from './files.service';
+import { ReservationKey, StorageQuotaService } from './storage-quota.service';
+import { ContentChecksum, matchesFileChecksum } from './helpers/checksum.helper';
+import { InitUploadDto, UploadSessionDto } from './dto/chunk-upload.dto';
+import { FileResponseDto } from './dto/file-response.dto';
+
+type UploadSessionRecord = Prisma.UploadSessionGetPayload<{
+  select: typeof UPLOAD_SESSION_SELECT_FIELDS;
+}>;
+
+/**
+ * Chunked uploads tracked in the database.
+ *
+ * A session records the file being uploaded, how it is split into chunks and which
+ * chunks arrived, so any instance sharing the temp directory can accept the next chunk
+ * or complete the upload, including after a restart. Its size is reserved against the
+ * owner's quota from init until the session completes, is cancelled or expires.
+ *
+ * With S3 storage each chunk is sent straight to S3 as a part of a multipart upload
+ * opened at init, and completing the session completes the multipart upload; chunks
+ * are only kept on local disk for local storage.
+ */
+@Injectable()
+export class UploadSessionsService {
+  private isRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+    private readonly filesService: FilesService,
+    private readonly storageQuotaService: StorageQuotaService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  /**
+   * Open an upload session after checking the file against the owner's plan and
+   * reserving its size
+   */
+  async init(userId: string, dto: InitUploadDto): Promise<UploadSessionDto> {
+    if (!FILE_UPLOAD.ALLOWED_MIME_TYPES.includes(dto.mimeType as any)) {
+      throw BusinessException.fileTypeNotAllowed(dto.mimeType);
+    }
+
+    const ownerId = await this.filesService.resolveUploadOwner(userId, dto.folderId);
+    await this.storageQuotaService.assertCanStore(ownerId, dto.mimeType, dto.totalSize);
+
+    const sessionId = randomUUID();
+    const useMultipart = this.storageService.isS3Available();
+    let chunkSize = dto.chunkSize ?? UPLOAD_SESSION.DEFAULT_CHUNK_SIZE;
+    if (useMultipart) {
+      // S3 rejects parts below its minimum size and more parts than its maximum
+      chunkSize = Math.max(
+        chunkSize,
+        UPLOAD_SESSION.S3_MIN_PART_SIZE,
+        Math.ceil(dto.totalSize / UPLOAD_SESSION.S3_MAX_PARTS),
+      );
+    }
+    const totalChunks = Math.ceil(dto.totalSize / chunkSize);
+    const reservation = this.getReservationKey(userId, sessionId);
+
+    await this.storageQuotaService.reserve(ownerId, reservation, dto.totalSize);
+
+    let multipart: { storageKey: string; multipartId: string } | null = null;
+
+    try {
+      if (useMultipart) {
+        const storageKey = this.filesService.generateStorageKey(ownerId, dto.fileName);
+        const multipartId = await this.storageService
+          .createMultipartUpload(storageKey, dto.mimeType)
+          .catch((error) => {
+            throw BusinessException.fileUploadFailed(error.message);
+          });
+        multipart = { storageKey, multipartId };
+      }
+
+      const session = await this.prisma.uploadSession.create({
+        data: {
+          id: sessionId,
+          userId,
+          folderId: dto.folderId ?? null,
+          fileName: dto.fileName,
+          mimeType: dto.mimeType,
+          totalSize: BigInt(dto.totalSize),
+          chunkSize,
+          totalChunks,
+          receivedChunks: new Uint8Array(Math.ceil(totalChunks / 8)),
+          storageKey: multipart?.storageKey ?? null,
+          multipartId: multipart?.multipartId ?? null,
+          expiresAt: this.storageQuotaService.getReservationExpiry(),
+        },
+        select: UPLOAD_SESSION_SELECT_FIELDS,
+      });
+
+      this.logger.log('Upload session created', {
+        context: 'UploadSessionsService',
+        userId,
+        sessionId,
+        fileName: dto.fileName,
+        totalSize: formatFileSize(dto.totalSize),
+        totalChunks,
+        multipart: useMultipart,
+      });
+
+      return this.toResponse(session);
+    } catch (error) {
+      if (multipart) {
+        await this.storageService.abortMultipartUpload(multipart.storageKey, multipart.multipartId);
+      }
+      await this.storageQuotaService.releaseReservation(reservation);
+      throw error;
+    }
+  }
+
+  /**
+   * Store one chunk of an active session, on local disk or as a part of the session's
+   * S3 multipart upload. Re-sending a chunk overwrites it, so a client can retry any
+   * chunk it is unsure about.
+   * @param checksum - Checksum the client sent for the chunk, verified before it is stored
+   */
+  async saveChunk(
+    sessionId: string,
+    chunkIndex: number,
+    chunk: Express.Multer.File,
+    userId: string,
+    checksum?: ContentChecksum,
+  ): Promise<UploadSessionDto> {
+    const chunkPath = this.getChunkPath(sessionId, chunkIndex);
+    const partNumber = chunkIndex + 1;
+    const expiresAt = this.storageQuotaService.getReservationExpiry();
+    let etag: string | null = null;
+    let updated: number;
+
+    try {
+      const session = await this.findSession(sessionId, userId);
+      this.assertActive(session);
+
+      if (chunkIndex >= session.totalChunks) {
+        throw BusinessException.uploadChunkInvalid(
+          `Chunk index ${chunkIndex} is out of range (0-${session.totalChunks - 1})`,
+          { sessionId, chunkIndex, totalChunks: session.totalChunks },
+        );
+      }
+
+      const expectedSize = this.getExpectedChunkSize(session, chunkIndex);
+      if (chunk.size !== expectedSize) {
+        throw BusinessException.uploadChunkInvalid(
+          `Chunk ${chunkIndex} must be ${expectedSize} bytes, got ${chunk.size}`,
+          { sessionId, chunkIndex, expectedSize, actualSize: chunk.size },
+        );
+      }
+
+      if (checksum && !(await matchesFileChecksum(chunk.path, checksum))) {
+        throw BusinessException.uploadChecksumMismatch(checksum.algorithm, {
+          sessionId,
+          chunkIndex,
+        });
+      }
+
+      if (session.multipartId) {
+        // Sending a part number again replaces that part
+        etag = await this.storageService
+          .uploadPart(
+            session.storageKey,
+            session.multipartId,
+            partNumber,
+            createReadStream(chunk.path),
+            chunk.size,
+          )
+          .catch((error) => {
+            throw BusinessException.fileUploadFailed(error.message);
+          });
+      }
+
+      // Mark the chunk received only while the session still accepts chunks; the row lock
+      // keeps complete from reading the parts before this one is recorded
+      updated = await this.prisma.$transaction(async (tx) => {
+        const count = await tx.$executeRaw`
+          UPDATE "UploadSession"
+          SET "receivedChunks" = set_bit("receivedChunks", ${chunkIndex}, 1),
+              "expiresAt" = ${expiresAt},
+              "updatedAt" = NOW()
+          WHERE "id" = ${sessionId} AND "status" = 'ACTIVE'::"UploadSessionStatus"
+        `;
+
+        if (count > 0 && etag) {
+          await tx.uploadSessionPart.upsert({
+            where: { sessionId_partNumber: { sessionId, partNumber } },
+            create: { sessionId, partNumber, etag, size: chunk.size },
+            update: { etag, size: chunk.size },
+          });
+        } else if (count > 0) {
+          // Multer streamed the chunk to disk under the temp directory. It is only renamed
+          // into place while the row lock is held: a retry arriving once complete has
+          // claimed the session never replaces a chunk being assembled, and a chunk
+          // is never seen half-written
+          await fs.mkdir(this.getChunkDir(sessionId), { recursive: true });
+          await fs.rename(chunk.path, chunkPath);
+        }
+        return count;
+      });
+    } finally {
+      await fs.rm(chunk.path, { force: true });
+    }
+
+    if (updated === 0) {
+      const current = await this.findSession(sessionId, userId);
+      throw BusinessException.uploadSessionNotActive(sessionId, current.status);
+    }
+
+    await this.storageQuotaService.extendReservation(
+      this.getReservationKey(userId, sessionId),
+      expiresAt,
+    );
+
+    this.logger.debug('Chunk saved', {
+      context: 'UploadSessionsService',
+      userId,
+      sessionId,
+      chunkIndex,
+      chunkSize: formatFileSize(chunk.size),
+    });
+
+    return this.toResponse(await this.findSession(sessionId, userId));
+  }
+
+  /**
+   * Current state of a session, including the chunks still to send when resuming
+   */
+  async getStatus(sessionId: string, userId: string): Promise<UploadSessionDto> {
+    return this.toResponse(await this.findSession(sessionId, userId));
+  }
+
+  /**
+   * Assemble a session whose chunks have all arrived into the final file
+   * @param sha256 - SHA-256 (hex) of the whole file, verified after assembly
+   */
+  async complete(sessionId: string, userId: string, sha256?: string): Promise<FileResponseDto> {
+    const session = await this.findSession(sessionId, userId);
+    this.assertActive(session);
+
+    const missingChunks = this.getMissingChunks(session);
+    if (missingChunks.length > 0) {
+      throw BusinessException.uploadIncomplete(sessionId, missingChunks);
+    }
+
+    // Claim the session so a concurrent complete or cancel cannot act on it too
+    const reservation = this.getReservationKey(userId, sessionId);
+    const expiresAt = this.storageQuotaService.getReservationExpiry();
+    const { count } = await this.prisma.uploadSession.updateMany({
+      where: { id: sessionId, status: UploadSessionStatus.ACTIVE },
+      data: { status: UploadSessionStatus.COMPLETING, expiresAt },
+    });
+    if (count === 0) {
+      const current = await this.findSession(sessionId, userId);
+      throw BusinessException.uploadSessionNotActive(sessionId, current.status);
+    }
+    await this.storageQuotaService.extendReservation(reservation, expiresAt);
+
+    try {
+      const file = await this.filesService.assembleChunks(
+        await this.toChunkedUpload(session, sha256),
+        userId,
+      );
+
+      await this.prisma.uploadSession.update({
+        where: { id: sessionId },
+        data: { status: UploadSessionStatus.COMPLETED, fileId: file.id },
+      });
+
+      this.logger.log('Upload session completed', {
+        context: 'UploadSessionsService',
+        userId,
+        sessionId,
+        fileId: file.id,
+      });
+
+      return file;
+    } catch (error) {
+      // The upload cannot be retried once assembly was attempted, so free what it holds
+      await this.prisma.uploadSession.update({
+        where: { id: sessionId },
+        data: { status: UploadSessionStatus.FAILED },
+      });
+      await this.discardUpload(userId, sessionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an active session, releasing its reservation and removing its chunks
+   */
+  async cancel(sessionId: string, userId: string): Promise<void> {
+    const session = await this.findSession(sessionId, userId);
+
+    const { count } = await this.prisma.uploadSession.updateMany({
+      where: { id: sessionId, status: UploadSessionStatus.ACTIVE },
+      data: { status: UploadSessionStatus.CANCELLED },
+    });
+    if (count === 0) {
+      throw BusinessException.uploadSessionNotActive(sessionId, session.status);
+    }
+
+    await this.discardUpload(userId, sessionId);
+
+    this.logger.log('Upload session cancelled', {
+      context: 'UploadSessionsService',
+      userId,
+      sessionId,
+    });
+  }
+
+  /**
+   * Expire sessions that received no chunk within the reservation TTL, then remove
+   * finished sessions past retention and reservations whose upload is gone
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'upload-session-expiry' })
+  async handleExpiredSessions(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Upload session expiry skipped: previous run still in progress', {
+        context: 'UploadSessionsService',
+      });
+      return;
+    }
+
+    this.isRunning = true;
+    let expiredCount = 0;
+
+    try {
+      const now = new Date();
+      let batch = await this.findExpiredSessions(now);
+
+      while (batch.length > 0) {
+        for (const session of batch) {
+          // Skip sessions that received a chunk or changed status since the lookup
+          const { count } = await this.prisma.uploadSession.updateMany({
+            where: { id: session.id, status: session.status, expiresAt: { lte: now } },
+            data: { status: UploadSessionStatus.EXPIRED },
+          });
+
+          if (count > 0) {
+            await this.discardUpload(session.userId, session.id);
+            expiredCount++;
+          }
+        }
+
+        batch = await this.findExpiredSessions(now);
+      }
+
+      const { count: removedCount } = await this.prisma.uploadSession.deleteMany({
+        where: {
+          status: { notIn: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+          updatedAt: { lt: addDays(now, -UPLOAD_SESSION.RETENTION_DAYS) },
+        },
+      });
+      const releasedCount = await this.storageQuotaService.deleteExpiredReservations();
+
+      this.logger.log('Upload session expiry completed', {
+        context: 'UploadSessionsService',
+        expiredCount,
+        removedCount,
+        releasedCount,
+      });
+    } catch (error) {
+      this.logger.error('Upload session expiry failed', error.stack, {
+        context: 'UploadSessionsService',
+        expiredCount,
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async findSession(sessionId: string, userId: string): Promise<UploadSessionRecord> {
+    const session = await this.prisma.uploadSession.findFirst({
+      where: { id: sessionId, userId },
+      select: UPLOAD_SESSION_SELECT_FIELDS,
+    });
+
+    if (!session) {
+      throw BusinessException.uploadSessionNotFound(sessionId);
+    }
+    return session;
+  }
+
+  private assertActive(session: UploadSessionRecord): void {
+    if (session.status !== UploadSessionStatus.ACTIVE) {
+      throw BusinessException.uploadSessionNotActive(session.id, session.status);
+    }
+    // Not yet picked up by the expiry job, but no longer reserved
+    if (session.expiresAt <= new Date()) {
+      throw BusinessException.uploadSessionNotActive(session.id, UploadSessionStatus.EXPIRED);
+    }
+  }
+
+  private findExpiredSessions(now: Date) {
+    return this.prisma.uploadSession.findMany({
+      where: {
+        status: { in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+        expiresAt: { lte: now },
+      },
+      select: { id: true, userId: true, status: true },
+      take: UPLOAD_SESSION.CLEANUP_BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Release the quota held by an upload and remove its chunks or multipart upload
+   */
+  private async discardUpload(userId: string, sessionId: string): Promise<void> {
+    await this.storageQuotaService.releaseReservation(this.getReservationKey(userId, sessionId));
+
+    const session = await this.prisma.uploadSession.findUnique({
+      where: { id: sessionId },
+      select: { storageKey: true, multipartId: true },
+    });
+    if (session?.multipartId) {
+      await this.storageService.abortMultipartUpload(session.storageKey, session.multipartId);
+    }
+
+    try {
+      await fs.rm(this.getChunkDir(sessionId), { recursive: true, force: true });
+    } catch (error) {
+      this.logger.warn('Failed to remove upload chunks', {
+        context: 'UploadSessionsService',
+        sessionId,
+        error: error.message,
+      });
+    }
+  }
+
+  private async toChunkedUpload(
+    session: UploadSessionRecord,
+    sha256?: string,
+  ): Promise<ChunkedUpload> {
+    const upload: ChunkedUpload = {
+      uploadId: session.id,
+      chunkDir: this.getChunkDir(session.id),
+      chunkPaths: [],
+      fileName: session.fileName,
+      mimeType: session.mimeType,
+      totalSize: Number(session.totalSize),
+      folderId: session.folderId,
+      sha256,
+    };
+
+    if (session.multipartId) {
+      const parts = await this.prisma.uploadSessionPart.findMany({
+        where: { sessionId: session.id },
+        select: { partNumber: true, etag: true },
+        orderBy: { partNumber: 'asc' },
+      });
+      upload.multipart = {
+        storageKey: session.storageKey,
+        multipartId: session.multipartId,
+        parts,
+      };
+    } else {
+      upload.chunkPaths = Array.from({ length: session.totalChunks }, (_, index) =>
+        this.getChunkPath(session.id, index),
+      );
+    }
+
+    return upload;
+  }
+
+  /**
+   * Every chunk is `chunkSize` bytes except the last, which holds the remainder
+   */
+  private getExpectedChunkSize(session: UploadSessionRecord, chunkIndex: number): number {
+    if (chunkIndex < session.totalChunks - 1) {
+      return session.chunkSize;
+    }
+    return Number(session.totalSize) - session.chunkSize * (session.totalChunks - 1);
+  }
+
+  private getReceivedChunks(session: UploadSessionRecord): number[] {
+    const received: number[] = [];
+    for (let index = 0; index < session.totalChunks; index++) {
+      if (session.receivedChunks[index >> 3] & (1 << (index & 7))) {
+        received.push(index);
+      }
+    }
+    return received;
+  }
+
+  private getMissingChunks(session: UploadSessionRecord): number[] {
+    const received = new Set(this.getReceivedChunks(session));
+    return Array.from({ length: session.totalChunks }, (_, index) => index).filter(
+      (index) => !received.has(index),
+    );
+  }
+
+  private getReservationKey(userId: string, sessionId: string): ReservationKey {
+    return { uploaderId: userId, uploadId: sessionId };
+  }
+
+  private getChunkDir(sessionId: string): string {
+    const tempDirectory =
+      this.configService.get<string>('uploadConfig.tempDirectory') ??
+      UPLOAD_SESSION.DEFAULT_TEMP_DIRECTORY;
+    return path.resolve(process.cwd(), tempDirectory, sessionId);
+  }
+
+  private getChunkPath(sessionId: string, chunkIndex: number): string {
+    return path.join(this.getChunkDir(sessionId), `chunk-${chunkIndex}`);
+  }
+
+  private toResponse(session: UploadSessionRecord): UploadSessionDto {
+    const receivedChunkIndices = this.getReceivedChunks(session);
+
+    return {
+      sessionId: session.id,
+      status: session.status,
+      fileName: session.fileName,
+      mimeType: session.mimeType,
+      folderId: session.folderId,
+      totalSize: Number(session.totalSize),
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      chunksReceived: receivedChunkIndices.length,
+      receivedChunkIndices,
+      progress: Math.round((receivedChunkIndices.length / session.totalChunks) * 100),
+      isComplete: receivedChunkIndices.length === session.totalChunks,
+      fileId: session.fileId,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+    };
+  }
+}
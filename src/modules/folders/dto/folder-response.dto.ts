@@ -0,0 +1,91 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PermissionRole } from '@prisma/client';
+import { FileResponseDto } from '../../files/dto/file-response.dto';
+
+export class FolderResponseDto {
+  @ApiProperty({
+    description: 'Folder ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Folder name',
+    example: 'Vacation 2024',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Parent folder ID (null for root folders)',
+    example: null,
+    nullable: true,
+  })
+  parentId: string | null;
+
+  @ApiProperty({
+    description: 'Owner user ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Folder creation date',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Folder last update date',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  updatedAt: Date;
+}
+
+export class SharedFolderResponseDto extends FolderResponseDto {
+  @ApiProperty({
+    description: 'Access the current user has been granted',
+    enum: PermissionRole,
+  })
+  role: PermissionRole;
+}
+
+export class FolderContentsDto {
+  @ApiProperty({
+    description: 'Folder being listed (null for the root)',
+    type: FolderResponseDto,
+    nullable: true,
+  })
+  folder: FolderResponseDto | null;
+
+  @ApiProperty({
+    description: 'Ancestors of the listed folder, from the root down to its parent',
+    type: [FolderResponseDto],
+  })
+  breadcrumbs: FolderResponseDto[];
+
+  @ApiProperty({
+    description: 'Direct child folders',
+    type: [FolderResponseDto],
+  })
+  folders: FolderResponseDto[];
+
+  @ApiProperty({
+    description: 'Files directly inside the folder',
+    type: [FileResponseDto],
+  })
+  files: FileResponseDto[];
+}
+
+export class FolderDeleteResultDto {
+  @ApiProperty({ description: 'Number of folders removed', example: 3 })
+  deletedFolders: number;
+
+  @ApiProperty({ description: 'Number of files moved to the trash', example: 12 })
+  deletedFiles: number;
+
+  @ApiProperty({
+    description: 'Files that could not be moved to the trash; the folders holding them are kept',
+    example: [],
+  })
+  failedFiles: { fileId: string; reason: string }[];
+}
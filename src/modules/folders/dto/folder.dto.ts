@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { FOLDER } from '../../../common/constants';
+
+export class CreateFolderDto {
+  @ApiProperty({
+    description: 'Folder name (unique within its parent)',
+    example: 'Vacation 2024',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(FOLDER.MAX_NAME_LENGTH)
+  @Matches(/^[^\\/:*?"<>|]+$/, { message: 'Folder name contains invalid characters' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Parent folder ID (omit to create at the root)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+}
+
+export class RenameFolderDto {
+  @ApiProperty({
+    description: 'New folder name',
+    example: 'Vacation 2024 (edited)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(FOLDER.MAX_NAME_LENGTH)
+  @Matches(/^[^\\/:*?"<>|]+$/, { message: 'Folder name contains invalid characters' })
+  name: string;
+}
+
+export class MoveFolderDto {
+  @ApiProperty({
+    description: 'Target parent folder ID (null moves the folder to the root)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  parentId: string | null;
+}
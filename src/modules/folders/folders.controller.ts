@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { FoldersService } from './folders.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { BaseResponseDto } from '../../common/dto';
+import { CreateFolderDto, MoveFolderDto, RenameFolderDto } from './dto/folder.dto';
+import {
+  FolderContentsDto,
+  FolderDeleteResultDto,
+  FolderResponseDto,
+  SharedFolderResponseDto,
+} from './dto/folder-response.dto';
+
+@ApiTags('Folders')
+@Controller('folders')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class FoldersController {
+  constructor(private readonly foldersService: FoldersService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a folder at the root or inside another folder' })
+  async createFolder(
+    @Body() dto: CreateFolderDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FolderResponseDto>> {
+    const folder = await this.foldersService.createFolder(user.id, dto);
+    return new BaseResponseDto(folder, 'Folder created successfully');
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List folders and files at the root' })
+  async getRootContents(@CurrentUser() user: any): Promise<BaseResponseDto<FolderContentsDto>> {
+    const contents = await this.foldersService.getFolderContents(user.id);
+    return new BaseResponseDto(contents, 'Folder contents retrieved successfully');
+  }
+
+  @Get('shared-with-me')
+  @ApiOperation({ summary: 'List folders other users have shared with me' })
+  async getSharedWithMe(
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<SharedFolderResponseDto[]>> {
+    const folders = await this.foldersService.getSharedWithMe(user.id);
+    return new BaseResponseDto(folders, 'Shared folders retrieved successfully');
+  }
+
+  @Get(':id/children')
+  @ApiOperation({ summary: 'List the subfolders and files directly inside a folder' })
+  async getFolderContents(
+    @Param('id') folderId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FolderContentsDto>> {
+    const contents = await this.foldersService.getFolderContents(user.id, folderId);
+    return new BaseResponseDto(contents, 'Folder contents retrieved successfully');
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get folder by ID' })
+  async getFolderById(
+    @Param('id') folderId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FolderResponseDto>> {
+    const folder = await this.foldersService.getFolderById(folderId, user.id);
+    return new BaseResponseDto(folder, 'Folder retrieved successfully');
+  }
+
+  @Patch(':id/rename')
+  @ApiOperation({ summary: 'Rename a folder' })
+  async renameFolder(
+    @Param('id') folderId: string,
+    @Body() dto: RenameFolderDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FolderResponseDto>> {
+    const folder = await this.foldersService.renameFolder(folderId, user.id, dto.name);
+    return new BaseResponseDto(folder, 'Folder renamed successfully');
+  }
+
+  @Patch(':id/move')
+  @ApiOperation({ summary: 'Move a folder under another parent (or to the root)' })
+  async moveFolder(
+    @Param('id') folderId: string,
+    @Body() dto: MoveFolderDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FolderResponseDto>> {
+    const folder = await this.foldersService.moveFolder(folderId, user.id, dto.parentId);
+    return new BaseResponseDto(folder, 'Folder moved successfully');
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a folder and its subfolders, moving contained files to the trash' })
+  async deleteFolder(
+    @Param('id') folderId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<FolderDeleteResultDto>> {
+    const result = await this.foldersService.deleteFolder(folderId, user.id);
+    return new BaseResponseDto(result, 'Folder deleted successfully');
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { FoldersController } from './folders.controller';
+import { FoldersService } from './folders.service';
+import { FilesModule } from '../files/files.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule, FilesModule, PermissionsModule],
+  controllers: [FoldersController],
+  providers: [FoldersService],
+  exports: [FoldersService],
+})
+export class FoldersModule {}
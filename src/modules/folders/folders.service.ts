@@ -0,0 +1,410 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionRole, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { FilesService } from '../files/files.service';
+import { AccessPolicyService, AccessRole } from '../permissions/access-policy.service';
+import { FOLDER_SELECT_FIELDS, SUCCESS_MESSAGES } from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { CreateFolderDto } from './dto/folder.dto';
+import {
+  FolderContentsDto,
+  FolderDeleteResultDto,
+  FolderResponseDto,
+  SharedFolderResponseDto,
+} from './dto/folder-response.dto';
+
+@Injectable()
+export class FoldersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly filesService: FilesService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
+
+  /**
+   * Create a folder at the root or inside another folder. Folders created inside
+   * a shared folder belong to the owner of that folder.
+   */
+  async createFolder(userId: string, dto: CreateFolderDto): Promise<FolderResponseDto> {
+    const name = dto.name.trim();
+    const parentId = dto.parentId ?? null;
+
+    this.logger.log('Folder creation initiated', {
+      context: 'FoldersService',
+      userId,
+      name,
+      parentId,
+    });
+
+    const parent = parentId
+      ? await this.findAccessibleFolder(parentId, userId, PermissionRole.EDITOR)
+      : null;
+    const ownerId = parent?.userId ?? userId;
+
+    await this.assertNameAvailable(ownerId, parentId, name);
+
+    try {
+      const folder = await this.prisma.folder.create({
+        data: { name, parentId, userId: ownerId },
+        select: FOLDER_SELECT_FIELDS,
+      });
+
+      this.logger.log(SUCCESS_MESSAGES.FOLDER_CREATED, {
+        context: 'FoldersService',
+        userId,
+        folderId: folder.id,
+        parentId,
+      });
+
+      return folder;
+    } catch (error) {
+      throw this.mapUniqueViolation(error, name, parentId);
+    }
+  }
+
+  /**
+   * List the direct children (folders and files) of a folder, or of the root when no ID is given
+   */
+  async getFolderContents(userId: string, folderId?: string): Promise<FolderContentsDto> {
+    this.logger.debug('Fetching folder contents', {
+      context: 'FoldersService',
+      userId,
+      folderId,
+    });
+
+    const folder = folderId
+      ? await this.findAccessibleFolder(folderId, userId, PermissionRole.VIEWER)
+      : null;
+    const parentId = folder?.id ?? null;
+    const ownerId = folder?.userId ?? userId;
+
+    const [folders, files, breadcrumbs] = await Promise.all([
+      this.prisma.folder.findMany({
+        where: { userId: ownerId, parentId },
+        select: FOLDER_SELECT_FIELDS,
+        orderBy: { name: 'asc' },
+      }),
+      this.filesService.getFolderFiles(ownerId, parentId),
+      folder ? this.getVisibleAncestors(folder, userId) : Promise.resolve([]),
+    ]);
+
+    return { folder, breadcrumbs, folders, files };
+  }
+
+  /**
+   * Get a single folder the user can view
+   */
+  async getFolderById(folderId: string, userId: string): Promise<FolderResponseDto> {
+    return this.findAccessibleFolder(folderId, userId, PermissionRole.VIEWER);
+  }
+
+  /**
+   * List the folders other users have shared directly with the user, most recent first
+   */
+  async getSharedWithMe(userId: string): Promise<SharedFolderResponseDto[]> {
+    const permissions = await this.prisma.folderPermission.findMany({
+      // Folders of deleted accounts stay hidden during the deletion grace period
+      where: { userId, folder: { user: { deletedAt: null } } },
+      select: { role: true, folder: { select: FOLDER_SELECT_FIELDS } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return permissions.map(({ role, folder }) => ({ ...folder, role }));
+  }
+
+  /**
+   * Rename a folder, keeping names unique within the parent
+   */
+  async renameFolder(folderId: string, userId: string, newName: string): Promise<FolderResponseDto> {
+    const folder = await this.findAccessibleFolder(folderId, userId, PermissionRole.EDITOR);
+    const name = newName.trim();
+
+    if (name === folder.name) {
+      return folder;
+    }
+
+    await this.assertNameAvailable(folder.userId, folder.parentId, name, folder.id);
+
+    try {
+      const renamed = await this.prisma.folder.update({
+        where: { id: folder.id },
+        data: { name },
+        select: FOLDER_SELECT_FIELDS,
+      });
+
+      this.logger.log('Folder renamed', {
+        context: 'FoldersService',
+        userId,
+        folderId,
+        from: folder.name,
+        to: name,
+      });
+
+      return renamed;
+    } catch (error) {
+      throw this.mapUniqueViolation(error, name, folder.parentId);
+    }
+  }
+
+  /**
+   * Move a folder under a new parent (null moves it to the root)
+   */
+  async moveFolder(
+    folderId: string,
+    userId: string,
+    targetParentId: string | null,
+  ): Promise<FolderResponseDto> {
+    const folder = await this.findAccessibleFolder(folderId, userId, 'OWNER');
+
+    if (folder.parentId === targetParentId) {
+      return folder;
+    }
+
+    if (targetParentId) {
+      const target = await this.findAccessibleFolder(targetParentId, userId, 'OWNER');
+
+      // The target must not be the folder itself or live underneath it
+      const targetLineage = [target, ...(await this.getAncestors(target))];
+      if (targetLineage.some((ancestor) => ancestor.id === folder.id)) {
+        this.logger.warn('Folder move rejected: would create a cycle', {
+          context: 'FoldersService',
+          userId,
+          folderId,
+          targetParentId,
+          errorCode: 'FOLDER_INVALID_MOVE',
+        });
+        throw BusinessException.folderInvalidMove(folderId, targetParentId);
+      }
+    }
+
+    await this.assertNameAvailable(userId, targetParentId, folder.name, folder.id);
+
+    try {
+      const moved = await this.prisma.folder.update({
+        where: { id: folder.id },
+        data: { parentId: targetParentId },
+        select: FOLDER_SELECT_FIELDS,
+      });
+
+      this.logger.log('Folder moved', {
+        context: 'FoldersService',
+        userId,
+        folderId,
+        fromParentId: folder.parentId,
+        toParentId: targetParentId,
+      });
+
+      return moved;
+    } catch (error) {
+      throw this.mapUniqueViolation(error, folder.name, targetParentId);
+    }
+  }
+
+  /**
+   * Delete a folder and every subfolder underneath it; contained files go to the trash
+   * and are restored to the root since their folders no longer exist. Folders still
+   * holding files that could not be trashed are kept, with their ancestors.
+   */
+  async deleteFolder(folderId: string, userId: string): Promise<FolderDeleteResultDto> {
+    const folder = await this.findAccessibleFolder(folderId, userId, 'OWNER');
+
+    this.logger.log('Recursive folder deletion initiated', {
+      context: 'FoldersService',
+      userId,
+      folderId,
+    });
+
+    const folderIds = await this.collectSubtreeIds(folder.id, userId);
+
+    const files = await this.prisma.file.findMany({
+      where: { userId, folderId: { in: folderIds } },
+      select: { id: true },
+    });
+
+    const { deletedCount, failedFiles } = await this.filesService.deleteMultipleFiles(
+      files.map((file) => file.id),
+      userId,
+    );
+
+    // Removing their folder would silently move the files left behind to the root
+    const keptIds = await this.findFoldersInUse(folderIds, userId);
+    const deletedIds = folderIds.filter((id) => !keptIds.has(id));
+
+    if (keptIds.size === 0) {
+      // Child rows cascade from the subtree root
+      await this.prisma.folder.delete({ where: { id: folder.id } });
+    } else {
+      await this.prisma.folder.deleteMany({ where: { id: { in: deletedIds } } });
+    }
+
+    this.logger.log(SUCCESS_MESSAGES.FOLDER_DELETED, {
+      context: 'FoldersService',
+      userId,
+      folderId,
+      deletedFolders: deletedIds.length,
+      keptFolders: keptIds.size,
+      deletedFiles: deletedCount,
+      failedCount: failedFiles.length,
+    });
+
+    return {
+      deletedFolders: deletedIds.length,
+      deletedFiles: deletedCount,
+      failedFiles,
+    };
+  }
+
+  /**
+   * Find a folder on which the user holds at least the required role
+   */
+  private async findAccessibleFolder(
+    folderId: string,
+    userId: string,
+    requiredRole: AccessRole,
+  ): Promise<FolderResponseDto> {
+    await this.accessPolicy.assertFolderAccess(folderId, userId, requiredRole);
+
+    return this.prisma.folder.findUniqueOrThrow({
+      where: { id: folderId },
+      select: FOLDER_SELECT_FIELDS,
+    });
+  }
+
+  /**
+   * Ancestors the user may see: everything for owners, otherwise only the part
+   * of the path starting at the topmost folder shared with them
+   */
+  private async getVisibleAncestors(
+    folder: FolderResponseDto,
+    userId: string,
+  ): Promise<FolderResponseDto[]> {
+    const ancestors = await this.getAncestors(folder);
+
+    if (folder.userId === userId) {
+      return ancestors;
+    }
+
+    const granted = await this.accessPolicy.getGrantedFolderIds(
+      ancestors.map((ancestor) => ancestor.id),
+      userId,
+    );
+    const topIndex = ancestors.findIndex((ancestor) => granted.has(ancestor.id));
+
+    return topIndex === -1 ? [] : ancestors.slice(topIndex);
+  }
+
+  /**
+   * Walk up the tree and return the ancestors of a folder, root first
+   */
+  private async getAncestors(folder: FolderResponseDto): Promise<FolderResponseDto[]> {
+    const ancestors: FolderResponseDto[] = [];
+    let parentId = folder.parentId;
+
+    while (parentId) {
+      const parent = await this.prisma.folder.findUnique({
+        where: { id: parentId },
+        select: FOLDER_SELECT_FIELDS,
+      });
+      if (!parent) break;
+
+      ancestors.unshift(parent);
+      parentId = parent.parentId;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Collect the IDs of a folder and all of its descendants (breadth-first)
+   */
+  private async collectSubtreeIds(rootId: string, userId: string): Promise<string[]> {
+    const ids = [rootId];
+    let frontier = [rootId];
+
+    while (frontier.length > 0) {
+      const children = await this.prisma.folder.findMany({
+        where: { userId, parentId: { in: frontier } },
+        select: { id: true },
+      });
+
+      frontier = children.map((child) => child.id);
+      ids.push(...frontier);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Folders of a subtree that still contain files (trashed ones excluded), with their
+   * ancestors up to the subtree root
+   */
+  private async findFoldersInUse(folderIds: string[], userId: string): Promise<Set<string>> {
+    const [files, folders] = await Promise.all([
+      this.prisma.file.findMany({
+        where: { userId, folderId: { in: folderIds } },
+        select: { folderId: true },
+        distinct: ['folderId'],
+      }),
+      this.prisma.folder.findMany({
+        where: { id: { in: folderIds } },
+        select: { id: true, parentId: true },
+      }),
+    ]);
+
+    const parentIds = new Map(folders.map((folder) => [folder.id, folder.parentId]));
+    const inUse = new Set<string>();
+
+    for (const file of files) {
+      let currentId: string | null = file.folderId;
+      while (currentId && parentIds.has(currentId) && !inUse.has(currentId)) {
+        inUse.add(currentId);
+        currentId = parentIds.get(currentId);
+      }
+    }
+
+    return inUse;
+  }
+
+  /**
+   * Reject names already used by a sibling folder
+   */
+  private async assertNameAvailable(
+    userId: string,
+    parentId: string | null,
+    name: string,
+    excludeFolderId?: string,
+  ): Promise<void> {
+    const sibling = await this.prisma.folder.findFirst({
+      where: {
+        userId,
+        parentId,
+        name,
+        ...(excludeFolderId && { id: { not: excludeFolderId } }),
+      },
+      select: { id: true },
+    });
+
+    if (sibling) {
+      this.logger.warn('Folder name already in use', {
+        context: 'FoldersService',
+        userId,
+        parentId,
+        name,
+        errorCode: 'FOLDER_NAME_CONFLICT',
+      });
+      throw BusinessException.folderNameConflict(name, parentId);
+    }
+  }
+
+  /**
+   * Translate a unique constraint race into a name conflict
+   */
+  private mapUniqueViolation(error: any, name: string, parentId: string | null) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return BusinessException.folderNameConflict(name, parentId);
+    }
+    return error;
+  }
+}
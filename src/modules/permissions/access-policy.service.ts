@@ -0,0 +1,259 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { BusinessException } from '../../common/exceptions';
+
+/**
+ * Effective access a user has on a file or folder. OWNER is implicit and never stored.
+ */
+export type AccessRole = PermissionRole | 'OWNER';
+
+const ROLE_RANK: Record<AccessRole, number> = {
+  [PermissionRole.VIEWER]: 1,
+  [PermissionRole.COMMENTER]: 2,
+  [PermissionRole.EDITOR]: 3,
+  OWNER: 4,
+};
+
+/**
+ * Minimal file shape needed to evaluate access
+ */
+export interface AccessControlledFile {
+  id: string;
+  userId: string;
+  folderId: string | null;
+}
+
+/**
+ * Minimal folder shape needed to evaluate access
+ */
+export interface AccessControlledFolder {
+  id: string;
+  userId: string;
+  parentId: string | null;
+}
+
+/**
+ * Central place deciding who may do what with files and folders.
+ * Owners have full access; collaborators get the highest role granted on the item itself
+ * or on any folder above it, and lose it while the owner's account is pending deletion.
+ */
+@Injectable()
+export class AccessPolicyService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Whether a role satisfies a required role
+   */
+  static satisfies(role: AccessRole | null, required: AccessRole): boolean {
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+  }
+
+  /**
+   * Load a file and make sure the user holds at least the required role on it
+   */
+  async assertFileAccess(
+    fileId: string,
+    userId: string,
+    required: AccessRole,
+  ): Promise<AccessControlledFile & { role: AccessRole }> {
+    const file = await this.prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true, userId: true, folderId: true },
+    });
+
+    if (!file) {
+      this.logger.warn('File not found', {
+        context: 'AccessPolicyService',
+        userId,
+        fileId,
+        errorCode: 'FILE_NOT_FOUND',
+      });
+      throw BusinessException.fileNotFound(fileId);
+    }
+
+    const role = await this.authorizeFile(file, userId, required);
+    return { ...file, role };
+  }
+
+  /**
+   * Check an already loaded file against the required role
+   * @returns The user's effective role
+   */
+  async authorizeFile(
+    file: AccessControlledFile,
+    userId: string,
+    required: AccessRole,
+  ): Promise<AccessRole> {
+    const role = await this.getFileRole(file, userId);
+
+    if (!AccessPolicyService.satisfies(role, required)) {
+      this.logger.warn('File access denied', {
+        context: 'AccessPolicyService',
+        userId,
+        fileId: file.id,
+        ownerId: file.userId,
+        role,
+        requiredRole: required,
+        errorCode: required === 'OWNER' && !role ? 'FILE_NOT_OWNER' : 'FILE_ACCESS_DENIED',
+      });
+
+      // Keep the historical error for strangers touching owner-only routes
+      if (required === 'OWNER' && !role) {
+        throw BusinessException.fileNotOwner(file.id, userId);
+      }
+      throw BusinessException.fileAccessDenied(file.id, required);
+    }
+
+    return role!;
+  }
+
+  /**
+   * Load a folder and make sure the user holds at least the required role on it.
+   * Folders the user cannot see at all are reported as not found.
+   */
+  async assertFolderAccess(
+    folderId: string,
+    userId: string,
+    required: AccessRole,
+  ): Promise<AccessControlledFolder & { role: AccessRole }> {
+    const folder = await this.prisma.folder.findUnique({
+      where: { id: folderId },
+      select: { id: true, userId: true, parentId: true },
+    });
+
+    const role = folder ? await this.getFolderRole(folder, userId) : null;
+
+    if (!folder || !role) {
+      this.logger.warn('Folder not found', {
+        context: 'AccessPolicyService',
+        userId,
+        folderId,
+        errorCode: 'FOLDER_NOT_FOUND',
+      });
+      throw BusinessException.folderNotFound(folderId);
+    }
+
+    if (!AccessPolicyService.satisfies(role, required)) {
+      this.logger.warn('Folder access denied', {
+        context: 'AccessPolicyService',
+        userId,
+        folderId,
+        ownerId: folder.userId,
+        role,
+        requiredRole: required,
+        errorCode: 'FOLDER_ACCESS_DENIED',
+      });
+      throw BusinessException.folderAccessDenied(folderId, required);
+    }
+
+    return { ...folder, role };
+  }
+
+  /**
+   * Effective role of a user on a file, or null without access
+   */
+  async getFileRole(file: AccessControlledFile, userId: string): Promise<AccessRole | null> {
+    if (file.userId === userId) {
+      return 'OWNER';
+    }
+    if (!(await this.isOwnerActive(file.userId))) {
+      return null;
+    }
+
+    const [direct, inherited] = await Promise.all([
+      this.prisma.filePermission.findUnique({
+        where: { fileId_userId: { fileId: file.id, userId } },
+        select: { role: true },
+      }),
+      file.folderId ? this.getInheritedFolderRole(file.folderId, userId) : Promise.resolve(null),
+    ]);
+
+    return this.highestRole([direct?.role ?? null, inherited]);
+  }
+
+  /**
+   * Effective role of a user on a folder, or null without access
+   */
+  async getFolderRole(folder: AccessControlledFolder, userId: string): Promise<AccessRole | null> {
+    if (folder.userId === userId) {
+      return 'OWNER';
+    }
+    if (!(await this.isOwnerActive(folder.userId))) {
+      return null;
+    }
+
+    return this.getInheritedFolderRole(folder.id, userId);
+  }
+
+  /**
+   * IDs of the given folders on which the user holds a direct grant
+   */
+  async getGrantedFolderIds(folderIds: string[], userId: string): Promise<Set<string>> {
+    const grants = await this.prisma.folderPermission.findMany({
+      where: { userId, folderId: { in: folderIds } },
+      select: { folderId: true },
+    });
+
+    return new Set(grants.map((grant) => grant.folderId));
+  }
+
+  /**
+   * Whether the owner's account is not pending deletion; files of deleted accounts stay
+   * hidden from everyone else during the grace period, as from public and share links
+   */
+  private async isOwnerActive(ownerId: string): Promise<boolean> {
+    // Deleted accounts are excluded by the soft delete extension
+    const owner = await this.prisma.user.findUnique({
+      where: { id: ownerId },
+      select: { id: true },
+    });
+    return !!owner;
+  }
+
+  /**
+   * Highest role granted on a folder or any of its ancestors
+   */
+  private async getInheritedFolderRole(folderId: string, userId: string): Promise<AccessRole | null> {
+    const lineage = await this.getFolderLineage(folderId);
+
+    const grants = await this.prisma.folderPermission.findMany({
+      where: { userId, folderId: { in: lineage } },
+      select: { role: true },
+    });
+
+    return this.highestRole(grants.map((grant) => grant.role));
+  }
+
+  /**
+   * A folder ID followed by the IDs of all its ancestors
+   */
+  private async getFolderLineage(folderId: string): Promise<string[]> {
+    const lineage: string[] = [];
+    let currentId: string | null = folderId;
+
+    // Guard against corrupted trees where a folder ends up as its own ancestor
+    while (currentId && !lineage.includes(currentId)) {
+      lineage.push(currentId);
+
+      const folder = await this.prisma.folder.findUnique({
+        where: { id: currentId },
+        select: { parentId: true },
+      });
+      currentId = folder?.parentId ?? null;
+    }
+
+    return lineage;
+  }
+
+  private highestRole(roles: (AccessRole | null)[]): AccessRole | null {
+    return roles.reduce<AccessRole | null>(
+      (best, role) => (role && (!best || ROLE_RANK[role] > ROLE_RANK[best]) ? role : best),
+      null,
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { PermissionsService } from './permissions.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { BaseResponseDto } from '../../common/dto';
+import { AddCollaboratorDto, UpdateCollaboratorDto } from './dto/collaborator.dto';
+import { CollaboratorResponseDto } from './dto/collaborator-response.dto';
+
+@ApiTags('Files')
+@Controller('files/:id/collaborators')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class FileCollaboratorsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Invite a registered user to a file by email' })
+  async addCollaborator(
+    @Param('id') fileId: string,
+    @Body() dto: AddCollaboratorDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<CollaboratorResponseDto>> {
+    const collaborator = await this.permissionsService.addCollaborator(
+      { type: 'file', id: fileId },
+      user.id,
+      dto,
+    );
+    return new BaseResponseDto(collaborator, 'Collaborator added successfully');
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the collaborators of a file' })
+  async getCollaborators(
+    @Param('id') fileId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<CollaboratorResponseDto[]>> {
+    const collaborators = await this.permissionsService.getCollaborators(
+      { type: 'file', id: fileId },
+      user.id,
+    );
+    return new BaseResponseDto(collaborators, 'Collaborators retrieved successfully');
+  }
+
+  @Patch(':userId')
+  @ApiOperation({ summary: 'Change the role of a file collaborator' })
+  async updateCollaborator(
+    @Param('id') fileId: string,
+    @Param('userId') collaboratorId: string,
+    @Body() dto: UpdateCollaboratorDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<CollaboratorResponseDto>> {
+    const collaborator = await this.permissionsService.updateCollaborator(
+      { type: 'file', id: fileId },
+      user.id,
+      collaboratorId,
+      dto.role,
+    );
+    return new BaseResponseDto(collaborator, 'Collaborator updated successfully');
+  }
+
+  @Delete(':userId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke a collaborator from a file',
+    description: 'Owners can remove anyone; collaborators can remove themselves.',
+  })
+  async removeCollaborator(
+    @Param('id') fileId: string,
+    @Param('userId') collaboratorId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.permissionsService.removeCollaborator(
+      { type: 'file', id: fileId },
+      user.id,
+      collaboratorId,
+    );
+    return new BaseResponseDto(null, 'Collaborator removed successfully');
+  }
+}
+
+@ApiTags('Folders')
+@Controller('folders/:id/collaborators')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class FolderCollaboratorsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Invite a registered user to a folder by email',
+    description: 'Access applies to every subfolder and file inside the folder.',
+  })
+  async addCollaborator(
+    @Param('id') folderId: string,
+    @Body() dto: AddCollaboratorDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<CollaboratorResponseDto>> {
+    const collaborator = await this.permissionsService.addCollaborator(
+      { type: 'folder', id: folderId },
+      user.id,
+      dto,
+    );
+    return new BaseResponseDto(collaborator, 'Collaborator added successfully');
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the collaborators of a folder' })
+  async getCollaborators(
+    @Param('id') folderId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<CollaboratorResponseDto[]>> {
+    const collaborators = await this.permissionsService.getCollaborators(
+      { type: 'folder', id: folderId },
+      user.id,
+    );
+    return new BaseResponseDto(collaborators, 'Collaborators retrieved successfully');
+  }
+
+  @Patch(':userId')
+  @ApiOperation({ summary: 'Change the role of a folder collaborator' })
+  async updateCollaborator(
+    @Param('id') folderId: string,
+    @Param('userId') collaboratorId: string,
+    @Body() dto: UpdateCollaboratorDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<CollaboratorResponseDto>> {
+    const collaborator = await this.permissionsService.updateCollaborator(
+      { type: 'folder', id: folderId },
+      user.id,
+      collaboratorId,
+      dto.role,
+    );
+    return new BaseResponseDto(collaborator, 'Collaborator updated successfully');
+  }
+
+  @Delete(':userId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke a collaborator from a folder',
+    description: 'Owners can remove anyone; collaborators can remove themselves.',
+  })
+  async removeCollaborator(
+    @Param('id') folderId: string,
+    @Param('userId') collaboratorId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.permissionsService.removeCollaborator(
+      { type: 'folder', id: folderId },
+      user.id,
+      collaboratorId,
+    );
+    return new BaseResponseDto(null, 'Collaborator removed successfully');
+  }
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PermissionRole } from '@prisma/client';
+
+export class CollaboratorResponseDto {
+  @ApiProperty({
+    description: 'Collaborator user ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  userId: string;
+
+  @ApiProperty({ description: 'Collaborator email', example: 'colleague@example.com' })
+  email: string;
+
+  @ApiProperty({ description: 'Collaborator name', example: 'Jane Doe', nullable: true })
+  name: string | null;
+
+  @ApiProperty({ description: 'Access granted', enum: PermissionRole })
+  role: PermissionRole;
+
+  @ApiProperty({
+    description: 'User who granted the access',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  grantedById: string;
+
+  @ApiProperty({
+    description: 'When access was granted',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last time the role changed',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsEnum, IsNotEmpty } from 'class-validator';
+import { PermissionRole } from '@prisma/client';
+
+export class AddCollaboratorDto {
+  @ApiProperty({
+    description: 'Email of the registered user to invite',
+    example: 'colleague@example.com',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({
+    description: 'Access granted to the collaborator',
+    enum: PermissionRole,
+    example: PermissionRole.VIEWER,
+  })
+  @IsEnum(PermissionRole)
+  role: PermissionRole;
+}
+
+export class UpdateCollaboratorDto {
+  @ApiProperty({
+    description: 'New access level',
+    enum: PermissionRole,
+    example: PermissionRole.EDITOR,
+  })
+  @IsEnum(PermissionRole)
+  role: PermissionRole;
+}
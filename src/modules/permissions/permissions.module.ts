@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import {
+  FileCollaboratorsController,
+  FolderCollaboratorsController,
+} from './collaborators.controller';
+import { AccessPolicyService } from './access-policy.service';
+import { PermissionsService } from './permissions.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [FileCollaboratorsController, FolderCollaboratorsController],
+  providers: [AccessPolicyService, PermissionsService],
+  exports: [AccessPolicyService],
+})
+export class PermissionsModule {}
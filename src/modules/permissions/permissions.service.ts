@@ -0,0 +1,225 @@
+import { Injectable } from '@nestjs/common';
+import { PermissionRole, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { COLLABORATOR_SELECT_FIELDS, SUCCESS_MESSAGES } from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { AccessPolicyService } from './access-policy.service';
+import { AddCollaboratorDto } from './dto/collaborator.dto';
+import { CollaboratorResponseDto } from './dto/collaborator-response.dto';
+
+/**
+ * Item a collaborator can be granted access to
+ */
+export type ShareableResource = { type: 'file' | 'folder'; id: string };
+
+type CollaboratorRecord = Prisma.FilePermissionGetPayload<{
+  select: typeof COLLABORATOR_SELECT_FIELDS;
+}>;
+
+@Injectable()
+export class PermissionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly accessPolicy: AccessPolicyService,
+  ) {}
+
+  /**
+   * Grant a registered user access to a file or folder owned by the requester
+   */
+  async addCollaborator(
+    resource: ShareableResource,
+    ownerId: string,
+    dto: AddCollaboratorDto,
+  ): Promise<CollaboratorResponseDto> {
+    await this.assertOwner(resource, ownerId);
+
+    const { email } = dto;
+    const invitee = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (!invitee) {
+      this.logger.warn('Collaborator invite failed: User not found', {
+        context: 'PermissionsService',
+        ownerId,
+        resourceType: resource.type,
+        resourceId: resource.id,
+        errorCode: 'USER_NOT_FOUND',
+      });
+      throw BusinessException.userNotFoundByEmail(email);
+    }
+
+    if (invitee.id === ownerId) {
+      throw BusinessException.collaboratorInvalid(resource.id);
+    }
+
+    const data = { userId: invitee.id, role: dto.role, grantedById: ownerId };
+
+    try {
+      const permission =
+        resource.type === 'file'
+          ? await this.prisma.filePermission.create({
+              data: { ...data, fileId: resource.id },
+              select: COLLABORATOR_SELECT_FIELDS,
+            })
+          : await this.prisma.folderPermission.create({
+              data: { ...data, folderId: resource.id },
+              select: COLLABORATOR_SELECT_FIELDS,
+            });
+
+      this.logger.log(SUCCESS_MESSAGES.COLLABORATOR_ADDED, {
+        context: 'PermissionsService',
+        ownerId,
+        resourceType: resource.type,
+        resourceId: resource.id,
+        collaboratorId: invitee.id,
+        role: dto.role,
+      });
+
+      return this.toResponse(permission);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw BusinessException.collaboratorAlreadyExists(resource.id, email);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List everyone the item has been shared with directly
+   */
+  async getCollaborators(
+    resource: ShareableResource,
+    userId: string,
+  ): Promise<CollaboratorResponseDto[]> {
+    // Collaborators can see who else has access
+    await this.assertAccess(resource, userId, PermissionRole.VIEWER);
+
+    const permissions =
+      resource.type === 'file'
+        ? await this.prisma.filePermission.findMany({
+            where: { fileId: resource.id },
+            select: COLLABORATOR_SELECT_FIELDS,
+            orderBy: { createdAt: 'asc' },
+          })
+        : await this.prisma.folderPermission.findMany({
+            where: { folderId: resource.id },
+            select: COLLABORATOR_SELECT_FIELDS,
+            orderBy: { createdAt: 'asc' },
+          });
+
+    return permissions.map((permission) => this.toResponse(permission));
+  }
+
+  /**
+   * Change the role of an existing collaborator
+   */
+  async updateCollaborator(
+    resource: ShareableResource,
+    ownerId: string,
+    collaboratorId: string,
+    role: PermissionRole,
+  ): Promise<CollaboratorResponseDto> {
+    await this.assertOwner(resource, ownerId);
+    await this.findCollaborator(resource, collaboratorId);
+
+    const permission =
+      resource.type === 'file'
+        ? await this.prisma.filePermission.update({
+            where: { fileId_userId: { fileId: resource.id, userId: collaboratorId } },
+            data: { role },
+            select: COLLABORATOR_SELECT_FIELDS,
+          })
+        : await this.prisma.folderPermission.update({
+            where: { folderId_userId: { folderId: resource.id, userId: collaboratorId } },
+            data: { role },
+            select: COLLABORATOR_SELECT_FIELDS,
+          });
+
+    this.logger.log('Collaborator role updated', {
+      context: 'PermissionsService',
+      ownerId,
+      resourceType: resource.type,
+      resourceId: resource.id,
+      collaboratorId,
+      role,
+    });
+
+    return this.toResponse(permission);
+  }
+
+  /**
+   * Revoke a collaborator's access. Collaborators may also remove themselves.
+   */
+  async removeCollaborator(
+    resource: ShareableResource,
+    userId: string,
+    collaboratorId: string,
+  ): Promise<void> {
+    if (userId !== collaboratorId) {
+      await this.assertOwner(resource, userId);
+    }
+    await this.findCollaborator(resource, collaboratorId);
+
+    if (resource.type === 'file') {
+      await this.prisma.filePermission.delete({
+        where: { fileId_userId: { fileId: resource.id, userId: collaboratorId } },
+      });
+    } else {
+      await this.prisma.folderPermission.delete({
+        where: { folderId_userId: { folderId: resource.id, userId: collaboratorId } },
+      });
+    }
+
+    this.logger.log(SUCCESS_MESSAGES.COLLABORATOR_REMOVED, {
+      context: 'PermissionsService',
+      userId,
+      resourceType: resource.type,
+      resourceId: resource.id,
+      collaboratorId,
+    });
+  }
+
+  private async assertOwner(resource: ShareableResource, userId: string): Promise<void> {
+    await this.assertAccess(resource, userId, 'OWNER');
+  }
+
+  private async assertAccess(
+    resource: ShareableResource,
+    userId: string,
+    required: PermissionRole | 'OWNER',
+  ): Promise<void> {
+    if (resource.type === 'file') {
+      await this.accessPolicy.assertFileAccess(resource.id, userId, required);
+    } else {
+      await this.accessPolicy.assertFolderAccess(resource.id, userId, required);
+    }
+  }
+
+  private async findCollaborator(resource: ShareableResource, collaboratorId: string) {
+    const permission =
+      resource.type === 'file'
+        ? await this.prisma.filePermission.findUnique({
+            where: { fileId_userId: { fileId: resource.id, userId: collaboratorId } },
+            select: { id: true },
+          })
+        : await this.prisma.folderPermission.findUnique({
+            where: { folderId_userId: { folderId: resource.id, userId: collaboratorId } },
+            select: { id: true },
+          });
+
+    if (!permission) {
+      throw BusinessException.collaboratorNotFound(resource.id, collaboratorId);
+    }
+
+    return permission;
+  }
+
+  private toResponse(permission: CollaboratorRecord): CollaboratorResponseDto {
+    const { user, ...rest } = permission;
+    return { ...rest, userId: user.id, email: user.email, name: user.name };
+  }
+}
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ShareLinkMode } from '@prisma/client';
+
+export class CreateShareLinkDto {
+  @ApiProperty({
+    description: 'VIEW only allows inline preview, DOWNLOAD also allows attachment download',
+    enum: ShareLinkMode,
+    default: ShareLinkMode.DOWNLOAD,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ShareLinkMode)
+  mode?: ShareLinkMode;
+
+  @ApiProperty({
+    description: 'Password recipients must provide to open the link',
+    example: 'secret-pass',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(50)
+  password?: string;
+
+  @ApiProperty({
+    description: 'When the link stops working (must be in the future)',
+    example: '2024-03-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of downloads allowed through the link',
+    example: 10,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDownloads?: number;
+}
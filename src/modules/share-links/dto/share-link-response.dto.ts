@@ -0,0 +1,102 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ShareLinkMode } from '@prisma/client';
+
+export class ShareLinkResponseDto {
+  @ApiProperty({
+    description: 'Share link ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Unguessable token used in the public URL',
+    example: 'q7Yc2m3u1nI0ZkKxVb8Yw0c1H5l7aP2d',
+  })
+  token: string;
+
+  @ApiProperty({
+    description: 'Public URL of the link',
+    example: 'http://localhost:7001/s/q7Yc2m3u1nI0ZkKxVb8Yw0c1H5l7aP2d',
+  })
+  url: string;
+
+  @ApiProperty({
+    description: 'Shared file ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  fileId: string;
+
+  @ApiProperty({ description: 'What recipients can do', enum: ShareLinkMode })
+  mode: ShareLinkMode;
+
+  @ApiProperty({ description: 'Whether the link requires a password', example: false })
+  hasPassword: boolean;
+
+  @ApiProperty({
+    description: 'When the link stops working',
+    example: null,
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  @ApiProperty({
+    description: 'Maximum number of downloads (null means unlimited)',
+    example: null,
+    nullable: true,
+  })
+  maxDownloads: number | null;
+
+  @ApiProperty({ description: 'Downloads served so far', example: 0 })
+  downloadCount: number;
+
+  @ApiProperty({
+    description: 'Last time the link was opened',
+    example: null,
+    nullable: true,
+  })
+  lastAccessedAt: Date | null;
+
+  @ApiProperty({
+    description: 'When the link was revoked',
+    example: null,
+    nullable: true,
+  })
+  revokedAt: Date | null;
+
+  @ApiProperty({
+    description: 'Link creation date',
+    example: '2024-02-16T00:00:00.000Z',
+  })
+  createdAt: Date;
+}
+
+export class SharedFileInfoDto {
+  @ApiProperty({ description: 'File name', example: 'report.pdf' })
+  name: string;
+
+  @ApiProperty({ description: 'File size in bytes', example: 1024000 })
+  size: number;
+
+  @ApiProperty({ description: 'File size formatted', example: '1000 KB' })
+  sizeFormatted: string;
+
+  @ApiProperty({ description: 'File MIME type', example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiProperty({ description: 'What recipients can do', enum: ShareLinkMode })
+  mode: ShareLinkMode;
+
+  @ApiProperty({
+    description: 'When the link stops working',
+    example: null,
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  @ApiProperty({
+    description: 'Downloads left before the link stops working (null means unlimited)',
+    example: null,
+    nullable: true,
+  })
+  remainingDownloads: number | null;
+}
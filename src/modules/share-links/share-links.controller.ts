@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { ShareLinksService } from './share-links.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { BaseResponseDto } from '../../common/dto';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { ShareLinkResponseDto } from './dto/share-link-response.dto';
+
+@ApiTags('Share Links')
+@Controller('files/:id/share-links')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ShareLinksController {
+  constructor(private readonly shareLinksService: ShareLinksService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a share link for a file',
+    description: 'Optional expiry, password, download limit and view-only mode.',
+  })
+  async createShareLink(
+    @Param('id') fileId: string,
+    @Body() dto: CreateShareLinkDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<ShareLinkResponseDto>> {
+    const link = await this.shareLinksService.createShareLink(fileId, user.id, dto);
+    return new BaseResponseDto(link, 'Share link created successfully');
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the share links of a file' })
+  async getShareLinks(
+    @Param('id') fileId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<ShareLinkResponseDto[]>> {
+    const links = await this.shareLinksService.getShareLinks(fileId, user.id);
+    return new BaseResponseDto(links, 'Share links retrieved successfully');
+  }
+
+  @Delete(':linkId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke a share link' })
+  async revokeShareLink(
+    @Param('id') fileId: string,
+    @Param('linkId') linkId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.shareLinksService.revokeShareLink(fileId, linkId, user.id);
+    return new BaseResponseDto(null, 'Share link revoked successfully');
+  }
+}
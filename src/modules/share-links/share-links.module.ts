@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ShareLinksController } from './share-links.controller';
+import { SharedFilesController } from './shared-files.controller';
+import { ShareLinksService } from './share-links.service';
+import { FilesModule } from '../files/files.module';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, FilesModule],
+  controllers: [ShareLinksController, SharedFilesController],
+  providers: [ShareLinksService],
+  exports: [ShareLinksService],
+})
+export class ShareLinksModule {}
@@ -0,0 +1,362 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ShareLinkMode } from '@prisma/client';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { FilesService } from '../files/files.service';
+import {
+  SHARE_LINK,
+  SHARE_LINK_SELECT_FIELDS,
+  SUCCESS_MESSAGES,
+  SYSTEM,
+} from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { formatFileSize } from '../../common/utils/file.util';
+import { deriveSecret } from '../../common/utils/crypto.util';
+import { StoredFile } from '../files/helpers/file-stream.helper';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { SharedFileInfoDto, ShareLinkResponseDto } from './dto/share-link-response.dto';
+
+const SHARED_FILE_SELECT_FIELDS = {
+  id: true,
+  name: true,
+  size: true,
+  mimeType: true,
+  path: true,
+  contentHash: true,
+  deletedAt: true,
+} as const;
+
+type ShareLinkRecord = {
+  id: string;
+  token: string;
+  fileId: string;
+  mode: ShareLinkMode;
+  passwordHash: string | null;
+  expiresAt: Date | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  lastAccessedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * A share link resolved from its token, with the file it points to
+ */
+export interface ResolvedShareLink {
+  link: ShareLinkRecord;
+  file: StoredFile & { id: string };
+}
+
+/**
+ * Proof that the holder started a counted download of a link, valid until expiresAt
+ */
+export interface ResumeGrant {
+  value: string;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class ShareLinksService {
+  private readonly resumeKey: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly storageService: StorageService,
+    private readonly filesService: FilesService,
+    private readonly configService: ConfigService,
+  ) {
+    const jwtSecret = this.configService.get<string>('JWT_SECRET');
+    this.resumeKey = jwtSecret
+      ? deriveSecret(jwtSecret, SHARE_LINK.RESUME_KEY_PURPOSE)
+      : randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Mint a new share link for a file owned by the user
+   */
+  async createShareLink(
+    fileId: string,
+    userId: string,
+    dto: CreateShareLinkDto,
+  ): Promise<ShareLinkResponseDto> {
+    const file = await this.filesService.getFileById(fileId, userId, 'OWNER');
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw BusinessException.shareLinkExpired(expiresAt);
+    }
+
+    const link = await this.prisma.shareLink.create({
+      data: {
+        token: randomBytes(SHARE_LINK.TOKEN_BYTES).toString('base64url'),
+        fileId: file.id,
+        createdById: userId,
+        mode: dto.mode ?? ShareLinkMode.DOWNLOAD,
+        passwordHash: dto.password ? await bcrypt.hash(dto.password, SYSTEM.BCRYPT_ROUNDS) : null,
+        expiresAt,
+        maxDownloads: dto.maxDownloads ?? null,
+      },
+      select: SHARE_LINK_SELECT_FIELDS,
+    });
+
+    this.logger.log(SUCCESS_MESSAGES.SHARE_LINK_CREATED, {
+      context: 'ShareLinksService',
+      userId,
+      fileId,
+      shareLinkId: link.id,
+      mode: link.mode,
+      hasPassword: !!link.passwordHash,
+      expiresAt,
+      maxDownloads: link.maxDownloads,
+    });
+
+    return this.toResponse(link);
+  }
+
+  /**
+   * List the share links of a file owned by the user, newest first
+   */
+  async getShareLinks(fileId: string, userId: string): Promise<ShareLinkResponseDto[]> {
+    await this.filesService.getFileById(fileId, userId, 'OWNER');
+
+    const links = await this.prisma.shareLink.findMany({
+      where: { fileId },
+      select: SHARE_LINK_SELECT_FIELDS,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return links.map((link) => this.toResponse(link));
+  }
+
+  /**
+   * Revoke a share link; the row is kept so owners can still see its history
+   */
+  async revokeShareLink(fileId: string, linkId: string, userId: string): Promise<void> {
+    await this.filesService.getFileById(fileId, userId, 'OWNER');
+
+    const link = await this.prisma.shareLink.findFirst({
+      where: { id: linkId, fileId },
+      select: { id: true, revokedAt: true },
+    });
+
+    if (!link) {
+      throw BusinessException.shareLinkNotFound();
+    }
+
+    if (!link.revokedAt) {
+      await this.prisma.shareLink.update({
+        where: { id: link.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    this.logger.log(SUCCESS_MESSAGES.SHARE_LINK_REVOKED, {
+      context: 'ShareLinksService',
+      userId,
+      fileId,
+      shareLinkId: linkId,
+    });
+  }
+
+  /**
+   * Public metadata about a shared file
+   */
+  async getSharedFileInfo(token: string, password?: string): Promise<SharedFileInfoDto> {
+    const { link, file } = await this.resolve(token, password);
+
+    await this.touch(link.id);
+
+    return {
+      name: file.name,
+      size: file.size,
+      sizeFormatted: formatFileSize(file.size),
+      mimeType: file.mimeType,
+      mode: link.mode,
+      expiresAt: link.expiresAt,
+      remainingDownloads:
+        link.maxDownloads === null ? null : Math.max(link.maxDownloads - link.downloadCount, 0),
+    };
+  }
+
+  /**
+   * Resolve a link for inline viewing (allowed in every mode). On links with a download
+   * limit, views are counted with countDownload like downloads.
+   */
+  async openForView(token: string, password?: string): Promise<ResolvedShareLink> {
+    // The limit is enforced by countDownload, so a counted download can still be resumed
+    const resolved = await this.resolve(token, password, false);
+    await this.touch(resolved.link.id);
+    return resolved;
+  }
+
+  /**
+   * Resolve a link for download. The download is counted against the link's limit by
+   * countDownload, once the response is known to send content.
+   */
+  async openForDownload(token: string, password?: string): Promise<ResolvedShareLink> {
+    const resolved = await this.resolve(token, password, false);
+
+    if (resolved.link.mode !== ShareLinkMode.DOWNLOAD) {
+      throw BusinessException.shareLinkViewOnly();
+    }
+
+    await this.touch(resolved.link.id);
+    return resolved;
+  }
+
+  /**
+   * Count a download against the link's limit
+   */
+  async countDownload(link: ShareLinkRecord): Promise<void> {
+    // Increment atomically so concurrent requests cannot exceed maxDownloads
+    const updated = await this.prisma.$executeRaw`
+      UPDATE "ShareLink"
+      SET "downloadCount" = "downloadCount" + 1, "lastAccessedAt" = NOW()
+      WHERE "id" = ${link.id}
+        AND ("maxDownloads" IS NULL OR "downloadCount" < "maxDownloads")
+    `;
+
+    if (updated === 0) {
+      throw BusinessException.shareLinkDownloadLimitReached(link.maxDownloads ?? 0);
+    }
+
+    this.logger.log('Shared file downloaded', {
+      context: 'ShareLinksService',
+      shareLinkId: link.id,
+      fileId: link.fileId,
+      downloadCount: link.downloadCount + 1,
+    });
+  }
+
+  /**
+   * Grant resuming the download just counted: ranges past the first byte sent with it
+   * are not counted again, until it expires or the file content changes
+   */
+  issueResumeGrant({ link, file }: ResolvedShareLink): ResumeGrant {
+    const expires = Math.floor(Date.now() / 1000) + SHARE_LINK.RESUME_EXPIRES_IN;
+
+    return {
+      value: `${expires}.${this.signResumeGrant(link, file, expires)}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  /**
+   * Whether a value is a current resume grant for this link and file content
+   */
+  isResumeGrantValid({ link, file }: ResolvedShareLink, value: string | undefined): boolean {
+    const [expiresPart, signature] = value?.split('.') ?? [];
+    const expires = Number(expiresPart);
+    if (!signature || !Number.isInteger(expires) || expires * 1000 <= Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signResumeGrant(link, file, expires), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Where to redirect clients for remote (S3) files; a short-lived presigned URL when available
+   */
+  async getRemoteUrl(file: StoredFile): Promise<string | undefined> {
+    if (!file.path.startsWith('http://') && !file.path.startsWith('https://')) {
+      return undefined;
+    }
+
+    const presignedUrl = await this.storageService.generatePresignedDownloadUrl(
+      this.storageService.extractStorageKey(file.path),
+    );
+    return presignedUrl ?? file.path;
+  }
+
+  /**
+   * Look up a link by token and enforce revocation, expiry and password
+   * @param checkLimit - Also reject links whose download limit is reached
+   */
+  private async resolve(
+    token: string,
+    password?: string,
+    checkLimit = true,
+  ): Promise<ResolvedShareLink> {
+    const link = await this.prisma.shareLink.findUnique({
+      where: { token },
+      select: {
+        ...SHARE_LINK_SELECT_FIELDS,
+        file: { select: { ...SHARED_FILE_SELECT_FIELDS, user: { select: { deletedAt: true } } } },
+      },
+    });
+
+    // Trashed files and files of deleted accounts are hidden the same way as revoked links
+    if (!link || link.revokedAt || link.file.deletedAt || link.file.user.deletedAt) {
+      this.logger.warn('Share link not found', {
+        context: 'ShareLinksService',
+        shareLinkId: link?.id,
+        errorCode: 'SHARE_LINK_NOT_FOUND',
+      });
+      throw BusinessException.shareLinkNotFound();
+    }
+
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      throw BusinessException.shareLinkExpired(link.expiresAt);
+    }
+
+    if (checkLimit && link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) {
+      throw BusinessException.shareLinkDownloadLimitReached(link.maxDownloads);
+    }
+
+    if (link.passwordHash) {
+      if (!password) {
+        throw BusinessException.shareLinkPasswordRequired();
+      }
+
+      const isPasswordValid = await bcrypt.compare(password, link.passwordHash);
+      if (!isPasswordValid) {
+        this.logger.warn('Share link password mismatch', {
+          context: 'ShareLinksService',
+          shareLinkId: link.id,
+          errorCode: 'SHARE_LINK_PASSWORD_INVALID',
+        });
+        throw BusinessException.shareLinkPasswordInvalid();
+      }
+    }
+
+    const {
+      file: { user: _owner, ...file },
+      ...record
+    } = link;
+    return { link: record, file };
+  }
+
+  // Bound to the content through its hash (or stored path), like a strong ETag
+  private signResumeGrant(link: ShareLinkRecord, file: StoredFile, expires: number): string {
+    return createHmac('sha256', this.resumeKey)
+      .update(`${link.id}:${file.contentHash ?? file.path}:${expires}`)
+      .digest('hex');
+  }
+
+  private async touch(linkId: string): Promise<void> {
+    await this.prisma.shareLink.update({
+      where: { id: linkId },
+      data: { lastAccessedAt: new Date() },
+    });
+  }
+
+  private toResponse(link: ShareLinkRecord): ShareLinkResponseDto {
+    const baseUrl = this.configService.get<string>('BASE_URL') ||
+      `http://localhost:${this.configService.get<number>('PORT', 7001)}`;
+
+    const { passwordHash, ...rest } = link;
+    return {
+      ...rest,
+      url: `${baseUrl}/s/${link.token}`,
+      hasPassword: !!passwordHash,
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import { Controller, Get, Param, Query, Headers, Req, Res, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader, ApiQuery } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { posix } from 'path';
+import { ResolvedShareLink, ShareLinksService } from './share-links.service';
+import { Public } from '../../common/decorators/public.decorator';
+import { BaseResponseDto } from '../../common/dto';
+import { SHARE_LINK } from '../../common/constants';
+import { StorageService } from '../../common/storage/storage.service';
+import { SharedFileInfoDto } from './dto/share-link-response.dto';
+import { streamStoredFile } from '../files/helpers/file-stream.helper';
+import { parseRangeHeader } from '../files/helpers/http-range.helper';
+
+/**
+ * Public routes for recipients of a share link (no auth required).
+ * Password-protected links accept the password via header or query string.
+ */
+@ApiTags('Share Links')
+@ApiHeader({ name: SHARE_LINK.PASSWORD_HEADER, required: false })
+@ApiQuery({ name: 'password', required: false })
+@Public()
+@Controller('s')
+export class SharedFilesController {
+  constructor(
+    private readonly shareLinksService: ShareLinksService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  @Get(':token')
+  @ApiOperation({ summary: 'Get information about a shared file' })
+  async getSharedFile(
+    @Param('token') token: string,
+    @Headers(SHARE_LINK.PASSWORD_HEADER) headerPassword?: string,
+    @Query('password') queryPassword?: string,
+  ): Promise<BaseResponseDto<SharedFileInfoDto>> {
+    const info = await this.shareLinksService.getSharedFileInfo(
+      token,
+      headerPassword ?? queryPassword,
+    );
+    return new BaseResponseDto(info, 'Shared file retrieved successfully');
+  }
+
+  @Get(':token/view')
+  @ApiOperation({
+    summary: 'View/preview a shared file',
+    description: 'Stream file with inline content-disposition. Available in every link mode. On links with a download limit, views count towards it like downloads (see download).',
+  })
+  async viewSharedFile(
+    @Param('token') token: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Headers(SHARE_LINK.PASSWORD_HEADER) headerPassword?: string,
+    @Query('password') queryPassword?: string,
+  ): Promise<StreamableFile | undefined> {
+    const resolved = await this.shareLinksService.openForView(
+      token,
+      headerPassword ?? queryPassword,
+    );
+
+    return this.streamSharedFile(req, res, resolved, 'inline');
+  }
+
+  @Get(':token/download')
+  @ApiOperation({
+    summary: 'Download a shared file',
+    description: 'Counts towards the link download limit. On links with a limit, every response sending content counts, except a Range past the first byte sent with the resume cookie set by a counted download of the same content (valid 6 hours); 304 revalidations are not counted. Rejected for view-only links.',
+  })
+  async downloadSharedFile(
+    @Param('token') token: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Headers(SHARE_LINK.PASSWORD_HEADER) headerPassword?: string,
+    @Query('password') queryPassword?: string,
+  ): Promise<StreamableFile | undefined> {
+    const resolved = await this.shareLinksService.openForDownload(
+      token,
+      headerPassword ?? queryPassword,
+    );
+
+    return this.streamSharedFile(req, res, resolved, 'attachment');
+  }
+
+  /**
+   * Stream a shared file, counting downloads against the link. On links with a download
+   * limit, every response sending content is counted, views included, unless it resumes
+   * a download counted for this client (resume cookie); their remote files are read
+   * through the server, since a presigned URL could be fetched again without counting.
+   */
+  private async streamSharedFile(
+    req: Request,
+    res: Response,
+    resolved: ResolvedShareLink,
+    disposition: 'inline' | 'attachment',
+  ): Promise<StreamableFile | undefined> {
+    const { link, file } = resolved;
+    const limited = link.maxDownloads !== null;
+
+    // A presigned URL serves the whole file, so remote files are only redirected to
+    // when the download starts from the first byte; resumed ones are read through here
+    const ranges = parseRangeHeader(req.get('Range'), Number.MAX_SAFE_INTEGER);
+    const resumed = ranges !== undefined && !ranges.some(({ start }) => start === 0);
+    const redirect = !limited && !(disposition === 'attachment' && resumed);
+
+    return streamStoredFile(req, res, file, {
+      disposition,
+      headers: { 'Cache-Control': 'private, no-store' },
+      redirectUrl: redirect ? await this.shareLinksService.getRemoteUrl(file) : undefined,
+      storage: this.storageService,
+      beforeContent: async (firstByte) => {
+        if (!limited) {
+          // Without a limit the count is only informative: downloads started, not resumed
+          if (disposition === 'attachment' && firstByte === 0) {
+            await this.shareLinksService.countDownload(link);
+          }
+          return;
+        }
+
+        const grant = readCookie(req, SHARE_LINK.RESUME_COOKIE);
+        if (firstByte > 0 && this.shareLinksService.isResumeGrantValid(resolved, grant)) {
+          return;
+        }
+
+        await this.shareLinksService.countDownload(link);
+
+        const { value, expiresAt } = this.shareLinksService.issueResumeGrant(resolved);
+        res.cookie(SHARE_LINK.RESUME_COOKIE, value, {
+          // Both /view and /download of this link
+          path: posix.dirname(req.path),
+          expires: expiresAt,
+          httpOnly: true,
+          sameSite: 'lax',
+          secure: req.secure,
+        });
+      },
+    });
+  }
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.get('Cookie') ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return undefined;
+}
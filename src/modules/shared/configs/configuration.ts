@@ -55,9 +55,27 @@ export const configuration = () => ({
   // sendgridConfig: {
   //   apiKey: process.env.SENDGRID_API_KEY
   // },
-  mailgunConfig: {
-    apiKey: process.env.MAILGUN_API_KEY,
-    domain: process.env.MAILGUN_DOMAIN || 'cleanover.com'
+  mailConfig: {
+    // 'smtp' or 'file' (writes messages to outputDirectory, for development and tests)
+    transport: process.env.MAIL_TRANSPORT || 'file',
+    from: process.env.MAIL_FROM || 'Dropbox App <no-reply@localhost>',
+    outputDirectory: process.env.MAIL_OUTPUT_DIRECTORY || './tmp/mails',
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: String(process.env.SMTP_SECURE) === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD
+    }
+  },
+  authConfig: {
+    requireVerifiedEmailForUpload: String(process.env.REQUIRE_VERIFIED_EMAIL_FOR_UPLOAD) === 'true',
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24'),
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60'),
+    // Key for encrypting TOTP secrets at rest; falls back to a key derived from JWT_SECRET
+    twoFactorEncryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY,
+    maxFailedLoginAttempts: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5'),
+    loginLockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15')
   },
   auth0Config: {
     // Management API
@@ -104,6 +122,7 @@ export const configuration = () => ({
     enableApiModule: String(process.env.ENABLE_API_MODULE) !== 'false',
     enableQueueConsumer: String(process.env.ENABLE_API_MODULE) !== 'false'
   },
+  // Failed logins allowed per client IP (limit) within a window of ttl seconds
   throttleConfig: {
     ttl: parseInt(process.env.THROTTLE_TTL || '60'),
     limit: parseInt(process.env.THROTTLE_LIMIT || '10')
@@ -122,7 +141,28 @@ export const configuration = () => ({
       String(process.env.ENABLE_SCHEDULE_MESSAGE_FOR_LOCK_APP_CRON) === 'true',
     enableSendMessageLockCodeForLockAppCron:
       String(process.env.ENABLE_SEND_MESSAGE_LOCK_CODE_FOR_LOCK_APP_CRON) === 'true',
-    enableScheduledFileDeletion: String(process.env.ENABLE_SCHEDULED_FILE_DELETION) == 'true'
+    enableScheduledFileDeletion: String(process.env.ENABLE_SCHEDULED_FILE_DELETION) !== 'false'
+  },
+  trashConfig: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+    purgeBatchSize: parseInt(process.env.TRASH_PURGE_BATCH_SIZE || '100')
+  },
+  uploadConfig: {
+    // Hours an unfinished chunked upload keeps its session and quota reservation after its last chunk
+    reservationTtlHours: parseInt(process.env.UPLOAD_RESERVATION_TTL_HOURS || '24'),
+    // Where chunks are kept until assembly; share it between instances behind a load balancer
+    tempDirectory: process.env.UPLOAD_TEMP_DIRECTORY || './uploads/temp'
+  },
+  sessionConfig: {
+    refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30')
+  },
+  accountConfig: {
+    // Days a deleted account can be restored before it and its files are purged
+    deletionGraceDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30')
+  },
+  fileVersionConfig: {
+    maxVersions: parseInt(process.env.FILE_VERSION_MAX_VERSIONS || '10'),
+    maxAgeDays: parseInt(process.env.FILE_VERSION_MAX_AGE_DAYS || '90')
   },
   azureStorageConfig: {
     containerName: process.env.AZURE_BLOB_CONTAINER_NAME || 'dev2-images',
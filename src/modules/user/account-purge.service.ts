@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/logger/logger.service';
+import { ACCOUNT } from '../../common/constants';
+import { addDays } from '../../common/utils/date.util';
+import { FilesService } from '../files/files.service';
+import { UserService } from './user.service';
+
+@Injectable()
+export class AccountPurgeService {
+  private isRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly filesService: FilesService,
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * Permanently remove accounts deleted longer than the grace period ago, with all of
+   * their files and stored objects. Database rows owned by the user cascade.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_5AM, { name: 'account-purge' })
+  async handleAccountPurge(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Account purge skipped: previous run still in progress', {
+        context: 'AccountPurgeService',
+      });
+      return;
+    }
+
+    this.isRunning = true;
+    const graceDays = this.userService.getDeletionGraceDays();
+    const cutoff = addDays(new Date(), -graceDays);
+
+    try {
+      const purgedCount = await this.purgeDeletedAccounts(cutoff);
+
+      this.logger.log('Account purge completed', {
+        context: 'AccountPurgeService',
+        graceDays,
+        cutoff: cutoff.toISOString(),
+        purgedCount,
+      });
+    } catch (error) {
+      this.logger.error('Account purge failed', error.stack, {
+        context: 'AccountPurgeService',
+        graceDays,
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Purge every account deleted before the cutoff, in batches
+   * @returns Number of accounts purged
+   */
+  private async purgeDeletedAccounts(cutoff: Date): Promise<number> {
+    let purgedCount = 0;
+
+    while (true) {
+      const users = await this.prisma.user.findMany({
+        where: { deletedAt: { not: null, lt: cutoff } },
+        select: { id: true },
+        take: ACCOUNT.PURGE_BATCH_SIZE,
+      });
+
+      if (users.length === 0) break;
+
+      let batchPurged = 0;
+      for (const user of users) {
+        try {
+          // Storage goes first; a failure leaves the account in place to be retried tomorrow
+          const fileCount = await this.filesService.purgeUserFiles(user.id);
+          await this.prisma.user.delete({ where: { id: user.id } });
+          batchPurged++;
+
+          this.logger.log('Deleted account purged', {
+            context: 'AccountPurgeService',
+            userId: user.id,
+            fileCount,
+          });
+        } catch (error) {
+          this.logger.error('Failed to purge deleted account', error.stack, {
+            context: 'AccountPurgeService',
+            userId: user.id,
+          });
+        }
+      }
+
+      purgedCount += batchPurged;
+
+      // Stop when nothing in the batch could be purged to avoid looping forever on bad rows
+      if (batchPurged === 0 || users.length < ACCOUNT.PURGE_BATCH_SIZE) break;
+    }
+
+    return purgedCount;
+  }
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class DeleteAccountDto {
+  @ApiProperty({
+    description: 'Current password, to confirm the deletion',
+    example: 'password123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
+
+export class AccountDeletionResponseDto {
+  @ApiProperty({
+    description: 'When the account and its files are permanently removed unless restored',
+    example: '2024-03-17T00:00:00.000Z',
+  })
+  purgeAfter: Date;
+}
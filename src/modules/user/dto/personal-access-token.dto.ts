@@ -0,0 +1,95 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { TOKEN_SCOPES } from '../../../common/constants';
+import { TokenScope } from '../../../common/decorators/require-scopes.decorator';
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({
+    description: 'What the token is for',
+    example: 'CI backup job',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Operations the token may perform',
+    enum: Object.values(TOKEN_SCOPES),
+    isArray: true,
+    example: [TOKEN_SCOPES.FILES_READ, TOKEN_SCOPES.FILES_WRITE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(Object.values(TOKEN_SCOPES), { each: true })
+  scopes: TokenScope[];
+
+  @ApiProperty({
+    description: 'When the token stops working (must be in the future); omit for no expiry',
+    example: '2025-01-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class PersonalAccessTokenResponseDto {
+  @ApiProperty({
+    description: 'Token ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'What the token is for', example: 'CI backup job' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Leading characters of the token, to recognise it',
+    example: 'dbx_pat_Xq3v9A',
+  })
+  tokenPrefix: string;
+
+  @ApiProperty({
+    description: 'Operations the token may perform',
+    example: [TOKEN_SCOPES.FILES_READ],
+    type: [String],
+  })
+  scopes: string[];
+
+  @ApiProperty({
+    description: 'When the token stops working',
+    example: null,
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  @ApiProperty({
+    description: 'Last time the token was used (updated at most once a minute)',
+    example: '2024-02-17T08:30:00.000Z',
+    nullable: true,
+  })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ description: 'Creation date', example: '2024-02-16T00:00:00.000Z' })
+  createdAt: Date;
+}
+
+export class CreatedPersonalAccessTokenDto extends PersonalAccessTokenResponseDto {
+  @ApiProperty({
+    description: 'The token itself. It is only returned once; store it safely.',
+    example: 'dbx_pat_Xq3v9A2bYw7nR1pLw8sYc4dHf6gAe0UoQiTz5KjNm',
+  })
+  token: string;
+}
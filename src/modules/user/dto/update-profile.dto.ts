@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class UpdateProfileDto {
+  @ApiProperty({
+    description: 'User full name',
+    example: 'John Doe',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    description: 'New email address; it is applied once confirmed from the email sent there',
+    example: 'new-address@example.com',
+    required: false,
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiProperty({
+    description: 'Current password, required when changing the email address',
+    example: 'password123',
+    required: false,
+  })
+  @ValidateIf((dto: UpdateProfileDto) => dto.email !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  currentPassword?: string;
+}
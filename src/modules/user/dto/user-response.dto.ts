@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
 
 export class UserResponseDto {
   @ApiProperty({
@@ -19,6 +20,27 @@ export class UserResponseDto {
   })
   createdAt: Date;
 
+  @ApiProperty({
+    description: 'When the email address was verified, null until then',
+    example: '2024-02-16T00:05:00.000Z',
+    nullable: true,
+  })
+  emailVerifiedAt: Date | null;
+
+  @ApiProperty({
+    description: 'Requested new email address awaiting confirmation',
+    example: null,
+    nullable: true,
+  })
+  pendingEmail: string | null;
+
+  @ApiProperty({
+    description: 'User role',
+    enum: UserRole,
+    example: UserRole.USER,
+  })
+  role: UserRole;
+
   @ApiProperty({
     description: 'User name (optional)',
     example: 'John Doe',
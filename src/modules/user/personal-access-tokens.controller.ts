@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { BaseResponseDto } from '../../common/dto';
+import { SUCCESS_MESSAGES } from '../../common/constants';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from './dto/personal-access-token.dto';
+
+@ApiTags('Users')
+@Controller('users/me/tokens')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PersonalAccessTokensController {
+  constructor(private readonly personalAccessTokensService: PersonalAccessTokensService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a personal access token for scripts and CI' })
+  async createToken(
+    @Body() dto: CreatePersonalAccessTokenDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<CreatedPersonalAccessTokenDto>> {
+    const data = await this.personalAccessTokensService.createToken(user.id, dto);
+    return new BaseResponseDto(data, SUCCESS_MESSAGES.PERSONAL_ACCESS_TOKEN_CREATED);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List personal access tokens' })
+  async listTokens(
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<PersonalAccessTokenResponseDto[]>> {
+    const data = await this.personalAccessTokensService.listTokens(user.id);
+    return new BaseResponseDto(data, 'Personal access tokens retrieved successfully');
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke a personal access token' })
+  async revokeToken(
+    @Param('id') tokenId: string,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.personalAccessTokensService.revokeToken(tokenId, user.id);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.PERSONAL_ACCESS_TOKEN_REVOKED);
+  }
+}
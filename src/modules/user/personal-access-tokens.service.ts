@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService, LogContext } from '../../common/logger/logger.service';
+import {
+  PERSONAL_ACCESS_TOKEN,
+  PERSONAL_ACCESS_TOKEN_SELECT_FIELDS,
+  SUCCESS_MESSAGES,
+} from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { generateSecureToken, hashToken } from '../../common/utils/string.util';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from './dto/personal-access-token.dto';
+
+@Injectable()
+export class PersonalAccessTokensService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Create a token. The raw value is returned once and only its hash is stored.
+   */
+  async createToken(
+    userId: string,
+    dto: CreatePersonalAccessTokenDto,
+  ): Promise<CreatedPersonalAccessTokenDto> {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw BusinessException.personalAccessTokenInvalidExpiry(expiresAt);
+    }
+
+    const token = `${PERSONAL_ACCESS_TOKEN.PREFIX}${generateSecureToken(PERSONAL_ACCESS_TOKEN.TOKEN_BYTES)}`;
+
+    const created = await this.prisma.personalAccessToken.create({
+      data: {
+        userId,
+        name: dto.name.trim(),
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(
+          0,
+          PERSONAL_ACCESS_TOKEN.PREFIX.length + PERSONAL_ACCESS_TOKEN.DISPLAY_PREFIX_LENGTH,
+        ),
+        scopes: dto.scopes,
+        expiresAt,
+      },
+      select: PERSONAL_ACCESS_TOKEN_SELECT_FIELDS,
+    });
+
+    this.logger.logAuth(SUCCESS_MESSAGES.PERSONAL_ACCESS_TOKEN_CREATED, userId, {
+      tokenId: created.id,
+      scopes: dto.scopes,
+    });
+
+    return { ...created, token };
+  }
+
+  /**
+   * List the user's tokens that have not been revoked, newest first
+   */
+  async listTokens(userId: string): Promise<PersonalAccessTokenResponseDto[]> {
+    return this.prisma.personalAccessToken.findMany({
+      where: { userId, revokedAt: null },
+      select: PERSONAL_ACCESS_TOKEN_SELECT_FIELDS,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke a token; requests using it are rejected from now on
+   */
+  async revokeToken(tokenId: string, userId: string): Promise<void> {
+    const { count } = await this.prisma.personalAccessToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      this.logger.warn('Personal access token not found', {
+        context: LogContext.AUTH,
+        userId,
+        tokenId,
+        errorCode: 'PAT_NOT_FOUND',
+      });
+      throw BusinessException.personalAccessTokenNotFound(tokenId);
+    }
+
+    this.logger.logAuth(SUCCESS_MESSAGES.PERSONAL_ACCESS_TOKEN_REVOKED, userId, { tokenId });
+  }
+}
@@ -1,25 +1,95 @@
-import { Controller, Get, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Patch,
+  Post,
+  Delete,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UserResponseDto } from './dto/user-response.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { AccountDeletionResponseDto, DeleteAccountDto } from './dto/delete-account.dto';
 import { BaseResponseDto } from '../../common/dto';
+import { SUCCESS_MESSAGES } from '../../common/constants';
+import { UserService } from './user.service';
+import { StorageQuotaService } from '../files/storage-quota.service';
+import { StorageQuotaDto } from '../files/dto/storage-quota.dto';
 
 @ApiTags('Users')
 @Controller('users')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class UserController {
+  constructor(
+    private readonly userService: UserService,
+    private readonly storageQuotaService: StorageQuotaService,
+  ) {}
+
   @Get('me')
   getCurrentUser(@CurrentUser() user: any): BaseResponseDto<UserResponseDto> {
     const userData: UserResponseDto = {
       id: user.id,
       email: user.email,
       name: user.name,
+      emailVerifiedAt: user.emailVerifiedAt,
+      pendingEmail: user.pendingEmail,
+      role: user.role,
       createdAt: user.createdAt,
     };
     return new BaseResponseDto(userData, 'User retrieved successfully');
   }
-}
 
+  @Get('me/quota')
+  @ApiOperation({ summary: 'Get the storage plan, quota and usage of the current user' })
+  async getQuota(@CurrentUser() user: any): Promise<BaseResponseDto<StorageQuotaDto>> {
+    const data = await this.storageQuotaService.getQuota(user.id);
+    return new BaseResponseDto(data, 'Storage quota retrieved successfully');
+  }
+
+  @Patch('me')
+  @ApiOperation({
+    summary: 'Update the profile',
+    description:
+      'A new email address (requires currentPassword) is kept as pendingEmail until it is confirmed from the email sent there.',
+  })
+  async updateProfile(
+    @Body() dto: UpdateProfileDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<UserResponseDto>> {
+    const data = await this.userService.updateProfile(user.id, dto);
+    return new BaseResponseDto(data, SUCCESS_MESSAGES.PROFILE_UPDATED);
+  }
 
+  @Post('me/password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change the password; other sessions are signed out' })
+  async changePassword(
+    @Body() dto: ChangePasswordDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<null>> {
+    await this.userService.changePassword(user.id, user.sessionId, dto);
+    return new BaseResponseDto(null, SUCCESS_MESSAGES.PASSWORD_CHANGED);
+  }
+
+  @Delete('me')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete the account',
+    description:
+      'The account is signed out everywhere and can be restored from the emailed link until purgeAfter; then it is removed with all files.',
+  })
+  async deleteAccount(
+    @Body() dto: DeleteAccountDto,
+    @CurrentUser() user: any,
+  ): Promise<BaseResponseDto<AccountDeletionResponseDto>> {
+    const data = await this.userService.deleteAccount(user.id, dto.password);
+    return new BaseResponseDto(data, SUCCESS_MESSAGES.ACCOUNT_DELETED);
+  }
+}
@@ -1,8 +1,16 @@
 import { Module } from '@nestjs/common';
 import { UserController } from './user.controller';
+import { UserService } from './user.service';
+import { AccountPurgeService } from './account-purge.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { FilesModule } from '../files/files.module';
 
 @Module({
-  controllers: [UserController],
+  imports: [PrismaModule, AuthModule, FilesModule],
+  controllers: [UserController, PersonalAccessTokensController],
+  providers: [UserService, AccountPurgeService, PersonalAccessTokensService],
 })
 export class UserModule {}
-
@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService, LogContext } from '../../common/logger/logger.service';
+import {
+  ACCOUNT,
+  SUCCESS_MESSAGES,
+  SYSTEM,
+  USER_PROFILE_SELECT_FIELDS,
+} from '../../common/constants';
+import { BusinessException } from '../../common/exceptions';
+import { addDays } from '../../common/utils/date.util';
+import { AuthService } from '../auth/auth.service';
+import { SessionsService } from '../auth/sessions.service';
+import { UserResponseDto } from './dto/user-response.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { AccountDeletionResponseDto } from './dto/delete-account.dto';
+
+@Injectable()
+export class UserService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Update the name and/or start an email change. A new email needs the current password
+   * and stays pending until it is confirmed.
+   */
+  async updateProfile(userId: string, dto: UpdateProfileDto): Promise<UserResponseDto> {
+    const user = await this.findUser(userId);
+    const changesEmail = dto.email !== undefined && dto.email !== user.email;
+    const name = dto.name !== undefined ? dto.name.trim() || null : user.name;
+
+    // The name is saved last: a wrong password or a taken address leaves the profile untouched
+    if (changesEmail) {
+      await this.assertPassword(user, dto.currentPassword);
+      await this.authService.requestEmailChange({ ...user, name }, dto.email);
+    } else if (dto.email !== undefined && user.pendingEmail) {
+      // Going back to the current address cancels the pending change
+      await this.prisma.user.update({ where: { id: userId }, data: { pendingEmail: null } });
+    }
+
+    if (dto.name !== undefined) {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { name },
+      });
+    }
+
+    this.logger.logAuth(SUCCESS_MESSAGES.PROFILE_UPDATED, userId, {
+      fields: Object.keys(dto).filter((field) => field !== 'currentPassword'),
+    });
+
+    return this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: USER_PROFILE_SELECT_FIELDS,
+    });
+  }
+
+  /**
+   * Change the password. Every other session is signed out; the current one stays.
+   */
+  async changePassword(
+    userId: string,
+    currentSessionId: string,
+    dto: ChangePasswordDto,
+  ): Promise<void> {
+    const user = await this.findUser(userId);
+    await this.assertPassword(user, dto.currentPassword);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: await bcrypt.hash(dto.newPassword, SYSTEM.BCRYPT_ROUNDS) },
+    });
+    await this.sessionsService.revokeAllSessions(userId, currentSessionId);
+
+    this.logger.logAuth(SUCCESS_MESSAGES.PASSWORD_CHANGED, userId);
+  }
+
+  /**
+   * Soft-delete the account and sign it out everywhere. It can be restored from the
+   * emailed link until the grace period ends, after which the account purge removes
+   * it together with its files.
+   */
+  async deleteAccount(userId: string, password: string): Promise<AccountDeletionResponseDto> {
+    const user = await this.findUser(userId);
+    await this.assertPassword(user, password);
+
+    const graceDays = this.getDeletionGraceDays();
+    const deletedAt = new Date();
+
+    await this.prisma.user.update({ where: { id: userId }, data: { deletedAt } });
+    await this.sessionsService.revokeAllSessions(userId);
+    await this.prisma.personalAccessToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: deletedAt },
+    });
+
+    // The deletion stands even if the mail cannot be delivered
+    await this.authService.sendAccountDeletionEmail(user, graceDays).catch((error) =>
+      this.logger.errorAuth('Failed to send account deletion email', error.stack, userId),
+    );
+
+    this.logger.logAuth(SUCCESS_MESSAGES.ACCOUNT_DELETED, userId, { graceDays });
+
+    return { purgeAfter: addDays(deletedAt, graceDays) };
+  }
+
+  /**
+   * Number of days a deleted account can be restored
+   */
+  getDeletionGraceDays(): number {
+    return (
+      this.configService.get<number>('accountConfig.deletionGraceDays') ??
+      ACCOUNT.DEFAULT_DELETION_GRACE_DAYS
+    );
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, pendingEmail: true, password: true },
+    });
+
+    if (!user) {
+      throw BusinessException.userNotFound(userId);
+    }
+    return user;
+  }
+
+  private async assertPassword(
+    user: { id: string; password: string },
+    password: string | undefined,
+  ): Promise<void> {
+    if (!password || !(await bcrypt.compare(password, user.password))) {
+      this.logger.warn('Password confirmation failed', {
+        context: LogContext.AUTH,
+        userId: user.id,
+        errorCode: 'AUTH_PASSWORD_INCORRECT',
+      });
+      throw BusinessException.passwordIncorrect();
+    }
+  }
+}
@@ -2,6 +2,25 @@ import { Prisma } from '@prisma/client';
 
 const SOFT_DELETE_FIELD = 'deletedAt';
 
+/**
+ * Where-clause fragments to opt in to reading soft-deleted rows.
+ * When a query already filters on `deletedAt`, the extension leaves it untouched.
+ *
+ * @example prisma.file.findMany({ where: { userId, ...onlyTrashed() } })
+ */
+export const onlyTrashed = () => ({ [SOFT_DELETE_FIELD]: { not: null } }) as const;
+export const withTrashed = () => ({ [SOFT_DELETE_FIELD]: {} }) as const;
+
+/**
+ * Exclude soft-deleted records unless the caller filters on deletedAt explicitly
+ */
+function excludeSoftDeleted<T extends Record<string, any>>(where: T | undefined): T {
+  if (where && where[SOFT_DELETE_FIELD] !== undefined) {
+    return where;
+  }
+  return { ...where, [SOFT_DELETE_FIELD]: null } as T;
+}
+
 /**
  * Prisma extension for soft delete functionality
  * Automatically filters out soft-deleted records and converts delete operations to updates
@@ -12,50 +31,44 @@ export const SoftDeleteExtension = Prisma.defineExtension({
     user: {
       // Intercept findUnique to exclude soft-deleted records
       async findUnique({ args, query }) {
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
       // Intercept findFirst to exclude soft-deleted records
       async findFirst({ args, query }) {
-        if (!args.where) args.where = {};
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
       // Intercept findMany to exclude soft-deleted records
       async findMany({ args, query }) {
-        if (!args.where) args.where = {};
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
       // Intercept count to exclude soft-deleted records
       async count({ args, query }) {
-        if (!args.where) args.where = {};
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
     },
     file: {
       // Intercept findUnique to exclude soft-deleted records
       async findUnique({ args, query }) {
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
       // Intercept findFirst to exclude soft-deleted records
       async findFirst({ args, query }) {
-        if (!args.where) args.where = {};
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
       // Intercept findMany to exclude soft-deleted records
       async findMany({ args, query }) {
-        if (!args.where) args.where = {};
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
       // Intercept count to exclude soft-deleted records
       async count({ args, query }) {
-        if (!args.where) args.where = {};
-        args.where = { ...args.where, deletedAt: null };
+        args.where = excludeSoftDeleted(args.where);
         return query(args);
       },
     },